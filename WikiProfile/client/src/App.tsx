@@ -9,10 +9,14 @@ import Home from "@/pages/Home";
 import Profile from "@/pages/Profile";
 import Admin from "@/pages/Admin";
 import AuthPage from "@/pages/AuthPage";
+import TagPage from "@/pages/TagPage";
+import EntryPage from "@/pages/EntryPage";
 import { useAuth } from "@/hooks/useAuth";
+import { useRealtime } from "@/hooks/use-realtime";
 
 function Router() {
   const { isAuthenticated, isLoading } = useAuth();
+  useRealtime(isAuthenticated);
 
   // Always register all routes to prevent 404s on refresh
   return (
@@ -31,6 +35,8 @@ function Router() {
       <Route path="/auth" component={AuthPage} />
       <Route path="/profile/:userId" component={Profile} />
       <Route path="/admin" component={Admin} />
+      <Route path="/tags/:slug" component={TagPage} />
+      <Route path="/entry/:id/:slug?" component={EntryPage} />
       <Route component={NotFound} />
     </Switch>
   );
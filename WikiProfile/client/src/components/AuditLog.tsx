@@ -0,0 +1,206 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { vi } from "date-fns/locale";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { LoadMore } from "@/components/LoadMore";
+import { useInfiniteList } from "@/hooks/use-infinite-list";
+import {
+  AUDIT_ACTIONS,
+  AUDIT_TARGET_TYPES,
+  type AuditAction,
+  type AuditLogEntryWithActor,
+  type AuditTargetType,
+} from "@shared/schema";
+import { Loader2 } from "lucide-react";
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  "entry.moderate": "Kiểm duyệt entry",
+  "entry.draft_moderate": "Duyệt chỉnh sửa",
+  "entry.verify": "Xác minh entry",
+  "entry.restore": "Khôi phục phiên bản",
+  "entry.delete": "Xóa entry",
+  "comment.delete": "Xóa bình luận",
+  "report.status": "Xử lý báo cáo",
+  "tag.rename": "Đổi tên thẻ",
+  "tag.merge": "Gộp thẻ",
+  "tag.delete": "Xóa thẻ",
+  "image.retry": "Tải lại hình ảnh",
+  "user.ban": "Ban user",
+  "user.unban": "Unban user",
+  "user.delete": "Xóa user",
+  "user.badge": "Đổi huy hiệu",
+  "user.role": "Đổi vai trò",
+  "user.2fa_reset": "Đặt lại xác thực hai bước",
+  "lockout.clear": "Mở khóa đăng nhập",
+};
+
+const TARGET_LABELS: Record<AuditTargetType, string> = {
+  entry: "Entry",
+  comment: "Bình luận",
+  report: "Báo cáo",
+  tag: "Thẻ",
+  image: "Hình ảnh",
+  user: "User",
+  lockout: "Khóa đăng nhập",
+};
+
+const ALL = "all";
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "—";
+  if (typeof value === "string") return value.length > 80 ? `${value.slice(0, 80)}…` : value;
+  return JSON.stringify(value);
+}
+
+// Fields that differ between the snapshots; all of `before` for deletions
+function changedFields(before: unknown, after: unknown): { key: string; from?: unknown; to?: unknown }[] {
+  const from = (before ?? {}) as Record<string, unknown>;
+  const to = (after ?? {}) as Record<string, unknown>;
+  const keys = Array.from(new Set([...Object.keys(from), ...Object.keys(to)]));
+  if (after === null) return keys.map((key) => ({ key, from: from[key] }));
+  return keys
+    .filter((key) => JSON.stringify(from[key]) !== JSON.stringify(to[key]))
+    .map((key) => ({ key, from: from[key], to: to[key] }));
+}
+
+function TargetLink({ entry }: { entry: AuditLogEntryWithActor }) {
+  const label = `${TARGET_LABELS[entry.targetType] ?? entry.targetType} ${entry.targetId.slice(0, 8)}`;
+  if (entry.action.endsWith(".delete")) return <span>{label}</span>;
+  if (entry.targetType === "entry") {
+    return <Link href={`/entry/${entry.targetId}`} className="hover:underline">{label}</Link>;
+  }
+  if (entry.targetType === "user") {
+    return <Link href={`/profile/${entry.targetId}`} className="hover:underline">{label}</Link>;
+  }
+  return <span>{label}</span>;
+}
+
+// Admin/moderator actions, filterable by action, target and actor
+export function AuditLog() {
+  const [action, setAction] = useState<string>(ALL);
+  const [targetType, setTargetType] = useState<string>(ALL);
+  const [targetId, setTargetId] = useState("");
+  const [actorId, setActorId] = useState("");
+
+  const list = useInfiniteList<AuditLogEntryWithActor>(["/api/admin/audit"], {
+    action: action === ALL ? undefined : action,
+    targetType: targetType === ALL ? undefined : targetType,
+    targetId: targetId.trim() || undefined,
+    actorId: actorId.trim() || undefined,
+  }, {
+    // Every admin action adds rows; refetch whenever the tab is opened
+    staleTime: 0,
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <Select value={action} onValueChange={setAction}>
+          <SelectTrigger className="w-48" data-testid="select-audit-action">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Mọi hành động</SelectItem>
+            {AUDIT_ACTIONS.map((value) => (
+              <SelectItem key={value} value={value}>{ACTION_LABELS[value]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={targetType} onValueChange={setTargetType}>
+          <SelectTrigger className="w-40" data-testid="select-audit-target-type">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Mọi đối tượng</SelectItem>
+            {AUDIT_TARGET_TYPES.map((value) => (
+              <SelectItem key={value} value={value}>{TARGET_LABELS[value]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          placeholder="ID đối tượng"
+          value={targetId}
+          onChange={(e) => setTargetId(e.target.value)}
+          className="w-56"
+          data-testid="input-audit-target-id"
+        />
+        <Input
+          placeholder="ID người thực hiện"
+          value={actorId}
+          onChange={(e) => setActorId(e.target.value)}
+          className="w-56"
+          data-testid="input-audit-actor-id"
+        />
+      </div>
+
+      {list.isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : list.items.length === 0 ? (
+        <div className="text-center py-12 border rounded-lg bg-card">
+          <p className="text-lg text-muted-foreground" data-testid="text-no-audit">
+            Chưa có hoạt động nào
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {list.items.map((entry) => {
+            const actorName = entry.actor
+              ? `${entry.actor.firstName || ""} ${entry.actor.lastName || ""}`.trim() || entry.actor.email || entry.actor.id
+              : "Tài khoản đã xóa";
+            return (
+              <div key={entry.id} className="border rounded-lg p-3 bg-card space-y-1 text-sm" data-testid={`row-audit-${entry.id}`}>
+                <div className="flex flex-wrap items-center gap-x-2 gap-y-1">
+                  {entry.actor ? (
+                    <button
+                      type="button"
+                      className="font-semibold hover:underline"
+                      onClick={() => setActorId(entry.actor!.id)}
+                      title="Lọc theo người này"
+                    >
+                      {actorName}
+                    </button>
+                  ) : (
+                    <span className="font-semibold text-muted-foreground">{actorName}</span>
+                  )}
+                  <span>{ACTION_LABELS[entry.action] ?? entry.action}</span>
+                  <TargetLink entry={entry} />
+                  <span className="text-xs text-muted-foreground ml-auto">
+                    {entry.createdAt && formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true, locale: vi })}
+                  </span>
+                </div>
+                {entry.reason && (
+                  <p className="text-muted-foreground">
+                    <strong>Lý do:</strong> {entry.reason}
+                  </p>
+                )}
+                <ul className="text-xs text-muted-foreground font-mono space-y-0.5">
+                  {changedFields(entry.before, entry.after).map(({ key, from, to }) => (
+                    <li key={key} className="break-all">
+                      {key}: {formatValue(from)}
+                      {entry.after !== null && <> → {formatValue(to)}</>}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+      )}
+      <LoadMore
+        hasNextPage={list.hasNextPage}
+        isFetchingNextPage={list.isFetchingNextPage}
+        fetchNextPage={list.fetchNextPage}
+      />
+    </div>
+  );
+}
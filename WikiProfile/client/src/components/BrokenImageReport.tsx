@@ -0,0 +1,96 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { vi } from "date-fns/locale";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { BrokenImage, ExternalImage } from "@shared/schema";
+import { entryPath } from "@shared/slug";
+import { Loader2, RefreshCw } from "lucide-react";
+
+// External entry images the server could not fetch, with a retry button
+export function BrokenImageReport() {
+  const { toast } = useToast();
+
+  const { data: images = [], isLoading } = useQuery<BrokenImage[]>({
+    queryKey: ["/api/admin/images/broken"],
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/admin/images/${id}/retry`);
+      return await res.json() as ExternalImage;
+    },
+    onSuccess: (image) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/images/broken"] });
+      if (image.status === "cached") {
+        toast({ title: "Thành công", description: "Đã tải lại hình ảnh" });
+      } else {
+        toast({ title: "Vẫn lỗi", description: image.error ?? "Không tải được hình ảnh", variant: "destructive" });
+      }
+    },
+    onError: () => {
+      toast({ title: "Lỗi", description: "Không thể thử lại", variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (images.length === 0) {
+    return (
+      <div className="text-center py-12 border rounded-lg bg-card">
+        <p className="text-lg text-muted-foreground" data-testid="text-no-broken-images">
+          Không có hình ảnh lỗi
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {images.map((image) => (
+        <div
+          key={image.id}
+          className="border rounded-lg p-3 bg-card flex flex-wrap items-start justify-between gap-3"
+          data-testid={`row-broken-image-${image.id}`}
+        >
+          <div className="min-w-0 flex-1 space-y-1">
+            <p className="font-mono text-xs break-all" data-testid={`text-image-source-${image.id}`}>
+              {image.sourceUrl}
+            </p>
+            <p className="text-sm text-destructive">{image.error}</p>
+            <p className="text-xs text-muted-foreground">
+              {image.fetchedAt && `Lần thử cuối ${formatDistanceToNow(new Date(image.fetchedAt), { addSuffix: true, locale: vi })} · `}
+              {image.entries.length === 0 ? "Không còn entry nào dùng" : "Dùng trong: "}
+              {image.entries.map((entry, index) => (
+                <span key={entry.id}>
+                  {index > 0 && ", "}
+                  <Link href={entryPath(entry)} className="hover:underline">
+                    {entry.title}
+                  </Link>
+                </span>
+              ))}
+            </p>
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={retryMutation.isPending && retryMutation.variables === image.id}
+            onClick={() => retryMutation.mutate(image.id)}
+            data-testid={`button-retry-image-${image.id}`}
+          >
+            <RefreshCw className="h-4 w-4 mr-1" />
+            Thử lại
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow, isPast } from "date-fns";
+import { vi } from "date-fns/locale";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { ActiveClaim, ClaimTargetType } from "@shared/schema";
+import { Lock, LockOpen, Eye } from "lucide-react";
+
+const CLAIM_PATHS: Record<ClaimTargetType, string> = {
+  entry: "/api/admin/entries",
+  report: "/api/admin/reports",
+};
+
+// Lists can be stale; a claim that has run out no longer counts
+export function activeClaim(claim: ActiveClaim | null | undefined): ActiveClaim | null {
+  return claim && !isPast(new Date(claim.expiresAt)) ? claim : null;
+}
+
+export function isClaimedByOther(claim: ActiveClaim | null | undefined, userId: string | undefined): boolean {
+  const active = activeClaim(claim);
+  return !!active && active.moderatorId !== userId;
+}
+
+export function claimHolderName(claim: ActiveClaim): string {
+  const { firstName, lastName, email } = claim.moderator;
+  return `${firstName || ""} ${lastName || ""}`.trim() || email || "moderator khác";
+}
+
+// Moderate/resolve requests answer 409 when someone else claimed the item meanwhile
+export function isClaimConflictError(error: Error): boolean {
+  return /^409: /.test(error.message);
+}
+
+interface ClaimControlProps {
+  targetType: ClaimTargetType;
+  targetId: string;
+  claim: ActiveClaim | null | undefined;
+  currentUserId: string;
+}
+
+// "Being reviewed by X" badge, or a button to claim/release the item
+export function ClaimControl({ targetType, targetId, claim, currentUserId }: ClaimControlProps) {
+  const { toast } = useToast();
+  const active = activeClaim(claim);
+  const listPath = CLAIM_PATHS[targetType];
+
+  const claimMutation = useMutation({
+    mutationFn: async (claimed: boolean) => {
+      return await apiRequest(claimed ? "POST" : "DELETE", `${listPath}/${targetId}/claim`, claimed ? {} : undefined);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [listPath] });
+    },
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: [listPath] });
+      toast({
+        title: "Lỗi",
+        description: isClaimConflictError(error) ? "Đã có người khác nhận xem xét mục này" : "Không thể cập nhật trạng thái xem xét",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (active && active.moderatorId !== currentUserId) {
+    return (
+      <Badge variant="outline" className="gap-1 w-fit" data-testid={`badge-claim-${targetId}`}>
+        <Lock className="h-3 w-3" />
+        Đang được {claimHolderName(active)} xem xét · hết hạn {formatDistanceToNow(new Date(active.expiresAt), { addSuffix: true, locale: vi })}
+      </Badge>
+    );
+  }
+
+  if (active) {
+    return (
+      <div className="flex items-center gap-2">
+        <Badge variant="secondary" className="gap-1 w-fit" data-testid={`badge-claim-${targetId}`}>
+          <Eye className="h-3 w-3" />
+          Bạn đang xem xét · hết hạn {formatDistanceToNow(new Date(active.expiresAt), { addSuffix: true, locale: vi })}
+        </Badge>
+        <Button
+          size="sm"
+          variant="ghost"
+          disabled={claimMutation.isPending}
+          onClick={() => claimMutation.mutate(false)}
+          data-testid={`button-release-claim-${targetId}`}
+        >
+          <LockOpen className="h-4 w-4 mr-1" />
+          Bỏ nhận
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <Button
+      size="sm"
+      variant="outline"
+      disabled={claimMutation.isPending}
+      onClick={() => claimMutation.mutate(true)}
+      data-testid={`button-claim-${targetId}`}
+    >
+      <Lock className="h-4 w-4 mr-1" />
+      Nhận xem xét
+    </Button>
+  );
+}
@@ -0,0 +1,339 @@
+import { useMemo, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { CommentWithUser } from "@shared/schema";
+import { formatDistanceToNow } from "date-fns";
+import { vi } from "date-fns/locale";
+import { Loader2, MessageCircle, Pencil, Reply, Trash2 } from "lucide-react";
+import { avatarImageProps } from "@shared/images";
+
+const MAX_COMMENT_LENGTH = 2000;
+// Deeper replies are still shown, just without further indentation
+const MAX_INDENT_DEPTH = 3;
+
+interface CommentSectionProps {
+  entryId: string;
+}
+
+type CommentNode = CommentWithUser & { replies: CommentNode[] };
+
+function buildThreads(comments: CommentWithUser[]): CommentNode[] {
+  const nodes = new Map<string, CommentNode>();
+  for (const comment of comments) {
+    nodes.set(comment.id, { ...comment, replies: [] });
+  }
+
+  const roots: CommentNode[] = [];
+  nodes.forEach((node) => {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    if (parent) {
+      parent.replies.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+  return roots;
+}
+
+function getAuthorName(comment: CommentWithUser) {
+  if (!comment.user) return "Người dùng";
+  return `${comment.user.firstName || ""} ${comment.user.lastName || ""}`.trim() || comment.user.email || "Người dùng";
+}
+
+function getInitials(comment: CommentWithUser) {
+  const first = comment.user?.firstName?.[0] || "";
+  const last = comment.user?.lastName?.[0] || "";
+  return `${first}${last}`.toUpperCase() || "U";
+}
+
+interface CommentComposerProps {
+  initialValue?: string;
+  placeholder: string;
+  submitLabel: string;
+  isPending: boolean;
+  onSubmit: (content: string) => void;
+  onCancel?: () => void;
+}
+
+function CommentComposer({ initialValue = "", placeholder, submitLabel, isPending, onSubmit, onCancel }: CommentComposerProps) {
+  const [content, setContent] = useState(initialValue);
+  const trimmed = content.trim();
+
+  return (
+    <form
+      className="space-y-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (trimmed) onSubmit(trimmed);
+      }}
+    >
+      <Textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        placeholder={placeholder}
+        maxLength={MAX_COMMENT_LENGTH}
+        className="min-h-[72px] text-xs md:text-sm"
+        data-testid="input-comment"
+      />
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button type="button" variant="ghost" size="sm" className="text-xs" onClick={onCancel} data-testid="button-cancel-comment">
+            Hủy
+          </Button>
+        )}
+        <Button type="submit" size="sm" className="text-xs" disabled={!trimmed || isPending} data-testid="button-submit-comment">
+          {isPending && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+          {submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+export function CommentSection({ entryId }: CommentSectionProps) {
+  const { user, can } = useAuth();
+  const { toast } = useToast();
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [commentToDelete, setCommentToDelete] = useState<CommentWithUser | null>(null);
+  // Bumped after posting to reset the top-level composer
+  const [composerKey, setComposerKey] = useState(0);
+
+  const commentsKey = ["/api/entries", entryId, "comments"];
+
+  const { data: comments = [], isLoading } = useQuery<CommentWithUser[]>({
+    queryKey: commentsKey,
+  });
+
+  const threads = useMemo(() => buildThreads(comments), [comments]);
+
+  // Comment counts are shown on entry cards in these lists
+  const invalidateComments = () => {
+    queryClient.invalidateQueries({ queryKey: commentsKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/entries/approved"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/search"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/profile"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+  };
+
+  const showError = (description: string) => {
+    toast({
+      title: "Lỗi",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: { content: string; parentId?: string }) => {
+      return await apiRequest("POST", "/api/comments", { entryId, ...data });
+    },
+    onSuccess: (_res, variables) => {
+      invalidateComments();
+      if (variables.parentId) {
+        setReplyingTo(null);
+      } else {
+        setComposerKey((key) => key + 1);
+      }
+    },
+    onError: () => showError("Không thể gửi bình luận"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: { id: string; content: string }) => {
+      return await apiRequest("PATCH", `/api/comments/${data.id}`, { content: data.content });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: commentsKey });
+      setEditingId(null);
+    },
+    onError: () => showError("Không thể cập nhật bình luận"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/comments/${id}`);
+    },
+    onSuccess: () => {
+      invalidateComments();
+      setCommentToDelete(null);
+    },
+    onError: () => {
+      setCommentToDelete(null);
+      showError("Không thể xóa bình luận");
+    },
+  });
+
+  const renderComment = (comment: CommentNode, depth: number) => {
+    const isAuthor = user?.id === comment.userId;
+    const canDelete = isAuthor || can("comments.delete");
+
+    return (
+      <div key={comment.id} className="space-y-3" data-testid={`comment-${comment.id}`}>
+        <div className="flex gap-2 md:gap-3">
+          <Avatar className="h-7 w-7 md:h-8 md:w-8 flex-shrink-0">
+            <AvatarImage {...avatarImageProps(comment.user?.profileImageUrl, 32)} />
+            <AvatarFallback className="text-xs">{getInitials(comment)}</AvatarFallback>
+          </Avatar>
+          <div className="flex-1 min-w-0 space-y-1">
+            <div className="flex flex-wrap items-baseline gap-x-2">
+              <span className="text-xs md:text-sm font-semibold" data-testid={`text-comment-author-${comment.id}`}>
+                {getAuthorName(comment)}
+              </span>
+              <span className="text-xs text-muted-foreground">
+                {formatDistanceToNow(new Date(comment.createdAt!), { addSuffix: true, locale: vi })}
+              </span>
+              {comment.editedAt && (
+                <span className="text-xs text-muted-foreground italic" data-testid={`text-comment-edited-${comment.id}`}>
+                  (đã chỉnh sửa)
+                </span>
+              )}
+            </div>
+
+            {editingId === comment.id ? (
+              <CommentComposer
+                initialValue={comment.content}
+                placeholder="Nội dung bình luận"
+                submitLabel="Lưu"
+                isPending={updateMutation.isPending}
+                onSubmit={(content) => updateMutation.mutate({ id: comment.id, content })}
+                onCancel={() => setEditingId(null)}
+              />
+            ) : (
+              <p className="text-xs md:text-sm whitespace-pre-wrap break-words" data-testid={`text-comment-content-${comment.id}`}>
+                {comment.content}
+              </p>
+            )}
+
+            {user && editingId !== comment.id && (
+              <div className="flex gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs"
+                  onClick={() => setReplyingTo(replyingTo === comment.id ? null : comment.id)}
+                  data-testid={`button-reply-comment-${comment.id}`}
+                >
+                  <Reply className="h-3 w-3 mr-1" />
+                  Trả lời
+                </Button>
+                {isAuthor && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-xs"
+                    onClick={() => setEditingId(comment.id)}
+                    data-testid={`button-edit-comment-${comment.id}`}
+                  >
+                    <Pencil className="h-3 w-3 mr-1" />
+                    Sửa
+                  </Button>
+                )}
+                {canDelete && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-xs text-destructive"
+                    onClick={() => setCommentToDelete(comment)}
+                    data-testid={`button-delete-comment-${comment.id}`}
+                  >
+                    <Trash2 className="h-3 w-3 mr-1" />
+                    Xóa
+                  </Button>
+                )}
+              </div>
+            )}
+
+            {replyingTo === comment.id && (
+              <CommentComposer
+                placeholder={`Trả lời ${getAuthorName(comment)}`}
+                submitLabel="Trả lời"
+                isPending={createMutation.isPending}
+                onSubmit={(content) => createMutation.mutate({ content, parentId: comment.id })}
+                onCancel={() => setReplyingTo(null)}
+              />
+            )}
+          </div>
+        </div>
+
+        {comment.replies.length > 0 && (
+          <div className={depth < MAX_INDENT_DEPTH ? "ml-5 md:ml-8 pl-3 border-l space-y-3" : "space-y-3"}>
+            {comment.replies.map((reply) => renderComment(reply, depth + 1))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4" data-testid="section-comments">
+      <h3 className="flex items-center gap-2 text-sm md:text-base font-semibold">
+        <MessageCircle className="h-4 w-4" />
+        Bình luận ({comments.length})
+      </h3>
+
+      {user ? (
+        <CommentComposer
+          key={composerKey}
+          placeholder="Viết bình luận..."
+          submitLabel="Gửi"
+          isPending={createMutation.isPending && !replyingTo}
+          onSubmit={(content) => createMutation.mutate({ content })}
+        />
+      ) : (
+        <p className="text-xs md:text-sm text-muted-foreground" data-testid="text-login-to-comment">
+          Đăng nhập để bình luận
+        </p>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : threads.length === 0 ? (
+        <p className="text-xs md:text-sm text-muted-foreground" data-testid="text-no-comments">
+          Chưa có bình luận nào
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {threads.map((comment) => renderComment(comment, 0))}
+        </div>
+      )}
+
+      <AlertDialog open={!!commentToDelete} onOpenChange={(open) => !open && setCommentToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Xóa bình luận</AlertDialogTitle>
+            <AlertDialogDescription>
+              Bình luận này và tất cả các trả lời của nó sẽ bị xóa. Hành động này không thể hoàn tác.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-delete-comment">Hủy</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => commentToDelete && deleteMutation.mutate(commentToDelete.id)}
+              data-testid="button-confirm-delete-comment"
+            >
+              Xóa
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
@@ -11,7 +11,10 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { LoadMore } from "@/components/LoadMore";
+import { useInfiniteList } from "@/hooks/use-infinite-list";
 import { Code, Loader2 } from "lucide-react";
+import { roleOf } from "@shared/permissions";
 import type { User } from "@shared/schema";
 
 interface DeveloperPanelProps {
@@ -24,14 +27,13 @@ export function DeveloperPanel({ open, onOpenChange }: DeveloperPanelProps) {
   const [selectedRole, setSelectedRole] = useState<"user" | "moderator" | "admin">("user");
   const [selectedBadge, setSelectedBadge] = useState<"green_check" | "red_check" | "black_check" | "none">("none");
 
-  const { data: users = [], isLoading } = useQuery<User[]>({
-    queryKey: ["/api/admin/users"],
-    enabled: open,
-  });
+  const userList = useInfiniteList<User>(["/api/admin/users"], {}, { enabled: open });
+  const users = userList.items;
+  const isLoading = userList.isLoading;
 
   const updateRoleMutation = useMutation({
     mutationFn: async (data: { userId: string; role: string }) =>
-      apiRequest(`/api/admin/users/${data.userId}/role`, "PATCH", { role: data.role }),
+      apiRequest("PATCH", `/api/admin/users/${data.userId}/role`, { role: data.role }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
     },
@@ -39,7 +41,7 @@ export function DeveloperPanel({ open, onOpenChange }: DeveloperPanelProps) {
 
   const updateBadgeMutation = useMutation({
     mutationFn: async (data: { userId: string; badge: string }) =>
-      apiRequest(`/api/admin/users/${data.userId}/badge`, "PATCH", { badge: data.badge }),
+      apiRequest("PATCH", `/api/admin/users/${data.userId}/badge`, { badge: data.badge }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
     },
@@ -119,7 +121,7 @@ export function DeveloperPanel({ open, onOpenChange }: DeveloperPanelProps) {
                     data-testid={`row-user-${user.id}`}
                     onClick={() => {
                       setSelectedUserId(user.id);
-                      setSelectedRole((user.role as "user" | "moderator" | "admin") || "user");
+                      setSelectedRole(roleOf(user));
                     }}
                   >
                     <div className="flex-1 min-w-0">
@@ -136,14 +138,19 @@ export function DeveloperPanel({ open, onOpenChange }: DeveloperPanelProps) {
                           {getUserBadge(user.badge)}
                         </Badge>
                       )}
-                      <Badge className={getRoleBadgeColor(user.role || "user")} data-testid={`badge-role-${user.id}`}>
-                        {getRoleBadgeLabel(user.role || "user")}
+                      <Badge className={getRoleBadgeColor(roleOf(user))} data-testid={`badge-role-${user.id}`}>
+                        {getRoleBadgeLabel(roleOf(user))}
                       </Badge>
                     </div>
                   </div>
                 ))}
               </div>
             )}
+            <LoadMore
+              hasNextPage={userList.hasNextPage}
+              isFetchingNextPage={userList.isFetchingNextPage}
+              fetchNextPage={userList.fetchNextPage}
+            />
           </div>
 
           {/* Role & Badge Assignment */}
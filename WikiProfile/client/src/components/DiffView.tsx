@@ -0,0 +1,34 @@
+import { useMemo } from "react";
+import { diffWords } from "@/lib/wordDiff";
+
+interface DiffViewProps {
+  before: string;
+  after: string;
+  className?: string;
+}
+
+export function DiffView({ before, after, className = "" }: DiffViewProps) {
+  const parts = useMemo(() => diffWords(before, after), [before, after]);
+
+  return (
+    <div className={`whitespace-pre-wrap break-words font-serif text-xs md:text-sm ${className}`} data-testid="diff-view">
+      {parts.map((part, index) => {
+        if (part.type === "added") {
+          return (
+            <ins key={index} className="no-underline bg-green-100 text-green-900 dark:bg-green-950 dark:text-green-200">
+              {part.text}
+            </ins>
+          );
+        }
+        if (part.type === "removed") {
+          return (
+            <del key={index} className="bg-red-100 text-red-900 dark:bg-red-950 dark:text-red-200">
+              {part.text}
+            </del>
+          );
+        }
+        return <span key={index}>{part.text}</span>;
+      })}
+    </div>
+  );
+}
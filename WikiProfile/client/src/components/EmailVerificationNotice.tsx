@@ -0,0 +1,79 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { User } from "@shared/schema";
+import { MailWarning, Loader2 } from "lucide-react";
+
+// Older password accounts got a made-up address instead of a real one
+function isPlaceholderEmail(email: string | null): boolean {
+  return !email || email.endsWith("@local.pixelswiki");
+}
+
+// Shown on the user's own profile until their email is verified
+export function EmailVerificationNotice({ user }: { user: User }) {
+  const { toast } = useToast();
+  const [email, setEmail] = useState(isPlaceholderEmail(user.email) ? "" : user.email ?? "");
+
+  const resendMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/resend-verification", { email: email.trim() || undefined });
+      return (await res.json()) as { email: string };
+    },
+    onSuccess: ({ email: sentTo }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      toast({ title: "Đã gửi email", description: `Kiểm tra hộp thư ${sentTo} để xác minh` });
+    },
+    onError: (error) => {
+      toast({
+        title: "Lỗi",
+        description: error.message.includes("Email already in use")
+          ? "Email này đã được tài khoản khác sử dụng"
+          : /^400: /.test(error.message)
+            ? "Email không hợp lệ"
+            : "Không thể gửi email xác minh",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (user.emailVerifiedAt) return null;
+
+  return (
+    <div className="border border-amber-500/50 rounded-lg p-4 bg-amber-500/5 space-y-3" data-testid="notice-email-verification">
+      <div className="flex items-start gap-2">
+        <MailWarning className="h-5 w-5 text-amber-600 shrink-0" />
+        <div className="text-sm">
+          <p className="font-semibold">Email chưa được xác minh</p>
+          <p className="text-muted-foreground">
+            {isPlaceholderEmail(user.email)
+              ? "Thêm email để có thể khôi phục mật khẩu khi cần."
+              : "Xác minh email để có thể khôi phục mật khẩu khi cần. Bạn có thể đổi sang địa chỉ khác."}
+          </p>
+        </div>
+      </div>
+      <form
+        className="flex flex-col sm:flex-row gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          resendMutation.mutate();
+        }}
+      >
+        <Input
+          type="email"
+          placeholder="ban@example.com"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          disabled={resendMutation.isPending}
+          data-testid="input-verification-email"
+        />
+        <Button type="submit" disabled={resendMutation.isPending || !email.trim()} data-testid="button-resend-verification">
+          {resendMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Gửi email xác minh
+        </Button>
+      </form>
+    </div>
+  );
+}
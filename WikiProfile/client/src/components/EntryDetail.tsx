@@ -0,0 +1,335 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Link } from "wouter";
+import type { WikiEntry, WikiEntryDraft, EntryTags, EntryModerationInfo, ModerationNote, Like, Backlink } from "@shared/schema";
+import { entryPath } from "@shared/slug";
+import { formatDistanceToNow } from "date-fns";
+import { vi } from "date-fns/locale";
+import { ImageOff, Pencil, Trash2, Flag, History, Link2, Share2, AlertCircle, Send } from "lucide-react";
+import { ReportForm } from "./ReportForm";
+import { RevisionHistory } from "./RevisionHistory";
+import { CommentSection } from "./CommentSection";
+import { LikeButton } from "./LikeButton";
+import { TagChips } from "./TagChips";
+import { Markdown } from "./Markdown";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest } from "@/lib/queryClient";
+import { ResponsiveImage } from "@/components/ResponsiveImage";
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive"> = {
+  approved: "default",
+  pending: "secondary",
+  rejected: "destructive",
+};
+
+const STATUS_TEXT: Record<string, string> = {
+  approved: "Đã duyệt",
+  pending: "Chờ duyệt",
+  rejected: "Đã từ chối",
+};
+
+export function EntryStatusBadge({ status }: { status: string }) {
+  return (
+    <Badge variant={STATUS_VARIANTS[status] ?? "default"} className="text-xs flex-shrink-0" data-testid="badge-entry-detail-status">
+      {STATUS_TEXT[status] ?? status}
+    </Badge>
+  );
+}
+
+// The rejection the author still has to act on: the entry itself, or their
+// last edit when no newer edit is waiting for review (only known where the
+// pending draft was loaded)
+export function currentRejection(
+  entry: WikiEntry & EntryModerationInfo & { pendingDraft?: WikiEntryDraft | null },
+): ModerationNote | null {
+  const moderation = entry.latestModeration;
+  if (!moderation || moderation.status !== "rejected") return null;
+  if (moderation.isDraft) return entry.status === "approved" && entry.pendingDraft === null ? moderation : null;
+  return entry.status === "rejected" ? moderation : null;
+}
+
+type EntryDetailEntry = WikiEntry & Partial<EntryTags> & EntryModerationInfo & { pendingDraft?: WikiEntryDraft | null };
+
+interface EntryDetailProps {
+  entry: EntryDetailEntry;
+  // Likes and backlinks are only fetched while the detail is visible
+  active?: boolean;
+  descriptionId?: string;
+  canEdit?: boolean;
+  onEdit?: () => void;
+  onDelete?: () => void;
+  // Sends a rejected entry back to the moderation queue
+  onResubmit?: () => void;
+  isResubmitting?: boolean;
+  // Called when the reader leaves the entry (internal link, restored revision)
+  onNavigate?: () => void;
+}
+
+// Body of an entry, shared by EntryDetailDialog and the /entry/:id page;
+// the title is rendered by the caller
+export function EntryDetail({
+  entry,
+  active = true,
+  descriptionId,
+  canEdit = false,
+  onEdit,
+  onDelete,
+  onResubmit,
+  isResubmitting = false,
+  onNavigate,
+}: EntryDetailProps) {
+  const [reportOpen, setReportOpen] = useState(false);
+  const [reportSubmitting, setReportSubmitting] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const { user, can } = useAuth();
+  const { toast } = useToast();
+
+  const isApproved = entry.status === "approved";
+  const rejection = currentRejection(entry);
+  const { data: likes = [] } = useQuery<Like[]>({
+    queryKey: ["/api/entries", entry.id, "likes"],
+    enabled: active && isApproved,
+  });
+  const { data: backlinks = [] } = useQuery<Backlink[]>({
+    queryKey: ["/api/entries", entry.id, "backlinks"],
+    enabled: active && isApproved,
+  });
+
+  const handleReportSubmit = async (data: { reason: string; description?: string }) => {
+    try {
+      setReportSubmitting(true);
+      await apiRequest("POST", "/api/reports", {
+        entryId: entry.id,
+        ...data,
+      });
+      toast({
+        title: "Thành công",
+        description: "Báo cáo của bạn đã được gửi",
+      });
+      setReportOpen(false);
+    } catch (error) {
+      toast({
+        title: "Lỗi",
+        description: "Không thể gửi báo cáo",
+        variant: "destructive",
+      });
+    } finally {
+      setReportSubmitting(false);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${entryPath(entry)}`);
+      toast({ title: "Đã sao chép", description: "Liên kết tới entry đã được sao chép" });
+    } catch {
+      toast({ title: "Lỗi", description: "Không thể sao chép liên kết", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      {rejection && (
+        <div className="flex gap-2 rounded-md border border-destructive/50 p-3 text-xs md:text-sm" data-testid="notice-entry-rejection">
+          <AlertCircle className="h-4 w-4 flex-shrink-0 text-destructive mt-0.5" />
+          <div className="space-y-1">
+            <p className="font-semibold text-destructive">
+              {rejection.isDraft ? "Bản chỉnh sửa gần nhất đã bị từ chối" : "Entry đã bị từ chối"}
+              {rejection.createdAt && (
+                <span className="font-normal text-muted-foreground">
+                  {" "}· {formatDistanceToNow(new Date(rejection.createdAt), { addSuffix: true, locale: vi })}
+                </span>
+              )}
+            </p>
+            <p data-testid="text-entry-rejection-reason">
+              {rejection.reason || "Người kiểm duyệt không ghi lý do."}
+            </p>
+            {canEdit && !rejection.isDraft && (
+              <p className="text-muted-foreground">
+                Chỉnh sửa entry hoặc gửi duyệt lại khi đã khắc phục.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {entry.imageUrl ? (
+        <div className="w-full max-h-64 md:max-h-96 overflow-hidden rounded-md bg-muted">
+          <ResponsiveImage
+            src={entry.imageUrl}
+            sizes="(min-width: 768px) 672px, 100vw"
+            fallback="full"
+            alt={entry.title}
+            className="w-full h-full object-contain"
+            data-testid="img-entry-detail"
+          />
+        </div>
+      ) : (
+        <div className="flex aspect-video w-full items-center justify-center rounded-md bg-muted">
+          <ImageOff className="h-12 md:h-16 w-12 md:w-16 text-muted-foreground" />
+        </div>
+      )}
+
+      <div className="space-y-3 md:space-y-4">
+        <Markdown
+          id={descriptionId}
+          source={entry.description}
+          onNavigate={onNavigate}
+          className="prose prose-sm md:prose-base max-w-none font-serif text-xs md:text-sm"
+          data-testid="text-entry-detail-description"
+        />
+
+        {entry.tags && <TagChips tags={entry.tags} />}
+
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-xs md:text-sm text-muted-foreground" data-testid="text-entry-detail-time">
+            Tạo {formatDistanceToNow(new Date(entry.createdAt!), { addSuffix: true, locale: vi })}
+          </p>
+          {isApproved && (
+            <LikeButton
+              entryId={entry.id}
+              likeCount={likes.length}
+              likedByMe={!!user && likes.some((like) => like.userId === user.id)}
+            />
+          )}
+        </div>
+      </div>
+
+      {backlinks.length > 0 && (
+        <div className="space-y-2" data-testid="section-backlinks">
+          <h3 className="flex items-center gap-2 text-xs md:text-sm font-semibold">
+            <Link2 className="h-3 md:h-4 w-3 md:w-4" />
+            Liên kết đến đây
+          </h3>
+          <ul className="flex flex-wrap gap-x-4 gap-y-1 text-xs md:text-sm">
+            {backlinks.map((backlink) => (
+              <li key={backlink.id}>
+                <Link
+                  href={entryPath(backlink)}
+                  onClick={onNavigate}
+                  className="text-primary hover:underline"
+                  data-testid={`link-backlink-${backlink.id}`}
+                >
+                  {backlink.title}
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-xs md:text-sm px-0"
+          onClick={() => setHistoryOpen(!historyOpen)}
+          data-testid="button-toggle-history"
+        >
+          <History className="h-3 md:h-4 w-3 md:w-4 mr-1 md:mr-2" />
+          {historyOpen ? "Ẩn lịch sử chỉnh sửa" : "Lịch sử chỉnh sửa"}
+        </Button>
+        {historyOpen && (
+          <RevisionHistory
+            entryId={entry.id}
+            canRestore={can("entries.moderate")}
+            onRestored={onNavigate}
+          />
+        )}
+      </div>
+
+      {isApproved && (
+        <div className="pt-3 md:pt-4 border-t">
+          <CommentSection entryId={entry.id} />
+        </div>
+      )}
+
+      <div className="flex gap-2 md:gap-3 pt-3 md:pt-4 border-t">
+        {isApproved && (
+          <Button
+            variant="outline"
+            onClick={handleCopyLink}
+            className="flex-1 text-xs md:text-sm"
+            size="sm"
+            data-testid="button-copy-entry-link"
+          >
+            <Share2 className="h-3 md:h-4 w-3 md:w-4 mr-1 md:mr-2" />
+            Chia sẻ
+          </Button>
+        )}
+        {canEdit && (
+          <>
+            <Button
+              variant="outline"
+              onClick={onEdit}
+              className="flex-1 text-xs md:text-sm"
+              size="sm"
+              data-testid="button-edit-entry"
+            >
+              <Pencil className="h-3 md:h-4 w-3 md:w-4 mr-1 md:mr-2" />
+              Chỉnh sửa
+            </Button>
+            {entry.status === "rejected" && onResubmit && (
+              <Button
+                variant="outline"
+                onClick={onResubmit}
+                disabled={isResubmitting}
+                className="flex-1 text-xs md:text-sm"
+                size="sm"
+                data-testid="button-resubmit-entry"
+              >
+                <Send className="h-3 md:h-4 w-3 md:w-4 mr-1 md:mr-2" />
+                Gửi duyệt lại
+              </Button>
+            )}
+            <Button
+              variant="destructive"
+              onClick={onDelete}
+              className="flex-1 text-xs md:text-sm"
+              size="sm"
+              data-testid="button-delete-entry"
+            >
+              <Trash2 className="h-3 md:h-4 w-3 md:w-4 mr-1 md:mr-2" />
+              Xóa
+            </Button>
+          </>
+        )}
+        {!canEdit && (
+          <Button
+            variant="outline"
+            onClick={() => setReportOpen(true)}
+            className="flex-1 text-xs md:text-sm"
+            size="sm"
+            data-testid="button-report-entry"
+          >
+            <Flag className="h-3 md:h-4 w-3 md:w-4 mr-1 md:mr-2" />
+            Báo cáo
+          </Button>
+        )}
+      </div>
+
+      {/* Report Dialog */}
+      <Dialog open={reportOpen} onOpenChange={setReportOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle className="text-lg">Báo cáo nội dung</DialogTitle>
+          </DialogHeader>
+          <ReportForm
+            onSubmit={handleReportSubmit}
+            onCancel={() => setReportOpen(false)}
+            isSubmitting={reportSubmitting}
+          />
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
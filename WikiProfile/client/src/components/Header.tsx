@@ -12,9 +12,11 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { DeveloperPanel } from "./DeveloperPanel";
+import { NotificationBell } from "./NotificationBell";
+import { avatarImageProps } from "@shared/images";
 
 export function Header() {
-  const { user, isAuthenticated } = useAuth();
+  const { user, isAuthenticated, can } = useAuth();
   const [developerPanelOpen, setDeveloperPanelOpen] = useState(false);
 
   const getInitials = (firstName?: string | null, lastName?: string | null) => {
@@ -40,7 +42,7 @@ export function Header() {
             </Button>
           ) : (
             <>
-              {user?.isAdmin && (
+              {can("entries.moderate") && (
                 <Link href="/admin" data-testid="link-admin">
                   <div className="inline-flex items-center justify-center gap-1 md:gap-2 rounded-md text-xs md:text-sm font-semibold transition-colors hover-elevate active-elevate-2 border border-input bg-background px-2 md:px-4 py-1 md:py-2 cursor-pointer">
                     <Shield className="h-3 md:h-4 w-3 md:w-4" />
@@ -49,6 +51,8 @@ export function Header() {
                   </div>
                 </Link>
               )}
+
+              <NotificationBell />
               
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
@@ -60,7 +64,7 @@ export function Header() {
                   >
                     <Avatar className="h-9 w-9">
                       <AvatarImage 
-                        src={user?.profileImageUrl || undefined} 
+                        {...avatarImageProps(user?.profileImageUrl, 36)} 
                         alt={`${user?.firstName || ""} ${user?.lastName || ""}`.trim() || "User"} 
                       />
                       <AvatarFallback>
@@ -91,7 +95,7 @@ export function Header() {
                       </div>
                     </Link>
                   </DropdownMenuItem>
-                  {user?.isAdmin && (
+                  {can("roles.assign") && (
                     <>
                       <DropdownMenuSeparator />
                       <DropdownMenuItem
@@ -0,0 +1,21 @@
+import type { HighlightPart } from "@shared/search";
+
+interface HighlightedTextProps {
+  parts: HighlightPart[];
+}
+
+export function HighlightedText({ parts }: HighlightedTextProps) {
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.highlight ? (
+          <mark key={index} className="rounded-sm bg-yellow-200 px-0.5 text-inherit dark:bg-yellow-800">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        ),
+      )}
+    </>
+  );
+}
@@ -0,0 +1,44 @@
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useLikeToggle } from "@/hooks/use-like-toggle";
+import { Heart } from "lucide-react";
+
+interface LikeButtonProps {
+  entryId: string;
+  likeCount: number;
+  likedByMe: boolean;
+  className?: string;
+}
+
+export function LikeButton({ entryId, likeCount, likedByMe, className = "" }: LikeButtonProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const toggle = useLikeToggle(entryId);
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      className={`h-7 px-2 gap-1 text-xs ${likedByMe ? "text-red-500" : "text-muted-foreground"} ${className}`}
+      aria-pressed={likedByMe}
+      disabled={toggle.isPending}
+      onClick={(e) => {
+        // Cards navigate on click
+        e.stopPropagation();
+        if (!user) {
+          toast({
+            title: "Chưa đăng nhập",
+            description: "Đăng nhập để thích entries",
+          });
+          return;
+        }
+        toggle.mutate(!likedByMe);
+      }}
+      data-testid={`button-like-${entryId}`}
+    >
+      <Heart className={`h-3 w-3 ${likedByMe ? "fill-current" : ""}`} />
+      <span data-testid={`text-like-count-${entryId}`}>{likeCount}</span>
+    </Button>
+  );
+}
@@ -0,0 +1,93 @@
+import { useEffect } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { ProviderIcon } from "@/components/ProviderIcon";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { loginErrorMessage } from "@/lib/authUtils";
+import type { AuthProviderInfo, LinkedIdentities } from "@shared/schema";
+import { Link2, Unlink } from "lucide-react";
+
+// The signed-in user's provider accounts, with buttons to link or unlink them
+export function LinkedAccounts() {
+  const { toast } = useToast();
+
+  const { data: providers = [] } = useQuery<AuthProviderInfo[]>({
+    queryKey: ["/api/auth/providers"],
+  });
+  const { data: linked } = useQuery<LinkedIdentities>({
+    queryKey: ["/api/auth/identities"],
+  });
+
+  // Linking that failed comes back as ?linkError=<code>
+  useEffect(() => {
+    const error = new URLSearchParams(window.location.search).get("linkError");
+    if (error) {
+      toast({ title: "Không thể liên kết", description: loginErrorMessage(error), variant: "destructive" });
+      window.history.replaceState(null, "", window.location.pathname);
+    }
+  }, [toast]);
+
+  const unlinkMutation = useMutation({
+    mutationFn: async (identityId: string) => {
+      return await apiRequest("DELETE", `/api/auth/identities/${identityId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/identities"] });
+      toast({ title: "Thành công", description: "Đã hủy liên kết tài khoản" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Lỗi",
+        description: /^409: /.test(error.message)
+          ? "Không thể hủy liên kết phương thức đăng nhập duy nhất của bạn"
+          : "Không thể hủy liên kết tài khoản",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (providers.length === 0 || !linked) return null;
+
+  // Unlinking must leave a password or another provider to sign in with
+  const canUnlink = linked.hasPassword || linked.identities.length > 1;
+
+  return (
+    <div className="border rounded-lg p-4 bg-card space-y-3" data-testid="section-linked-accounts">
+      <h2 className="font-semibold">Tài khoản liên kết</h2>
+      <ul className="space-y-2">
+        {providers.map((provider) => {
+          const identity = linked.identities.find((candidate) => candidate.provider === provider.id);
+          return (
+            <li key={provider.id} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+              <div className="flex items-center gap-2 min-w-0">
+                <ProviderIcon provider={provider} className="w-4 h-4" />
+                <span className="font-medium">{provider.label}</span>
+                {identity?.email && <span className="text-muted-foreground truncate">{identity.email}</span>}
+              </div>
+              {identity ? (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={!canUnlink || unlinkMutation.isPending}
+                  onClick={() => unlinkMutation.mutate(identity.id)}
+                  data-testid={`button-unlink-${provider.id}`}
+                >
+                  <Unlink className="h-4 w-4 mr-1" />
+                  Hủy liên kết
+                </Button>
+              ) : (
+                <Button size="sm" variant="outline" asChild data-testid={`button-link-${provider.id}`}>
+                  <a href={`/api/auth/link/${provider.id}`}>
+                    <Link2 className="h-4 w-4 mr-1" />
+                    Liên kết
+                  </a>
+                </Button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+
+interface LoadMoreProps {
+  hasNextPage: boolean;
+  isFetchingNextPage: boolean;
+  fetchNextPage: () => void;
+}
+
+// Loads the next page when scrolled into view; the button is a fallback
+export function LoadMore({ hasNextPage, isFetchingNextPage, fetchNextPage }: LoadMoreProps) {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting && !isFetchingNextPage) {
+          fetchNextPage();
+        }
+      },
+      { rootMargin: "200px" },
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  if (!hasNextPage) return null;
+
+  return (
+    <div ref={sentinelRef} className="flex justify-center mt-6 md:mt-8">
+      <Button
+        variant="outline"
+        onClick={() => fetchNextPage()}
+        disabled={isFetchingNextPage}
+        data-testid="button-load-more"
+      >
+        {isFetchingNextPage && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        Xem thêm
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { vi } from "date-fns/locale";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { LoginAttemptKind, LoginLockout } from "@shared/schema";
+import { Loader2, LockOpen } from "lucide-react";
+
+const KIND_LABELS: Record<LoginAttemptKind, string> = {
+  user: "Tài khoản",
+  name: "Tên đăng nhập",
+  ip: "IP",
+};
+
+// Lockouts end by themselves, so the list is refreshed while it is open
+const REFRESH_MS = 30_000;
+
+// Accounts and IPs currently blocked from password login, with a button to unblock them
+export function LoginLockouts() {
+  const { toast } = useToast();
+
+  const { data: lockouts = [], isLoading } = useQuery<LoginLockout[]>({
+    queryKey: ["/api/admin/lockouts"],
+    refetchInterval: REFRESH_MS,
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: async (key: string) => {
+      return await apiRequest("DELETE", `/api/admin/lockouts/${encodeURIComponent(key)}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/lockouts"] });
+      toast({ title: "Thành công", description: "Đã mở khóa đăng nhập" });
+    },
+    onError: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/lockouts"] });
+      toast({ title: "Lỗi", description: "Không thể mở khóa đăng nhập", variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (lockouts.length === 0) {
+    return (
+      <div className="text-center py-12 border rounded-lg bg-card">
+        <p className="text-lg text-muted-foreground" data-testid="text-no-lockouts">
+          Không có tài khoản hay IP nào đang bị khóa
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {lockouts.map((lockout) => (
+        <div
+          key={lockout.key}
+          className="border rounded-lg p-3 bg-card flex flex-wrap items-center justify-between gap-3"
+          data-testid={`row-lockout-${lockout.key}`}
+        >
+          <div className="min-w-0 flex-1 space-y-1">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="outline">{KIND_LABELS[lockout.kind]}</Badge>
+              <span className="font-mono text-sm break-all" data-testid={`text-lockout-subject-${lockout.key}`}>
+                {lockout.username ?? lockout.subject}
+              </span>
+              <Badge variant={lockout.lockedOut ? "destructive" : "secondary"}>
+                {lockout.lockedOut ? "Bị khóa" : "Đang chờ"}
+              </Badge>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {lockout.failures} lần sai · lần cuối {formatDistanceToNow(new Date(lockout.lastFailureAt), { addSuffix: true, locale: vi })}
+              {lockout.lockedUntil && ` · mở lại ${formatDistanceToNow(new Date(lockout.lockedUntil), { addSuffix: true, locale: vi })}`}
+            </p>
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={clearMutation.isPending && clearMutation.variables === lockout.key}
+            onClick={() => clearMutation.mutate(lockout.key)}
+            data-testid={`button-clear-lockout-${lockout.key}`}
+          >
+            <LockOpen className="h-4 w-4 mr-1" />
+            Mở khóa
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { useMemo, type ReactNode } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { extractWikiLinkKeys, parseMarkdown, wikiLinkKey, type MdBlock, type MdInline } from "@shared/markdown";
+import type { WikiLinkTarget } from "@shared/schema";
+import { entryPath } from "@shared/slug";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+
+interface MarkdownProps {
+  source: string;
+  id?: string;
+  className?: string;
+  // Called when an internal link is followed, e.g. to close a dialog
+  onNavigate?: () => void;
+  "data-testid"?: string;
+}
+
+type RenderContext = {
+  // undefined while the [[wiki link]] targets are still loading
+  targets?: Map<string, WikiLinkTarget>;
+  onNavigate?: () => void;
+};
+
+function renderWikiLink(node: Extract<MdInline, { type: "wikilink" }>, index: number, ctx: RenderContext): ReactNode {
+  if (!ctx.targets) {
+    return <span key={index} className="text-primary">{node.label}</span>;
+  }
+
+  const target = ctx.targets.get(wikiLinkKey(node.target));
+  if (!target) {
+    return (
+      <span
+        key={index}
+        className="text-destructive underline decoration-dotted"
+        title={`Chưa có entry "${node.target}"`}
+        data-testid="wikilink-missing"
+      >
+        {node.label}
+      </span>
+    );
+  }
+
+  return (
+    <Link
+      key={index}
+      href={entryPath({ id: target.entryId, title: target.title, slug: target.slug })}
+      onClick={(e) => {
+        e.stopPropagation();
+        ctx.onNavigate?.();
+      }}
+      title={target.title}
+      data-testid={`wikilink-${target.entryId}`}
+    >
+      {node.label}
+    </Link>
+  );
+}
+
+function renderInline(nodes: MdInline[], ctx: RenderContext): ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case "text":
+        return node.text;
+      case "break":
+        return <br key={index} />;
+      case "code":
+        return <code key={index}>{node.text}</code>;
+      case "strong":
+        return <strong key={index}>{renderInline(node.children, ctx)}</strong>;
+      case "em":
+        return <em key={index}>{renderInline(node.children, ctx)}</em>;
+      case "wikilink":
+        return renderWikiLink(node, index, ctx);
+      case "link": {
+        const external = !/^[/#]/.test(node.href);
+        return (
+          <a
+            key={index}
+            href={node.href}
+            onClick={(e) => e.stopPropagation()}
+            {...(external && { target: "_blank", rel: "noopener noreferrer nofollow" })}
+          >
+            {renderInline(node.children, ctx)}
+          </a>
+        );
+      }
+    }
+  });
+}
+
+function renderBlock(block: MdBlock, index: number, ctx: RenderContext): ReactNode {
+  switch (block.type) {
+    case "heading": {
+      const Heading = `h${block.level + 1}` as "h2" | "h3" | "h4" | "h5";
+      return <Heading key={index}>{renderInline(block.children, ctx)}</Heading>;
+    }
+    case "paragraph":
+      return <p key={index}>{renderInline(block.children, ctx)}</p>;
+    case "list": {
+      const List = block.ordered ? "ol" : "ul";
+      return (
+        <List key={index}>
+          {block.items.map((item, itemIndex) => (
+            <li key={itemIndex}>{renderInline(item, ctx)}</li>
+          ))}
+        </List>
+      );
+    }
+    case "blockquote":
+      return <blockquote key={index}>{block.children.map((child, childIndex) => renderBlock(child, childIndex, ctx))}</blockquote>;
+    case "code":
+      return (
+        <pre key={index}>
+          <code>{block.text}</code>
+        </pre>
+      );
+    case "rule":
+      return <hr key={index} />;
+  }
+}
+
+// Renders an entry description. Everything goes through React elements, so
+// HTML typed into a description is escaped rather than injected.
+export function Markdown({ source, id, className, onNavigate, "data-testid": testId }: MarkdownProps) {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+  const linkKeys = useMemo(() => extractWikiLinkKeys(blocks), [blocks]);
+
+  const { data: targets } = useQuery<WikiLinkTarget[]>({
+    queryKey: ["/api/wiki-links", linkKeys],
+    queryFn: async () => {
+      const params = new URLSearchParams(linkKeys.map((key) => ["title", key]));
+      const res = await apiRequest("GET", `/api/wiki-links?${params}`);
+      return await res.json();
+    },
+    enabled: linkKeys.length > 0,
+    // Keeps links from flickering while a preview is being edited
+    placeholderData: keepPreviousData,
+  });
+
+  const ctx: RenderContext = {
+    targets: targets && new Map(targets.map((target) => [target.key, target])),
+    onNavigate,
+  };
+
+  return (
+    <div id={id} className={cn("break-words", className)} data-testid={testId}>
+      {blocks.map((block, index) => renderBlock(block, index, ctx))}
+    </div>
+  );
+}
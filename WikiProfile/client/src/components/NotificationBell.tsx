@@ -0,0 +1,161 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { vi } from "date-fns/locale";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { LoadMore } from "@/components/LoadMore";
+import { useInfiniteList } from "@/hooks/use-infinite-list";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import { entryPath } from "@shared/slug";
+import type { NotificationType, NotificationWithDetails } from "@shared/schema";
+import { Bell, CheckCheck, Loader2 } from "lucide-react";
+
+function actorName(notification: NotificationWithDetails): string {
+  const actor = notification.actor;
+  if (!actor) return "Ai đó";
+  return `${actor.firstName || ""} ${actor.lastName || ""}`.trim() || actor.email || "Ai đó";
+}
+
+function notificationText(notification: NotificationWithDetails): string {
+  const title = notification.entry ? `"${notification.entry.title}"` : "entry";
+  const texts: Record<NotificationType, string> = {
+    "entry.approved": `Entry ${title} đã được duyệt`,
+    "entry.rejected": `Entry ${title} đã bị từ chối`,
+    "draft.approved": `Bản chỉnh sửa của ${title} đã được duyệt`,
+    "draft.rejected": `Bản chỉnh sửa của ${title} đã bị từ chối`,
+    "entry.comment": `${actorName(notification)} đã bình luận về ${title}`,
+    "comment.reply": `${actorName(notification)} đã trả lời bình luận của bạn trong ${title}`,
+    "entry.like": `${actorName(notification)} đã thích ${title}`,
+    "report.resolved": `Báo cáo của bạn về ${title} đã được xử lý`,
+    "report.dismissed": `Báo cáo của bạn về ${title} đã bị bỏ qua`,
+    "user.banned": "Tài khoản của bạn đã bị cấm",
+  };
+  return texts[notification.type] ?? notification.type;
+}
+
+function invalidateNotifications() {
+  queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/notifications/unread-count"] });
+}
+
+// Bell with the unread count; the list is loaded when it is opened
+export function NotificationBell() {
+  const [open, setOpen] = useState(false);
+  const [, setLocation] = useLocation();
+
+  // Kept current by the realtime connection (see useRealtime)
+  const { data: unread } = useQuery<{ count: number }>({
+    queryKey: ["/api/notifications/unread-count"],
+  });
+  const unreadCount = unread?.count ?? 0;
+
+  const list = useInfiniteList<NotificationWithDetails>(["/api/notifications"], {}, {
+    enabled: open,
+    staleTime: 0,
+  });
+
+  const markMutation = useMutation({
+    mutationFn: async (body: { read: boolean; ids?: string[] }) => {
+      return await apiRequest("PATCH", "/api/notifications", body);
+    },
+    onSuccess: invalidateNotifications,
+  });
+
+  const handleClick = (notification: NotificationWithDetails) => {
+    if (!notification.readAt) {
+      markMutation.mutate({ read: true, ids: [notification.id] });
+    }
+    if (notification.entry) {
+      setOpen(false);
+      setLocation(entryPath(notification.entry));
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative h-9 w-9"
+          aria-label={unreadCount > 0 ? `Thông báo (${unreadCount} chưa đọc)` : "Thông báo"}
+          data-testid="button-notifications"
+        >
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span
+              className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] font-semibold leading-4 text-center"
+              data-testid="badge-unread-notifications"
+            >
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between gap-2 border-b px-3 py-2">
+          <p className="text-sm font-semibold">Thông báo</p>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            disabled={unreadCount === 0 || markMutation.isPending}
+            onClick={() => markMutation.mutate({ read: true })}
+            data-testid="button-mark-all-read"
+          >
+            <CheckCheck className="h-3 w-3 mr-1" />
+            Đánh dấu đã đọc
+          </Button>
+        </div>
+        <div className="max-h-96 overflow-y-auto">
+          {list.isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : list.items.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground" data-testid="text-no-notifications">
+              Chưa có thông báo nào
+            </p>
+          ) : (
+            <ul>
+              {list.items.map((notification) => (
+                <li key={notification.id}>
+                  <button
+                    type="button"
+                    onClick={() => handleClick(notification)}
+                    className={cn(
+                      "w-full text-left px-3 py-2 text-sm border-b last:border-b-0 hover-elevate",
+                      !notification.readAt && "bg-accent/40",
+                    )}
+                    data-testid={`notification-${notification.id}`}
+                  >
+                    <div className="flex items-start gap-2">
+                      {!notification.readAt && <span className="mt-1.5 h-2 w-2 flex-shrink-0 rounded-full bg-primary" />}
+                      <div className="space-y-0.5 min-w-0">
+                        <p className="break-words">{notificationText(notification)}</p>
+                        {notification.message && (
+                          <p className="text-xs text-muted-foreground line-clamp-2">Lý do: {notification.message}</p>
+                        )}
+                        <p className="text-xs text-muted-foreground">
+                          {notification.createdAt && formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true, locale: vi })}
+                        </p>
+                      </div>
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <LoadMore
+            hasNextPage={list.hasNextPage}
+            isFetchingNextPage={list.isFetchingNextPage}
+            fetchNextPage={list.fetchNextPage}
+          />
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -10,7 +10,9 @@ import {
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Loader2, Trash2, ImagePlus } from "lucide-react";
-import type { UserImage } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { GALLERY_IMAGE_TYPES, MAX_GALLERY_IMAGE_BYTES, type UserImage } from "@shared/schema";
+import { ResponsiveImage } from "@/components/ResponsiveImage";
 
 interface ProfileGalleryModalProps {
   open: boolean;
@@ -31,50 +33,55 @@ export function ProfileGalleryModal({
 }: ProfileGalleryModalProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [selectedTab, setSelectedTab] = useState<"avatar" | "background">("avatar");
+  const { toast } = useToast();
 
   const { data: images = [], isLoading } = useQuery<UserImage[]>({
     queryKey: ["/api/user/gallery"],
     enabled: open,
   });
 
+  const showError = (description: string) => {
+    toast({ title: "Error", description, variant: "destructive" });
+  };
+
   const deleteMutation = useMutation({
     mutationFn: async (imageId: string) =>
-      apiRequest(`/api/user/gallery/${imageId}`, "DELETE"),
+      apiRequest("DELETE", `/api/user/gallery/${imageId}`),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/user/gallery"] });
     },
+    onError: () => showError("Could not delete the image"),
   });
 
   const uploadMutation = useMutation({
     mutationFn: async (file: File) => {
-      const reader = new FileReader();
-      return new Promise<string>((resolve, reject) => {
-        reader.onload = async () => {
-          const imageUrl = reader.result as string;
-          try {
-            await apiRequest("/api/user/gallery", "POST", {
-              imageUrl,
-              fileName: file.name,
-            });
-            resolve(imageUrl);
-          } catch (error) {
-            reject(error);
-          }
-        };
-        reader.onerror = () => reject(reader.error);
-        reader.readAsDataURL(file);
-      });
+      const body = new FormData();
+      body.append("image", file);
+      return await apiRequest("POST", "/api/user/gallery", body);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/user/gallery"] });
     },
+    onError: (error: Error) => {
+      // apiRequest errors read "<status>: <body>"; 413 is a size or quota limit
+      showError(error.message.startsWith("413")
+        ? "Your gallery is full or the image is too large"
+        : "Could not upload the image");
+    },
   });
 
-  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (file) {
-      uploadMutation.mutate(file);
+    event.target.value = "";
+    if (!file) return;
+
+    if (!(GALLERY_IMAGE_TYPES as readonly string[]).includes(file.type)) {
+      return showError("Only JPEG, PNG, GIF and WebP images are supported");
+    }
+    if (file.size > MAX_GALLERY_IMAGE_BYTES) {
+      return showError(`Images must be at most ${MAX_GALLERY_IMAGE_BYTES / (1024 * 1024)} MB`);
     }
+    uploadMutation.mutate(file);
   };
 
   const handleSelectImage = (imageUrl: string) => {
@@ -126,7 +133,7 @@ export function ProfileGalleryModal({
             <input
               ref={fileInputRef}
               type="file"
-              accept="image/*"
+              accept={GALLERY_IMAGE_TYPES.join(",")}
               onChange={handleFileSelect}
               className="hidden"
               data-testid="input-file-upload"
@@ -150,8 +157,10 @@ export function ProfileGalleryModal({
                   className="relative group rounded-lg overflow-hidden cursor-pointer"
                   data-testid={`card-image-${image.id}`}
                 >
-                  <img
+                  <ResponsiveImage
                     src={image.imageUrl}
+                    sizes="(min-width: 640px) 180px, 50vw"
+                    fallback="thumb"
                     alt="Gallery"
                     className="w-full aspect-square object-cover"
                   />
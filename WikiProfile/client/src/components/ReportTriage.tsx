@@ -0,0 +1,414 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { vi } from "date-fns/locale";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { LoadMore } from "@/components/LoadMore";
+import { ClaimControl, activeClaim, claimHolderName, isClaimConflictError, isClaimedByOther } from "@/components/ClaimControl";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useInfiniteList } from "@/hooks/use-infinite-list";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { canManageUser } from "@shared/permissions";
+import { entryPath } from "@shared/slug";
+import {
+  OPEN_REPORT_STATUSES,
+  canTransitionReport,
+  type ReportGroup,
+  type ReportReason,
+  type ReportStatus,
+} from "@shared/schema";
+import { Loader2, Search, CheckCircle, XCircle, EyeOff, Ban } from "lucide-react";
+
+const REASON_LABELS: Record<ReportReason, string> = {
+  spam: "Spam",
+  harassment: "Quấy rối/Lạm dụng",
+  misinformation: "Thông tin sai lệch",
+  inappropriate: "Nội dung không phù hợp",
+  copyright: "Vi phạm bản quyền",
+  other: "Khác",
+};
+
+const STATUS_LABELS: Record<ReportStatus, string> = {
+  pending: "Chờ xử lý",
+  investigating: "Đang xem xét",
+  resolved: "Đã xử lý",
+  dismissed: "Đã bỏ qua",
+};
+
+const STATUS_FILTERS = ["open", "pending", "investigating", "resolved", "dismissed", "all"] as const;
+type StatusFilter = typeof STATUS_FILTERS[number];
+
+const FILTER_LABELS: Record<StatusFilter, string> = {
+  open: "Đang mở",
+  all: "Tất cả",
+  ...STATUS_LABELS,
+};
+
+// What confirming the dialog does. Group actions cover every report on the
+// entry that can make the move; "dismissReport" closes a single report.
+type TriageAction =
+  | { kind: "resolve" | "dismiss" | "remove_entry" | "ban_author"; group: ReportGroup }
+  | { kind: "dismissReport"; group: ReportGroup; reportId: string };
+
+type Reporter = ReportGroup["reports"][number]["reporter"];
+
+function personName(user: Reporter): string {
+  return `${user.firstName || ""} ${user.lastName || ""}`.trim() || user.email || "Người dùng";
+}
+
+function isOpen(status: ReportStatus): boolean {
+  return (OPEN_REPORT_STATUSES as readonly ReportStatus[]).includes(status);
+}
+
+// Reports grouped by entry, with the triage actions for each group
+export function ReportTriage() {
+  const { user: currentUser, can } = useAuth();
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("open");
+  const [pendingAction, setPendingAction] = useState<TriageAction | null>(null);
+  const [note, setNote] = useState("");
+  const [banHours, setBanHours] = useState(0);
+
+  const list = useInfiniteList<ReportGroup>(["/api/admin/reports", "groups"], {
+    status: statusFilter === "all" ? undefined : statusFilter,
+  });
+
+  const onSuccess = (description: string) => () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/reports"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/entries"] });
+    toast({ title: "Thành công", description });
+    setPendingAction(null);
+  };
+  const onError = (error: Error) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/reports"] });
+    toast({
+      title: "Lỗi",
+      description: isClaimConflictError(error)
+        ? "Trạng thái báo cáo vừa thay đổi hoặc đang có moderator khác xem xét"
+        : "Không thể cập nhật báo cáo",
+      variant: "destructive",
+    });
+  };
+
+  const groupMutation = useMutation({
+    mutationFn: async ({ entryId, ...body }: {
+      entryId: string;
+      status: ReportStatus;
+      note?: string;
+      action?: "remove_entry" | "ban_author";
+      banHours?: number;
+      force?: boolean;
+    }) => {
+      return await apiRequest("PATCH", `/api/admin/entries/${entryId}/reports/status`, body);
+    },
+    onSuccess: onSuccess("Đã cập nhật báo cáo"),
+    onError,
+  });
+
+  const reportMutation = useMutation({
+    mutationFn: async ({ reportId, ...body }: { reportId: string; status: ReportStatus; note?: string; force?: boolean }) => {
+      return await apiRequest("PATCH", `/api/admin/reports/${reportId}/status`, body);
+    },
+    onSuccess: onSuccess("Đã cập nhật báo cáo"),
+    onError,
+  });
+
+  if (!currentUser) return null;
+
+  // Reports the action would touch, for the claim override warning
+  const affectedReports = (action: TriageAction) => {
+    if (action.kind === "dismissReport") {
+      return action.group.reports.filter((report) => report.id === action.reportId);
+    }
+    const target: ReportStatus = action.kind === "dismiss" ? "dismissed" : "resolved";
+    return action.group.reports.filter((report) => canTransitionReport(report.status, target));
+  };
+  const overriddenClaim = pendingAction
+    ? affectedReports(pendingAction).map((report) => report.claim).find((claim) => isClaimedByOther(claim, currentUser.id))
+    : undefined;
+
+  const openAction = (action: TriageAction) => {
+    setNote("");
+    setBanHours(0);
+    setPendingAction(action);
+  };
+
+  const handleConfirm = () => {
+    if (!pendingAction) return;
+    const force = !!overriddenClaim;
+    const trimmedNote = note.trim() || undefined;
+    if (pendingAction.kind === "dismissReport") {
+      reportMutation.mutate({ reportId: pendingAction.reportId, status: "dismissed", note: trimmedNote, force });
+      return;
+    }
+    groupMutation.mutate({
+      entryId: pendingAction.group.entry.id,
+      status: pendingAction.kind === "dismiss" ? "dismissed" : "resolved",
+      note: trimmedNote,
+      action: pendingAction.kind === "remove_entry" || pendingAction.kind === "ban_author" ? pendingAction.kind : undefined,
+      banHours: pendingAction.kind === "ban_author" && banHours > 0 ? banHours : undefined,
+      force,
+    });
+  };
+
+  const needsNote = pendingAction?.kind === "remove_entry" || pendingAction?.kind === "ban_author";
+  const isPending = groupMutation.isPending || reportMutation.isPending;
+
+  return (
+    <div className="space-y-4">
+      <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
+        <SelectTrigger className="w-48" data-testid="select-report-status">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {STATUS_FILTERS.map((value) => (
+            <SelectItem key={value} value={value}>{FILTER_LABELS[value]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {list.isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : list.items.length === 0 ? (
+        <div className="text-center py-12 border rounded-lg bg-card">
+          <p className="text-lg text-muted-foreground" data-testid="text-no-reports">
+            Không có báo cáo nào
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {list.items.map((group) => {
+            const { entry } = group;
+            const hasPending = group.reports.some((report) => report.status === "pending");
+            const canResolve = group.reports.some((report) => report.status === "investigating");
+            const canDismiss = group.reports.some((report) => isOpen(report.status));
+            const canBanAuthor = can("users.ban") && canManageUser(currentUser, entry.user);
+
+            return (
+              <div key={entry.id} className="border rounded-lg p-4 bg-card space-y-3" data-testid={`report-group-${entry.id}`}>
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div className="space-y-1 min-w-0">
+                    <Link href={entryPath(entry)} className="font-semibold hover:underline break-words">
+                      {entry.title}
+                    </Link>
+                    <p className="text-xs text-muted-foreground">
+                      Tác giả: {personName(entry.user)} · Entry {entry.status === "approved" ? "đang hiển thị" : entry.status === "rejected" ? "đã bị gỡ" : "chờ duyệt"}
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {Object.entries(group.reasonCounts).map(([reason, count]) => (
+                      <Badge key={reason} variant="secondary" data-testid={`badge-reason-${entry.id}-${reason}`}>
+                        {REASON_LABELS[reason as ReportReason] ?? reason}: {count}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+
+                <ul className="divide-y border rounded-md">
+                  {group.reports.map((report) => (
+                    <li key={report.id} className="p-3 space-y-1 text-sm" data-testid={`row-report-${report.id}`}>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Badge variant={isOpen(report.status) ? "default" : "outline"}>
+                          {STATUS_LABELS[report.status] ?? report.status}
+                        </Badge>
+                        <span className="font-medium">{REASON_LABELS[report.reason as ReportReason] ?? report.reason}</span>
+                        <span className="text-muted-foreground">
+                          bởi {personName(report.reporter)}
+                          {report.createdAt && ` · ${formatDistanceToNow(new Date(report.createdAt), { addSuffix: true, locale: vi })}`}
+                        </span>
+                        {isOpen(report.status) && (
+                          <div className="ml-auto flex items-center gap-2">
+                            <ClaimControl
+                              targetType="report"
+                              targetId={report.id}
+                              claim={report.claim}
+                              currentUserId={currentUser.id}
+                            />
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              disabled={isPending}
+                              onClick={() => openAction({ kind: "dismissReport", group, reportId: report.id })}
+                              data-testid={`button-dismiss-report-${report.id}`}
+                            >
+                              Bỏ qua
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                      {report.description && <p className="break-words">{report.description}</p>}
+                      {report.resolutionNote && (
+                        <p className="text-muted-foreground">
+                          <strong>Ghi chú xử lý:</strong> {report.resolutionNote}
+                        </p>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+
+                {canDismiss && (
+                  <div className="flex flex-wrap gap-2">
+                    {hasPending && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={isPending}
+                        onClick={() => groupMutation.mutate({ entryId: entry.id, status: "investigating" })}
+                        data-testid={`button-investigate-${entry.id}`}
+                      >
+                        <Search className="h-4 w-4 mr-1" />
+                        Bắt đầu xem xét
+                      </Button>
+                    )}
+                    {canResolve && (
+                      <>
+                        <Button
+                          size="sm"
+                          disabled={isPending}
+                          onClick={() => openAction({ kind: "resolve", group })}
+                          data-testid={`button-resolve-${entry.id}`}
+                        >
+                          <CheckCircle className="h-4 w-4 mr-1" />
+                          Đã xử lý
+                        </Button>
+                        {can("entries.moderate") && entry.status !== "rejected" && (
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            disabled={isPending}
+                            onClick={() => openAction({ kind: "remove_entry", group })}
+                            data-testid={`button-resolve-remove-${entry.id}`}
+                          >
+                            <EyeOff className="h-4 w-4 mr-1" />
+                            Xử lý & gỡ entry
+                          </Button>
+                        )}
+                        {canBanAuthor && (
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            disabled={isPending}
+                            onClick={() => openAction({ kind: "ban_author", group })}
+                            data-testid={`button-resolve-ban-${entry.id}`}
+                          >
+                            <Ban className="h-4 w-4 mr-1" />
+                            Xử lý & ban tác giả
+                          </Button>
+                        )}
+                      </>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={isPending}
+                      onClick={() => openAction({ kind: "dismiss", group })}
+                      data-testid={`button-dismiss-${entry.id}`}
+                    >
+                      <XCircle className="h-4 w-4 mr-1" />
+                      Bỏ qua tất cả
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+      <LoadMore
+        hasNextPage={list.hasNextPage}
+        isFetchingNextPage={list.isFetchingNextPage}
+        fetchNextPage={list.fetchNextPage}
+      />
+
+      <AlertDialog open={!!pendingAction} onOpenChange={(open) => !open && setPendingAction(null)}>
+        <AlertDialogContent data-testid="dialog-report-action">
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingAction?.kind === "resolve" && "Đánh dấu đã xử lý"}
+              {pendingAction?.kind === "dismiss" && "Bỏ qua báo cáo"}
+              {pendingAction?.kind === "dismissReport" && "Bỏ qua báo cáo"}
+              {pendingAction?.kind === "remove_entry" && "Xử lý và gỡ entry"}
+              {pendingAction?.kind === "ban_author" && "Xử lý và ban tác giả"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingAction?.kind === "resolve" && `Đóng các báo cáo đang xem xét về "${pendingAction.group.entry.title}".`}
+              {pendingAction?.kind === "dismiss" && `Bỏ qua mọi báo cáo đang mở về "${pendingAction.group.entry.title}".`}
+              {pendingAction?.kind === "dismissReport" && `Bỏ qua báo cáo này về "${pendingAction.group.entry.title}".`}
+              {pendingAction?.kind === "remove_entry" && `Từ chối "${pendingAction.group.entry.title}" để gỡ khỏi trang và đóng các báo cáo đang xem xét. Ghi chú được gửi cho tác giả làm lý do.`}
+              {pendingAction?.kind === "ban_author" && `Ban ${personName(pendingAction.group.entry.user)} và đóng các báo cáo đang xem xét. Ghi chú được dùng làm lý do ban.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          {overriddenClaim && (
+            <p className="rounded-md border border-destructive/50 p-3 text-sm text-destructive" data-testid="text-report-claim-override-warning">
+              Báo cáo đang được {claimHolderName(activeClaim(overriddenClaim)!)} xem xét. Xác nhận sẽ bỏ qua lượt nhận của họ.
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Ghi chú xử lý{needsNote ? ":" : " (tùy chọn):"}</label>
+            <Textarea
+              placeholder="Nhập ghi chú"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              data-testid="input-report-note"
+            />
+          </div>
+
+          {pendingAction?.kind === "ban_author" && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Thời gian ban (giờ) - để trống để ban vĩnh viễn:</label>
+              <Input
+                type="number"
+                min="0"
+                value={banHours || ""}
+                onChange={(e) => setBanHours(e.target.value ? parseInt(e.target.value) : 0)}
+                data-testid="input-report-ban-hours"
+              />
+            </div>
+          )}
+
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-report-action">Hủy</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                // Stay open while the request runs; onSuccess closes the dialog
+                e.preventDefault();
+                handleConfirm();
+              }}
+              disabled={isPending || (needsNote && !note.trim())}
+              className={needsNote ? "bg-destructive text-destructive-foreground hover:bg-destructive/90" : ""}
+              data-testid="button-confirm-report-action"
+            >
+              Xác nhận
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
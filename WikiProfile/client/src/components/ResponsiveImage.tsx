@@ -0,0 +1,27 @@
+import type { ImgHTMLAttributes } from "react";
+import { imageSrcSet, imageVariantUrl, type ImageVariant } from "@shared/images";
+
+interface ResponsiveImageProps extends Omit<ImgHTMLAttributes<HTMLImageElement>, "src" | "srcSet"> {
+  src: string;
+  // Layout width of the image, used to pick a variant
+  sizes: string;
+  // Variant for browsers without srcset support
+  fallback?: ImageVariant;
+}
+
+// Lets the browser pick the smallest uploaded variant that fits, preferring
+// WebP. Images without variants (external URLs) render as a plain <img>.
+export function ResponsiveImage({ src, sizes, fallback = "card", ...props }: ResponsiveImageProps) {
+  const srcSet = imageSrcSet(src);
+  if (!srcSet) {
+    return <img src={src} loading="lazy" {...props} />;
+  }
+
+  return (
+    // display: contents keeps the <img> sized against the parent element
+    <picture className="contents">
+      <source type="image/webp" srcSet={imageSrcSet(src, "webp")} sizes={sizes} />
+      <img src={imageVariantUrl(src, fallback)} srcSet={srcSet} sizes={sizes} loading="lazy" {...props} />
+    </picture>
+  );
+}
@@ -0,0 +1,135 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { DiffView } from "@/components/DiffView";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { WikiEntryRevisionWithEditor } from "@shared/schema";
+import { formatDistanceToNow } from "date-fns";
+import { vi } from "date-fns/locale";
+import { Loader2, RotateCcw } from "lucide-react";
+
+interface RevisionHistoryProps {
+  entryId: string;
+  canRestore?: boolean;
+  onRestored?: () => void;
+}
+
+export function RevisionHistory({ entryId, canRestore = false, onRestored }: RevisionHistoryProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  // Newest first
+  const { data: revisions = [], isLoading } = useQuery<WikiEntryRevisionWithEditor[]>({
+    queryKey: ["/api/entries", entryId, "revisions"],
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revisionId: string) => {
+      return await apiRequest("POST", `/api/admin/entries/${entryId}/revisions/${revisionId}/restore`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/entries", entryId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/entries"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/entries/approved"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/profile"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/wiki-links"] });
+      setSelectedId(null);
+      toast({
+        title: "Thành công",
+        description: "Đã khôi phục phiên bản",
+      });
+      onRestored?.();
+    },
+    onError: () => {
+      toast({
+        title: "Lỗi",
+        description: "Không thể khôi phục phiên bản",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getEditorName = (revision: WikiEntryRevisionWithEditor) => {
+    if (!revision.editor) return "Người dùng đã xóa";
+    return `${revision.editor.firstName || ""} ${revision.editor.lastName || ""}`.trim() || revision.editor.email || "Người dùng";
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <p className="text-xs md:text-sm text-muted-foreground py-4" data-testid="text-no-revisions">
+        Chưa có lịch sử chỉnh sửa
+      </p>
+    );
+  }
+
+  const selectedIndex = revisions.findIndex((r) => r.id === selectedId);
+  const selected = selectedIndex >= 0 ? revisions[selectedIndex] : null;
+  const previous = selectedIndex >= 0 ? revisions[selectedIndex + 1] : undefined;
+
+  return (
+    <div className="space-y-3" data-testid="section-revision-history">
+      <div className="space-y-2">
+        {revisions.map((revision, index) => (
+          <div
+            key={revision.id}
+            className={`flex items-center justify-between gap-2 rounded-md border p-2 cursor-pointer hover-elevate ${revision.id === selectedId ? "bg-muted" : ""}`}
+            onClick={() => setSelectedId(revision.id === selectedId ? null : revision.id)}
+            data-testid={`row-revision-${revision.id}`}
+          >
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="text-xs md:text-sm font-semibold">#{revision.revisionNumber}</span>
+                {index === 0 && <Badge variant="secondary" className="text-xs">Hiện tại</Badge>}
+                {revision.restoredFromId && <Badge variant="outline" className="text-xs">Khôi phục</Badge>}
+              </div>
+              <p className="text-xs text-muted-foreground truncate">
+                {getEditorName(revision)} · {formatDistanceToNow(new Date(revision.createdAt!), { addSuffix: true, locale: vi })}
+              </p>
+            </div>
+            {canRestore && index > 0 && (
+              <Button
+                size="sm"
+                variant="outline"
+                className="text-xs flex-shrink-0"
+                disabled={restoreMutation.isPending}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  restoreMutation.mutate(revision.id);
+                }}
+                data-testid={`button-restore-revision-${revision.id}`}
+              >
+                <RotateCcw className="h-3 w-3 mr-1" />
+                Khôi phục
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {selected && (
+        <div className="rounded-md border p-3 space-y-3" data-testid="section-revision-diff">
+          <p className="text-xs text-muted-foreground">
+            {previous
+              ? `So sánh #${previous.revisionNumber} → #${selected.revisionNumber}`
+              : `Phiên bản đầu tiên #${selected.revisionNumber}`}
+          </p>
+          <DiffView before={previous?.title ?? ""} after={selected.title} className="font-semibold" />
+          {previous && previous.imageUrl !== selected.imageUrl && (
+            <p className="text-xs text-muted-foreground">Hình ảnh đã thay đổi</p>
+          )}
+          <DiffView before={previous?.description ?? ""} after={selected.description} />
+        </div>
+      )}
+    </div>
+  );
+}
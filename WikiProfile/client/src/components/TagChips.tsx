@@ -0,0 +1,25 @@
+import { Link } from "wouter";
+import { Badge } from "@/components/ui/badge";
+import type { Tag } from "@shared/schema";
+
+interface TagChipsProps {
+  tags: Tag[];
+  className?: string;
+}
+
+export function TagChips({ tags, className = "" }: TagChipsProps) {
+  if (tags.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap gap-1 ${className}`} data-testid="tag-chips">
+      {tags.map((tag) => (
+        // Chips sit inside clickable cards
+        <Link key={tag.id} href={`/tags/${tag.slug}`} onClick={(e) => e.stopPropagation()}>
+          <Badge variant="secondary" className="text-xs cursor-pointer hover-elevate" data-testid={`link-tag-${tag.slug}`}>
+            #{tag.name}
+          </Badge>
+        </Link>
+      ))}
+    </div>
+  );
+}
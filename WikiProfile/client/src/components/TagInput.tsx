@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { useDebounce } from "@/hooks/use-debounce";
+import { apiRequest } from "@/lib/queryClient";
+import { MAX_TAGS_PER_ENTRY, type TagWithCount } from "@shared/schema";
+import { slugify } from "@shared/slug";
+import { X } from "lucide-react";
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+}
+
+export function TagInput({ value, onChange }: TagInputProps) {
+  const [input, setInput] = useState("");
+  const [focused, setFocused] = useState(false);
+  const debouncedInput = useDebounce(input.trim(), 200);
+
+  const selectedSlugs = new Set(value.map((name) => slugify(name, 60)));
+  const isFull = value.length >= MAX_TAGS_PER_ENTRY;
+
+  const { data: suggestions = [] } = useQuery<TagWithCount[]>({
+    queryKey: ["/api/tags", debouncedInput],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/tags?${new URLSearchParams({ q: debouncedInput })}`);
+      return await res.json();
+    },
+    enabled: focused && !isFull,
+  });
+
+  const visibleSuggestions = suggestions.filter((tag) => !selectedSlugs.has(tag.slug));
+
+  const addTag = (raw: string) => {
+    const name = raw.trim().replace(/\s+/g, " ").slice(0, 50);
+    setInput("");
+    if (!name || isFull || !slugify(name, 60) || selectedSlugs.has(slugify(name, 60))) return;
+    onChange([...value, name]);
+  };
+
+  const removeTag = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-2 rounded-md border bg-background px-3 py-2">
+        {value.map((name, index) => (
+          <Badge key={`${name}-${index}`} variant="secondary" className="gap-1" data-testid={`chip-tag-${index}`}>
+            {name}
+            <button
+              type="button"
+              className="rounded-full hover:text-destructive"
+              onClick={() => removeTag(index)}
+              aria-label={`Bỏ thẻ ${name}`}
+              data-testid={`button-remove-tag-${index}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+        <Input
+          value={input}
+          disabled={isFull}
+          placeholder={isFull ? `Tối đa ${MAX_TAGS_PER_ENTRY} thẻ` : "Thêm thẻ..."}
+          className="h-7 flex-1 min-w-[8rem] border-0 p-0 shadow-none focus-visible:ring-0"
+          onChange={(e) => setInput(e.target.value)}
+          onFocus={() => setFocused(true)}
+          onBlur={() => setFocused(false)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" || e.key === ",") {
+              e.preventDefault();
+              addTag(input);
+            } else if (e.key === "Backspace" && !input && value.length > 0) {
+              removeTag(value.length - 1);
+            }
+          }}
+          data-testid="input-entry-tags"
+        />
+      </div>
+
+      {focused && visibleSuggestions.length > 0 && (
+        <div className="absolute z-50 mt-1 w-full rounded-md border bg-popover p-1 shadow-md" data-testid="list-tag-suggestions">
+          {visibleSuggestions.map((tag) => (
+            <button
+              key={tag.id}
+              type="button"
+              className="flex w-full items-center justify-between rounded-sm px-2 py-1.5 text-sm hover-elevate"
+              // Keep focus in the input so the list stays open for the click
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => addTag(tag.name)}
+              data-testid={`option-tag-${tag.slug}`}
+            >
+              <span>{tag.name}</span>
+              <span className="text-xs text-muted-foreground">{tag.entryCount}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { TagWithCount } from "@shared/schema";
+import { Loader2, Pencil, GitMerge, Trash2, Check, X } from "lucide-react";
+
+// Admin rename/merge/delete for tags
+export function TagManager() {
+  const { toast } = useToast();
+  const [filter, setFilter] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState("");
+  const [mergingId, setMergingId] = useState<string | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState("");
+
+  const { data: tags = [], isLoading } = useQuery<TagWithCount[]>({
+    queryKey: ["/api/admin/tags"],
+  });
+
+  const invalidateTags = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/tags"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/entries/approved"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/search"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/profile"] });
+  };
+
+  const showError = (error: Error, fallback: string) => {
+    // apiRequest errors read "<status>: <body>"
+    const conflict = error.message.startsWith("409");
+    toast({
+      title: "Lỗi",
+      description: conflict ? "Đã có thẻ với tên này - hãy gộp hai thẻ" : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const renameMutation = useMutation({
+    mutationFn: async (data: { id: string; name: string }) => {
+      return await apiRequest("PATCH", `/api/admin/tags/${data.id}`, { name: data.name });
+    },
+    onSuccess: () => {
+      invalidateTags();
+      setEditingId(null);
+      toast({ title: "Thành công", description: "Đã đổi tên thẻ" });
+    },
+    onError: (error: Error) => showError(error, "Không thể đổi tên thẻ"),
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: async (data: { id: string; targetId: string }) => {
+      return await apiRequest("POST", `/api/admin/tags/${data.id}/merge`, { targetId: data.targetId });
+    },
+    onSuccess: () => {
+      invalidateTags();
+      setMergingId(null);
+      setMergeTargetId("");
+      toast({ title: "Thành công", description: "Đã gộp thẻ" });
+    },
+    onError: (error: Error) => showError(error, "Không thể gộp thẻ"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/admin/tags/${id}`);
+    },
+    onSuccess: () => {
+      invalidateTags();
+      toast({ title: "Thành công", description: "Đã xóa thẻ" });
+    },
+    onError: (error: Error) => showError(error, "Không thể xóa thẻ"),
+  });
+
+  const needle = filter.trim().toLowerCase();
+  const filteredTags = needle
+    ? tags.filter((tag) => tag.name.toLowerCase().includes(needle) || tag.slug.includes(needle))
+    : tags;
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Input
+        placeholder="Lọc thẻ..."
+        value={filter}
+        onChange={(e) => setFilter(e.target.value)}
+        className="max-w-sm"
+        data-testid="input-filter-tags"
+      />
+
+      {filteredTags.length === 0 ? (
+        <div className="text-center py-12 border rounded-lg bg-card">
+          <p className="text-lg text-muted-foreground" data-testid="text-no-tags">
+            Không có thẻ nào
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {filteredTags.map((tag) => (
+            <div
+              key={tag.id}
+              className="border rounded-lg p-3 bg-card flex flex-wrap items-center justify-between gap-3"
+              data-testid={`row-tag-${tag.id}`}
+            >
+              {editingId === tag.id ? (
+                <form
+                  className="flex items-center gap-2 flex-1 min-w-0"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    if (editName.trim()) renameMutation.mutate({ id: tag.id, name: editName.trim() });
+                  }}
+                >
+                  <Input
+                    value={editName}
+                    onChange={(e) => setEditName(e.target.value)}
+                    maxLength={50}
+                    className="h-8 max-w-xs"
+                    autoFocus
+                    data-testid={`input-rename-tag-${tag.id}`}
+                  />
+                  <Button type="submit" size="icon" variant="ghost" disabled={renameMutation.isPending} data-testid={`button-save-tag-${tag.id}`}>
+                    <Check className="h-4 w-4" />
+                  </Button>
+                  <Button type="button" size="icon" variant="ghost" onClick={() => setEditingId(null)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </form>
+              ) : (
+                <div className="min-w-0">
+                  <Link href={`/tags/${tag.slug}`} className="font-semibold hover:underline" data-testid={`link-admin-tag-${tag.id}`}>
+                    #{tag.name}
+                  </Link>
+                  <p className="text-xs text-muted-foreground">
+                    {tag.slug} · {tag.entryCount} entries
+                  </p>
+                </div>
+              )}
+
+              {mergingId === tag.id ? (
+                <div className="flex items-center gap-2">
+                  <Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+                    <SelectTrigger className="w-48 h-8 text-xs" data-testid={`select-merge-target-${tag.id}`}>
+                      <SelectValue placeholder="Gộp vào thẻ..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {tags.filter((other) => other.id !== tag.id).map((other) => (
+                        <SelectItem key={other.id} value={other.id}>
+                          {other.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    size="sm"
+                    disabled={!mergeTargetId || mergeMutation.isPending}
+                    onClick={() => mergeMutation.mutate({ id: tag.id, targetId: mergeTargetId })}
+                    data-testid={`button-confirm-merge-${tag.id}`}
+                  >
+                    Gộp
+                  </Button>
+                  <Button size="icon" variant="ghost" onClick={() => setMergingId(null)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ) : editingId !== tag.id && (
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => {
+                      setEditingId(tag.id);
+                      setEditName(tag.name);
+                    }}
+                    data-testid={`button-rename-tag-${tag.id}`}
+                  >
+                    <Pencil className="h-4 w-4 mr-1" />
+                    Đổi tên
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => {
+                      setMergingId(tag.id);
+                      setMergeTargetId("");
+                    }}
+                    disabled={tags.length < 2}
+                    data-testid={`button-merge-tag-${tag.id}`}
+                  >
+                    <GitMerge className="h-4 w-4 mr-1" />
+                    Gộp
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    onClick={() => deleteMutation.mutate(tag.id)}
+                    disabled={deleteMutation.isPending}
+                    data-testid={`button-delete-tag-${tag.id}`}
+                  >
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Xóa
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,341 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { REGEXP_ONLY_DIGITS } from "input-otp";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { TWO_FACTOR_CODE_LENGTH, type TwoFactorSetup, type TwoFactorStatus } from "@shared/schema";
+import { Copy, KeyRound, Loader2, ShieldCheck } from "lucide-react";
+
+// Too many wrong codes end the session (401); anything else is a wrong code
+export function twoFactorErrorMessage(error: Error): string {
+  if (/^401: /.test(error.message)) return "Nhập sai quá nhiều lần, vui lòng đăng nhập lại";
+  if (/^400: /.test(error.message)) return "Mã không đúng hoặc đã được sử dụng";
+  return "Không thể xác minh mã";
+}
+
+function refreshTwoFactor() {
+  queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+}
+
+interface TwoFactorCodeFormProps {
+  onSubmit: (code: string) => void;
+  isPending: boolean;
+  submitLabel: string;
+  // Recovery codes work wherever a TOTP code does, except when confirming setup
+  allowRecoveryCode?: boolean;
+}
+
+// Six-digit authenticator code, or a recovery code instead
+export function TwoFactorCodeForm({ onSubmit, isPending, submitLabel, allowRecoveryCode = true }: TwoFactorCodeFormProps) {
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const ready = useRecoveryCode ? code.trim().length > 0 : code.length === TWO_FACTOR_CODE_LENGTH;
+
+  return (
+    <form
+      className="space-y-3"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (ready) onSubmit(code.trim());
+      }}
+    >
+      {useRecoveryCode ? (
+        <Input
+          placeholder="xxxxx-xxxxx"
+          autoComplete="off"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          disabled={isPending}
+          data-testid="input-recovery-code"
+        />
+      ) : (
+        <InputOTP
+          maxLength={TWO_FACTOR_CODE_LENGTH}
+          pattern={REGEXP_ONLY_DIGITS}
+          value={code}
+          onChange={setCode}
+          disabled={isPending}
+          autoFocus
+          data-testid="input-two-factor-code"
+        >
+          <InputOTPGroup>
+            {Array.from({ length: TWO_FACTOR_CODE_LENGTH }, (_, index) => (
+              <InputOTPSlot key={index} index={index} />
+            ))}
+          </InputOTPGroup>
+        </InputOTP>
+      )}
+      <div className="flex flex-wrap items-center gap-2">
+        <Button type="submit" disabled={isPending || !ready} data-testid="button-submit-two-factor">
+          {isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          {submitLabel}
+        </Button>
+        {allowRecoveryCode && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setUseRecoveryCode(!useRecoveryCode);
+              setCode("");
+            }}
+            data-testid="button-toggle-recovery-code"
+          >
+            {useRecoveryCode ? "Dùng mã từ ứng dụng xác thực" : "Dùng mã khôi phục"}
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+}
+
+function RecoveryCodes({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  const { toast } = useToast();
+
+  return (
+    <div className="space-y-3" data-testid="section-recovery-codes">
+      <p className="text-sm text-muted-foreground">
+        Lưu các mã khôi phục này ở nơi an toàn. Mỗi mã chỉ dùng được một lần khi bạn không có ứng dụng xác thực. Chúng sẽ không được hiển thị lại.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 font-mono text-sm bg-muted rounded-md p-3">
+        {codes.map((code) => (
+          <li key={code} data-testid="text-recovery-code">{code}</li>
+        ))}
+      </ul>
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={async () => {
+            await navigator.clipboard.writeText(codes.join("\n"));
+            toast({ title: "Đã sao chép", description: "Đã sao chép mã khôi phục" });
+          }}
+          data-testid="button-copy-recovery-codes"
+        >
+          <Copy className="h-4 w-4 mr-1" />
+          Sao chép
+        </Button>
+        <Button size="sm" onClick={onDone} data-testid="button-recovery-codes-done">
+          Tôi đã lưu các mã
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// Enrollment: scan the QR code, confirm a code, save the recovery codes
+export function TwoFactorEnrollment() {
+  const { toast } = useToast();
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/2fa/setup", {});
+      return (await res.json()) as TwoFactorSetup;
+    },
+    onError: () => {
+      toast({ title: "Lỗi", description: "Không thể bắt đầu thiết lập xác thực hai bước", variant: "destructive" });
+    },
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const res = await apiRequest("POST", "/api/auth/2fa/enable", { code });
+      return (await res.json()) as { recoveryCodes: string[] };
+    },
+    onSuccess: (data) => setRecoveryCodes(data.recoveryCodes),
+    onError: (error) => {
+      toast({ title: "Lỗi", description: twoFactorErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  if (recoveryCodes) {
+    return (
+      <RecoveryCodes codes={recoveryCodes} onDone={refreshTwoFactor} />
+    );
+  }
+
+  const setup = setupMutation.data;
+  if (!setup) {
+    return (
+      <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending} data-testid="button-setup-two-factor">
+        {setupMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ShieldCheck className="h-4 w-4 mr-2" />}
+        Bật xác thực hai bước
+      </Button>
+    );
+  }
+
+  return (
+    <div className="space-y-3" data-testid="section-two-factor-setup">
+      <p className="text-sm text-muted-foreground">
+        Quét mã QR bằng ứng dụng xác thực (Google Authenticator, Authy, 1Password...) rồi nhập mã 6 số để xác nhận.
+      </p>
+      <img src={setup.qrCode} alt="Mã QR xác thực hai bước" className="h-44 w-44 rounded-md border bg-white" data-testid="img-two-factor-qr" />
+      <p className="text-xs text-muted-foreground">
+        Không quét được? Nhập khóa này: <code className="font-mono break-all" data-testid="text-two-factor-secret">{setup.secret}</code>
+      </p>
+      <TwoFactorCodeForm
+        onSubmit={(code) => enableMutation.mutate(code)}
+        isPending={enableMutation.isPending}
+        submitLabel="Xác nhận"
+        allowRecoveryCode={false}
+      />
+    </div>
+  );
+}
+
+// Asks for a code again in sessions that didn't pass 2FA at login
+export function TwoFactorVerification() {
+  const { toast } = useToast();
+
+  const verifyMutation = useMutation({
+    mutationFn: async (code: string) => {
+      return await apiRequest("POST", "/api/auth/2fa/verify", { code });
+    },
+    onSuccess: refreshTwoFactor,
+    onError: (error) => {
+      toast({ title: "Lỗi", description: twoFactorErrorMessage(error), variant: "destructive" });
+      if (/^401: /.test(error.message)) {
+        window.location.href = "/auth";
+      }
+    },
+  });
+
+  return (
+    <TwoFactorCodeForm onSubmit={(code) => verifyMutation.mutate(code)} isPending={verifyMutation.isPending} submitLabel="Xác minh" />
+  );
+}
+
+// Shown instead of the admin panel until a staff member has 2FA on and verified
+export function TwoFactorGate({ status }: { status: TwoFactorStatus }) {
+  return (
+    <div className="max-w-md mx-auto border rounded-lg p-6 bg-card space-y-4" data-testid="section-two-factor-gate">
+      <div className="flex items-center gap-2">
+        <KeyRound className="h-5 w-5 text-primary" />
+        <h2 className="font-semibold">Yêu cầu xác thực hai bước</h2>
+      </div>
+      {status.enabled ? (
+        <>
+          <p className="text-sm text-muted-foreground">Nhập mã từ ứng dụng xác thực để tiếp tục vào trang quản trị.</p>
+          <TwoFactorVerification />
+        </>
+      ) : (
+        <>
+          <p className="text-sm text-muted-foreground">
+            Tài khoản quản trị và kiểm duyệt viên phải bật xác thực hai bước trước khi dùng trang quản trị.
+          </p>
+          <TwoFactorEnrollment />
+        </>
+      )}
+    </div>
+  );
+}
+
+// The two-factor section of the user's own profile
+export function TwoFactorSettings() {
+  const { toast } = useToast();
+  const [action, setAction] = useState<"regenerate" | "disable" | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/auth/2fa"],
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const res = await apiRequest("POST", "/api/auth/2fa/recovery-codes", { code });
+      return (await res.json()) as { recoveryCodes: string[] };
+    },
+    onSuccess: (data) => {
+      setAction(null);
+      setRecoveryCodes(data.recoveryCodes);
+    },
+    onError: (error) => {
+      toast({ title: "Lỗi", description: twoFactorErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async (code: string) => {
+      return await apiRequest("POST", "/api/auth/2fa/disable", { code });
+    },
+    onSuccess: () => {
+      setAction(null);
+      refreshTwoFactor();
+      toast({ title: "Thành công", description: "Đã tắt xác thực hai bước" });
+    },
+    onError: (error) => {
+      toast({ title: "Lỗi", description: twoFactorErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  if (!status) return null;
+
+  return (
+    <div className="border rounded-lg p-4 bg-card space-y-3" data-testid="section-two-factor">
+      <div className="flex flex-wrap items-center gap-2">
+        <h2 className="font-semibold">Xác thực hai bước</h2>
+        {status.enabled ? (
+          <Badge variant="secondary" data-testid="badge-two-factor-enabled">Đang bật</Badge>
+        ) : (
+          <Badge variant="outline" data-testid="badge-two-factor-disabled">Đang tắt</Badge>
+        )}
+        {status.required && !status.enabled && (
+          <Badge variant="destructive">Bắt buộc với vai trò của bạn</Badge>
+        )}
+      </div>
+
+      {recoveryCodes ? (
+        <RecoveryCodes
+          codes={recoveryCodes}
+          onDone={() => {
+            setRecoveryCodes(null);
+            refreshTwoFactor();
+          }}
+        />
+      ) : !status.enabled ? (
+        <>
+          <p className="text-sm text-muted-foreground">Khi đăng nhập bằng mật khẩu, bạn sẽ cần thêm mã từ ứng dụng xác thực.</p>
+          <TwoFactorEnrollment />
+        </>
+      ) : action ? (
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">
+            {action === "regenerate"
+              ? "Nhập mã xác thực để tạo mã khôi phục mới. Các mã cũ sẽ không dùng được nữa."
+              : "Nhập mã xác thực để tắt xác thực hai bước."}
+          </p>
+          <TwoFactorCodeForm
+            onSubmit={(code) => (action === "regenerate" ? regenerateMutation.mutate(code) : disableMutation.mutate(code))}
+            isPending={regenerateMutation.isPending || disableMutation.isPending}
+            submitLabel={action === "regenerate" ? "Tạo mã mới" : "Tắt"}
+          />
+          <Button variant="ghost" size="sm" onClick={() => setAction(null)} data-testid="button-cancel-two-factor-action">
+            Hủy
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground" data-testid="text-recovery-codes-remaining">
+            Còn {status.recoveryCodesRemaining} mã khôi phục chưa dùng.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" onClick={() => setAction("regenerate")} data-testid="button-regenerate-recovery-codes">
+              Tạo mã khôi phục mới
+            </Button>
+            {!status.required && (
+              <Button variant="ghost" size="sm" onClick={() => setAction("disable")} data-testid="button-disable-two-factor">
+                Tắt xác thực hai bước
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import type { User } from "@shared/schema";
 import { Link } from "wouter";
+import { avatarImageProps } from "@shared/images";
 
 interface UserProfileCardProps {
   user: User;
@@ -26,7 +27,7 @@ export function UserProfileCard({ user, entryCount = 0 }: UserProfileCardProps)
         <CardContent className="p-6">
           <div className="flex items-center gap-4">
             <Avatar className="h-16 w-16">
-              <AvatarImage src={user.profileImageUrl || undefined} alt={fullName} />
+              <AvatarImage {...avatarImageProps(user.profileImageUrl, 64)} alt={fullName} />
               <AvatarFallback className="text-lg">
                 {getInitials(user.firstName, user.lastName)}
               </AvatarFallback>
@@ -1,19 +1,32 @@
+import { useMemo } from "react";
 import { Card, CardContent, CardFooter, CardHeader } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import type { WikiEntry } from "@shared/schema";
+import type { WikiEntry, WikiEntryDraft, EntryStats, EntryTags, EntryModerationInfo } from "@shared/schema";
 import { formatDistanceToNow } from "date-fns";
 import { vi } from "date-fns/locale";
-import { ImageOff, AlertCircle } from "lucide-react";
+import { ImageOff, AlertCircle, MessageCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { HighlightedText } from "./HighlightedText";
+import { LikeButton } from "./LikeButton";
+import { TagChips } from "./TagChips";
+import type { HighlightPart } from "@shared/search";
+import { markdownToPlainText } from "@shared/markdown";
+import { ResponsiveImage } from "@/components/ResponsiveImage";
+import { currentRejection } from "@/components/EntryDetail";
 
 interface WikiEntryCardProps {
-  entry: WikiEntry;
+  entry: WikiEntry & Partial<EntryStats> & Partial<EntryTags> & EntryModerationInfo & { pendingDraft?: WikiEntryDraft | null };
   onClick?: () => void;
   onReport?: (entryId: string) => void;
+  // Search hit highlighting, shown instead of the plain title/description
+  titleHighlight?: HighlightPart[];
+  snippet?: HighlightPart[];
 }
 
-export function WikiEntryCard({ entry, onClick, onReport }: WikiEntryCardProps) {
+export function WikiEntryCard({ entry, onClick, onReport, titleHighlight, snippet }: WikiEntryCardProps) {
   const { toast } = useToast();
+  const excerpt = useMemo(() => markdownToPlainText(entry.description), [entry.description]);
+  const rejection = currentRejection(entry);
   const getStatusVariant = (status: string) => {
     switch (status) {
       case "approved":
@@ -48,8 +61,9 @@ export function WikiEntryCard({ entry, onClick, onReport }: WikiEntryCardProps)
     >
       <div className="aspect-video w-full overflow-hidden bg-muted">
         {entry.imageUrl ? (
-          <img
+          <ResponsiveImage
             src={entry.imageUrl}
+            sizes="(min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw"
             alt={entry.title}
             className="h-full w-full object-cover"
             data-testid={`img-entry-${entry.id}`}
@@ -63,24 +77,50 @@ export function WikiEntryCard({ entry, onClick, onReport }: WikiEntryCardProps)
       <CardHeader className="space-y-2 p-3 md:p-4">
         <div className="flex items-start justify-between gap-2">
           <h3 className="text-base md:text-lg font-semibold line-clamp-2" data-testid={`text-entry-title-${entry.id}`}>
-            {entry.title}
+            {titleHighlight ? <HighlightedText parts={titleHighlight} /> : entry.title}
           </h3>
           {entry.status !== "approved" && (
             <Badge variant={getStatusVariant(entry.status)} className="text-xs flex-shrink-0" data-testid={`badge-status-${entry.id}`}>
               {getStatusText(entry.status)}
             </Badge>
           )}
+          {entry.status === "approved" && entry.pendingDraft && (
+            <Badge variant="outline" className="text-xs flex-shrink-0" data-testid={`badge-draft-${entry.id}`}>
+              Sửa chờ duyệt
+            </Badge>
+          )}
         </div>
       </CardHeader>
       <CardContent className="px-3 md:px-4 pb-3 md:pb-4">
         <p className="text-xs md:text-sm text-muted-foreground line-clamp-3 font-serif" data-testid={`text-entry-description-${entry.id}`}>
-          {entry.description}
+          {snippet ? <HighlightedText parts={snippet} /> : excerpt}
         </p>
+        {entry.tags && <TagChips tags={entry.tags} className="mt-2" />}
+        {rejection && (
+          <p className="mt-2 flex items-start gap-1 text-xs text-destructive" data-testid={`text-entry-rejection-${entry.id}`}>
+            <AlertCircle className="h-3 w-3 flex-shrink-0 mt-0.5" />
+            <span className="line-clamp-2">
+              {rejection.isDraft ? "Chỉnh sửa bị từ chối" : "Bị từ chối"}
+              {rejection.reason ? `: ${rejection.reason}` : ""}
+            </span>
+          </p>
+        )}
       </CardContent>
-      <CardFooter className="px-3 md:px-4 pb-3 md:pb-4">
+      <CardFooter className="px-3 md:px-4 pb-3 md:pb-4 justify-between gap-2">
         <p className="text-xs text-muted-foreground" data-testid={`text-entry-time-${entry.id}`}>
           {formatDistanceToNow(new Date(entry.createdAt!), { addSuffix: true, locale: vi })}
         </p>
+        <div className="flex items-center gap-1">
+          {entry.likeCount !== undefined && (
+            <LikeButton entryId={entry.id} likeCount={entry.likeCount} likedByMe={!!entry.likedByMe} />
+          )}
+          {entry.commentCount !== undefined && (
+            <span className="flex items-center gap-1 px-2 text-xs text-muted-foreground" data-testid={`text-entry-comments-${entry.id}`}>
+              <MessageCircle className="h-3 w-3" />
+              {entry.commentCount}
+            </span>
+          )}
+        </div>
       </CardFooter>
     </Card>
   );
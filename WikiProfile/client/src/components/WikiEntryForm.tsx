@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -12,7 +13,10 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
-import type { WikiEntry } from "@shared/schema";
+import { MAX_TAGS_PER_ENTRY, type WikiEntry, type EntryTags } from "@shared/schema";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { TagInput } from "./TagInput";
+import { Markdown } from "./Markdown";
 import { useState } from "react";
 import { Upload, X, Image as ImageIcon, Lock } from "lucide-react";
 
@@ -21,12 +25,13 @@ const formSchema = z.object({
   description: z.string().min(10, "Mô tả phải có ít nhất 10 ký tự"),
   imageUrl: z.string().optional(),
   isSpecial: z.boolean().optional(),
+  tags: z.array(z.string()).max(MAX_TAGS_PER_ENTRY, `Tối đa ${MAX_TAGS_PER_ENTRY} thẻ`),
 });
 
 type FormData = z.infer<typeof formSchema>;
 
 interface WikiEntryFormProps {
-  entry?: WikiEntry;
+  entry?: WikiEntry & Partial<EntryTags>;
   onSubmit: (data: FormData) => void;
   onCancel: () => void;
   isSubmitting?: boolean;
@@ -43,6 +48,7 @@ export function WikiEntryForm({ entry, onSubmit, onCancel, isSubmitting }: WikiE
       description: entry?.description || "",
       imageUrl: entry?.imageUrl || "",
       isSpecial: entry?.isSpecial || false,
+      tags: entry?.tags?.map((tag) => tag.name) ?? [],
     },
   });
 
@@ -132,6 +138,9 @@ export function WikiEntryForm({ entry, onSubmit, onCancel, isSubmitting }: WikiE
                     </Button>
                   </div>
                 </FormControl>
+                <FormDescription>
+                  Hình ảnh từ trang khác được tải về và lưu trên máy chủ khi bạn lưu entry
+                </FormDescription>
               </div>
               <FormMessage />
             </FormItem>
@@ -144,13 +153,51 @@ export function WikiEntryForm({ entry, onSubmit, onCancel, isSubmitting }: WikiE
           render={({ field }) => (
             <FormItem>
               <FormLabel>Mô tả</FormLabel>
+              <Tabs defaultValue="write">
+                <TabsList className="h-8">
+                  <TabsTrigger value="write" className="text-xs" data-testid="tab-description-write">
+                    Viết
+                  </TabsTrigger>
+                  <TabsTrigger value="preview" className="text-xs" data-testid="tab-description-preview">
+                    Xem trước
+                  </TabsTrigger>
+                </TabsList>
+                <TabsContent value="write">
+                  <FormControl>
+                    <Textarea
+                      placeholder="Viết mô tả chi tiết cho entry của bạn..."
+                      className="min-h-[200px] resize-none font-serif"
+                      {...field}
+                      data-testid="textarea-entry-description"
+                    />
+                  </FormControl>
+                </TabsContent>
+                <TabsContent value="preview">
+                  <div className="min-h-[200px] rounded-md border px-3 py-2" data-testid="preview-entry-description">
+                    {field.value.trim() ? (
+                      <Markdown source={field.value} className="prose prose-sm max-w-none font-serif" />
+                    ) : (
+                      <p className="text-sm text-muted-foreground">Chưa có nội dung để xem trước</p>
+                    )}
+                  </div>
+                </TabsContent>
+              </Tabs>
+              <FormDescription className="text-xs">
+                Hỗ trợ Markdown: **đậm**, *nghiêng*, `mã`, [liên kết](https://...), [[Tên entry]], # tiêu đề, - danh sách, &gt; trích dẫn
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="tags"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Thẻ</FormLabel>
               <FormControl>
-                <Textarea
-                  placeholder="Viết mô tả chi tiết cho entry của bạn..."
-                  className="min-h-[200px] resize-none font-serif"
-                  {...field}
-                  data-testid="textarea-entry-description"
-                />
+                <TagInput value={field.value} onChange={field.onChange} />
               </FormControl>
               <FormMessage />
             </FormItem>
@@ -0,0 +1,36 @@
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { Paginated } from "@shared/schema";
+
+// Cursor-paginated list endpoint. Like the default query function, the URL is
+// the path segments joined with "/"; params go last in the query key so
+// invalidating the path refreshes every filtered variant of the list.
+export function useInfiniteList<T>(
+  path: string[],
+  params: Record<string, string | undefined> = {},
+  options: { enabled?: boolean; limit?: number; staleTime?: number } = {},
+) {
+  const query = useInfiniteQuery({
+    queryKey: [...path, params],
+    queryFn: async ({ pageParam }) => {
+      const search = new URLSearchParams();
+      for (const [key, value] of Object.entries(params)) {
+        if (value !== undefined) search.set(key, value);
+      }
+      if (options.limit) search.set("limit", String(options.limit));
+      if (pageParam) search.set("cursor", pageParam);
+
+      const res = await apiRequest("GET", `${path.join("/")}?${search}`);
+      return (await res.json()) as Paginated<T>;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: options.enabled,
+    staleTime: options.staleTime,
+  });
+
+  return {
+    ...query,
+    items: query.data?.pages.flatMap((page) => page.items) ?? [],
+  };
+}
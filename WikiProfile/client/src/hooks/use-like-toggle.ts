@@ -0,0 +1,81 @@
+import { useMutation, type InfiniteData, type Query } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import type { EntryStats, Like } from "@shared/schema";
+
+// Paged lists whose entry cards carry likeCount/likedByMe
+const ENTRY_LIST_ROOTS = ["/api/entries/approved", "/api/search", "/api/profile", "/api/tags"];
+
+type EntryLike = { id: string } & Partial<EntryStats>;
+
+function isEntryList(query: Query) {
+  return ENTRY_LIST_ROOTS.includes(query.queryKey[0] as string);
+}
+
+function patchEntryPages(data: unknown, entryId: string, liked: boolean): unknown {
+  if (!data || typeof data !== "object" || !("pages" in data)) return data;
+
+  const infinite = data as InfiniteData<{ items: EntryLike[] }>;
+  return {
+    ...infinite,
+    pages: infinite.pages.map((page) => ({
+      ...page,
+      items: page.items.map((item) =>
+        item.id === entryId && item.likeCount !== undefined && item.likedByMe !== liked
+          ? { ...item, likedByMe: liked, likeCount: item.likeCount + (liked ? 1 : -1) }
+          : item,
+      ),
+    })),
+  };
+}
+
+// Likes of a single entry, as shown in the detail dialog
+function patchLikeList(likes: Like[], entryId: string, liked: boolean, userId: string): Like[] {
+  const hasLike = likes.some((like) => like.userId === userId);
+  if (liked === hasLike) return likes;
+  return liked
+    ? [{ id: `optimistic-${userId}`, entryId, userId, createdAt: new Date() }, ...likes]
+    : likes.filter((like) => like.userId !== userId);
+}
+
+// Like/unlike an entry, updating every cached list that shows it before the
+// request completes and rolling back if it fails
+export function useLikeToggle(entryId: string) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const likesKey = ["/api/entries", entryId, "likes"];
+
+  return useMutation({
+    mutationFn: async (liked: boolean) => {
+      return liked
+        ? await apiRequest("POST", "/api/likes", { entryId })
+        : await apiRequest("DELETE", `/api/likes/${entryId}`);
+    },
+    onMutate: async (liked: boolean) => {
+      await queryClient.cancelQueries({ predicate: isEntryList });
+      await queryClient.cancelQueries({ queryKey: likesKey });
+      const snapshot = [
+        ...queryClient.getQueriesData<unknown>({ predicate: isEntryList }),
+        ...queryClient.getQueriesData<unknown>({ queryKey: likesKey }),
+      ];
+
+      if (user) {
+        queryClient.setQueriesData<unknown>({ predicate: isEntryList }, (data: unknown) => patchEntryPages(data, entryId, liked));
+        queryClient.setQueryData<Like[]>(likesKey, (likes) => likes && patchLikeList(likes, entryId, liked, user.id));
+      }
+      return { snapshot };
+    },
+    onError: (_error, _liked, context) => {
+      context?.snapshot.forEach(([key, data]) => queryClient.setQueryData<unknown>(key, data));
+      toast({
+        title: "Lỗi",
+        description: "Không thể cập nhật lượt thích",
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: likesKey });
+    },
+  });
+}
@@ -0,0 +1,95 @@
+import { useEffect } from "react";
+import type { QueryKey } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { REALTIME_PATH, type RealtimeEvent } from "@shared/realtime";
+
+const MAX_RECONNECT_DELAY_MS = 30_000;
+
+// Queries to refetch for each event. Keys are prefixes, so every filtered
+// variant and page of a list is refreshed.
+function affectedQueries(event: RealtimeEvent): QueryKey[] {
+  switch (event.type) {
+    case "entry.changed":
+      return [
+        ["/api/admin/entries"],
+        ["/api/entries", event.entryId],
+        ["/api/entries/approved"],
+        ["/api/profile"],
+        ["/api/tags"],
+      ];
+    case "report.changed":
+      return [["/api/admin/reports"]];
+    case "user.changed":
+      return [["/api/admin/users"], ["/api/auth/user"], ["/api/auth/2fa"]];
+    case "notification.created":
+      return [["/api/notifications"], ["/api/notifications/unread-count"]];
+  }
+}
+
+// Everything an event can touch; refetched after reconnecting, since events
+// sent while disconnected are lost
+const RECONNECT_QUERIES: QueryKey[] = [
+  ["/api/admin/entries"],
+  ["/api/entries"],
+  ["/api/entries/approved"],
+  ["/api/profile"],
+  ["/api/tags"],
+  ["/api/admin/reports"],
+  ["/api/admin/users"],
+  ["/api/auth/user"],
+  ["/api/auth/2fa"],
+  ["/api/notifications"],
+  ["/api/notifications/unread-count"],
+];
+
+function invalidate(keys: QueryKey[]) {
+  for (const queryKey of keys) {
+    queryClient.invalidateQueries({ queryKey });
+  }
+}
+
+// Keeps a WebSocket open while signed in and refetches the queries each
+// pushed event affects. Reconnects with backoff when the connection drops.
+export function useRealtime(enabled: boolean) {
+  useEffect(() => {
+    if (!enabled) return;
+
+    let socket: WebSocket | undefined;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    let stopped = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}${REALTIME_PATH}`);
+
+      socket.onopen = () => {
+        if (attempts > 0) {
+          invalidate(RECONNECT_QUERIES);
+        }
+        attempts = 0;
+      };
+      socket.onmessage = (message) => {
+        try {
+          invalidate(affectedQueries(JSON.parse(message.data) as RealtimeEvent));
+        } catch (error) {
+          console.error("Invalid realtime event:", error);
+        }
+      };
+      socket.onclose = (event) => {
+        // 4001: signed out, or the account was deleted
+        if (stopped || event.code === 4001) return;
+        const delay = Math.min(1000 * 2 ** attempts, MAX_RECONNECT_DELAY_MS);
+        attempts++;
+        retryTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+    return () => {
+      stopped = true;
+      clearTimeout(retryTimer);
+      socket?.close();
+    };
+  }, [enabled]);
+}
@@ -1,5 +1,6 @@
 import { useQuery } from "@tanstack/react-query";
 import type { User } from "@shared/schema";
+import { hasPermission, type Permission } from "@shared/permissions";
 
 export function useAuth() {
   const { data: user, isLoading } = useQuery<User | null>({
@@ -11,5 +12,7 @@ export function useAuth() {
     user: user || undefined,
     isLoading,
     isAuthenticated: !!user,
+    // Only for hiding controls; the server checks the same matrix
+    can: (permission: Permission) => hasPermission(user, permission),
   };
 }
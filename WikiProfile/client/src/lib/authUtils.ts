@@ -1,3 +1,15 @@
 export function isUnauthorizedError(error: Error): boolean {
   return /^401: .*Unauthorized/.test(error.message);
 }
+
+// Error codes the provider login callback redirects back with
+const LOGIN_ERROR_MESSAGES: Record<string, string> = {
+  email_in_use: "Email này đã thuộc về một tài khoản khác. Hãy đăng nhập vào tài khoản đó rồi liên kết từ trang cá nhân.",
+  identity_in_use: "Tài khoản này đã được liên kết với một người dùng khác",
+  unknown_provider: "Phương thức đăng nhập không tồn tại",
+  login_failed: "Đăng nhập thất bại, vui lòng thử lại",
+};
+
+export function loginErrorMessage(code: string): string {
+  return LOGIN_ERROR_MESSAGES[code] ?? LOGIN_ERROR_MESSAGES.login_failed;
+}
@@ -0,0 +1,69 @@
+export type DiffPart = {
+  type: "equal" | "added" | "removed";
+  text: string;
+};
+
+// Above this many LCS cells the diff is reported as a full replacement
+// instead of tying up the browser on very long descriptions.
+const MAX_DIFF_CELLS = 4_000_000;
+
+// Split into words while keeping the whitespace, so joining the parts
+// gives back the original text (line breaks included).
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter((token) => token.length > 0);
+}
+
+function pushPart(parts: DiffPart[], type: DiffPart["type"], text: string) {
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    parts.push({ type, text });
+  }
+}
+
+// Word-level diff (longest common subsequence) between two versions of a text
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    const parts: DiffPart[] = [];
+    if (before) parts.push({ type: "removed", text: before });
+    if (after) parts.push({ type: "added", text: after });
+    return parts;
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..], stored row-major
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        a[i] === b[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushPart(parts, "equal", a[i]);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      pushPart(parts, "removed", a[i]);
+      i++;
+    } else {
+      pushPart(parts, "added", b[j]);
+      j++;
+    }
+  }
+  for (; i < a.length; i++) pushPart(parts, "removed", a[i]);
+  for (; j < b.length; j++) pushPart(parts, "added", b[j]);
+
+  return parts;
+}
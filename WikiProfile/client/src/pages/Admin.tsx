@@ -10,11 +10,23 @@ import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { WikiEntry, User } from "@shared/schema";
-import { Loader2, CheckCircle, XCircle, ImageOff, MessageCircle, Ban, Trash2, Shield } from "lucide-react";
+import type { WikiEntryWithDraft, User, ClaimInfo, TwoFactorStatus } from "@shared/schema";
+import { Loader2, CheckCircle, XCircle, ImageOff, MessageCircle, Ban, Trash2, Shield, KeyRound } from "lucide-react";
 import { formatDistanceToNow, isPast } from "date-fns";
 import { vi } from "date-fns/locale";
 import { EntryDetailDialog } from "@/components/EntryDetailDialog";
+import { DiffView } from "@/components/DiffView";
+import { LoadMore } from "@/components/LoadMore";
+import { TagManager } from "@/components/TagManager";
+import { BrokenImageReport } from "@/components/BrokenImageReport";
+import { AuditLog } from "@/components/AuditLog";
+import { ReportTriage } from "@/components/ReportTriage";
+import { TwoFactorGate } from "@/components/TwoFactorSettings";
+import { LoginLockouts } from "@/components/LoginLockouts";
+import { ClaimControl, activeClaim, claimHolderName, isClaimConflictError, isClaimedByOther } from "@/components/ClaimControl";
+import { useInfiniteList } from "@/hooks/use-infinite-list";
+import { markdownToPlainText } from "@shared/markdown";
+import { canManageUser } from "@shared/permissions";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -28,33 +40,64 @@ import {
 import {
   Textarea,
 } from "@/components/ui/textarea";
+import { avatarImageProps } from "@shared/images";
+import { ResponsiveImage } from "@/components/ResponsiveImage";
 
-type EntryWithUser = WikiEntry & { user: User };
+type EntryWithUser = WikiEntryWithDraft & { user: User } & ClaimInfo;
+
+type EntryCounts = {
+  total: number;
+  pending: number;
+  approved: number;
+  rejected: number;
+  drafts: number;
+};
 
 export default function Admin() {
-  const { user: currentUser, isLoading: authLoading } = useAuth();
+  const { user: currentUser, isLoading: authLoading, can } = useAuth();
+  const canModerate = can("entries.moderate");
   const { toast } = useToast();
   const [selectedTab, setSelectedTab] = useState("entries");
   const [selectedEntry, setSelectedEntry] = useState<EntryWithUser | null>(null);
   const [detailDialogOpen, setDetailDialogOpen] = useState(false);
   const [actionDialogOpen, setActionDialogOpen] = useState(false);
-  const [actionType, setActionType] = useState<"approve" | "reject" | "delete" | "ban" | "unban" | "deleteUser" | null>(null);
+  const [actionType, setActionType] = useState<"approve" | "reject" | "delete" | "approveDraft" | "rejectDraft" | "ban" | "unban" | "deleteUser" | "reset2fa" | null>(null);
   const [entryToAction, setEntryToAction] = useState<EntryWithUser | null>(null);
   const [userToAction, setUserToAction] = useState<User | null>(null);
   const [rejectReason, setRejectReason] = useState("");
   const [banReason, setBanReason] = useState("");
   const [banHours, setBanHours] = useState(24);
 
-  const { data: entries, isLoading: entriesLoading } = useQuery<EntryWithUser[]>({
-    queryKey: ["/api/admin/entries"],
+  // Admin routes answer 403 until staff have 2FA on and verified in this session
+  const { data: twoFactor, isLoading: twoFactorLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/auth/2fa"],
+    enabled: canModerate,
   });
+  const twoFactorPassed = !!twoFactor && (!twoFactor.required || (twoFactor.enabled && twoFactor.verified));
+  const adminReady = canModerate && twoFactorPassed;
+
+  // Each tab pages through its own server-side filtered list
+  const entryFilter: Record<string, string | undefined> =
+    selectedTab === "drafts" ? { hasDraft: "true" }
+    : ["pending", "approved", "rejected"].includes(selectedTab) ? { status: selectedTab }
+    : {};
 
-  const { data: users, isLoading: usersLoading } = useQuery<User[]>({
-    queryKey: ["/api/admin/users"],
+  const entryList = useInfiniteList<EntryWithUser>(["/api/admin/entries"], entryFilter, {
+    enabled: adminReady && !["users", "tags", "images", "audit", "reports", "lockouts"].includes(selectedTab),
+  });
+
+  const userList = useInfiniteList<User>(["/api/admin/users"], {}, {
+    enabled: adminReady && can("users.view") && selectedTab === "users",
+  });
+
+  // Nested under the entries key so entry invalidations refresh the counts too
+  const { data: counts } = useQuery<EntryCounts>({
+    queryKey: ["/api/admin/entries", "counts"],
+    enabled: adminReady,
   });
 
   useEffect(() => {
-    if (!authLoading && currentUser && !currentUser.isAdmin) {
+    if (!authLoading && currentUser && !canModerate) {
       toast({
         title: "Không được phép",
         description: "Bạn không có quyền truy cập trang này",
@@ -64,14 +107,16 @@ export default function Admin() {
         window.location.href = "/";
       }, 500);
     }
-  }, [authLoading, currentUser, toast]);
+  }, [authLoading, currentUser, canModerate, toast]);
 
   const moderateMutation = useMutation({
-    mutationFn: async ({ id, status }: { id: string; status: string }) => {
-      return await apiRequest("PATCH", `/api/admin/entries/${id}/moderate`, { status, reason: rejectReason });
+    mutationFn: async ({ id, status, force }: { id: string; status: string; force: boolean }) => {
+      return await apiRequest("PATCH", `/api/admin/entries/${id}/moderate`, { status, reason: rejectReason, force });
     },
-    onSuccess: () => {
+    onSuccess: (_res, { id }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/entries"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/entries", id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/wiki-links"] });
       setActionDialogOpen(false);
       setEntryToAction(null);
       setActionType(null);
@@ -93,9 +138,48 @@ export default function Admin() {
         }, 500);
         return;
       }
+      if (isClaimConflictError(error)) {
+        queryClient.invalidateQueries({ queryKey: ["/api/admin/entries"] });
+        setActionDialogOpen(false);
+      }
       toast({
         title: "Lỗi",
-        description: "Không thể cập nhật trạng thái",
+        description: isClaimConflictError(error)
+          ? "Entry vừa được moderator khác nhận xem xét"
+          : "Không thể cập nhật trạng thái",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const moderateDraftMutation = useMutation({
+    mutationFn: async ({ id, status, force }: { id: string; status: string; force: boolean }) => {
+      return await apiRequest("PATCH", `/api/admin/entries/${id}/draft/moderate`, { status, reason: rejectReason, force });
+    },
+    onSuccess: (_res, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/entries"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/entries/approved"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/entries", id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/wiki-links"] });
+      setActionDialogOpen(false);
+      setEntryToAction(null);
+      setActionType(null);
+      setRejectReason("");
+      toast({
+        title: "Thành công",
+        description: "Đã xử lý bản chỉnh sửa",
+      });
+    },
+    onError: (error) => {
+      if (isClaimConflictError(error)) {
+        queryClient.invalidateQueries({ queryKey: ["/api/admin/entries"] });
+        setActionDialogOpen(false);
+      }
+      toast({
+        title: "Lỗi",
+        description: isClaimConflictError(error)
+          ? "Entry vừa được moderator khác nhận xem xét"
+          : "Không thể xử lý bản chỉnh sửa",
         variant: "destructive",
       });
     },
@@ -107,6 +191,7 @@ export default function Admin() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/entries"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/wiki-links"] });
       setActionDialogOpen(false);
       setEntryToAction(null);
       setActionType(null);
@@ -206,14 +291,37 @@ export default function Admin() {
     },
   });
 
-  const handleAction = (entry: EntryWithUser, type: "approve" | "reject" | "delete") => {
+  const handleAction = (entry: EntryWithUser, type: "approve" | "reject" | "delete" | "approveDraft" | "rejectDraft") => {
     setEntryToAction(entry);
     setActionType(type);
     setRejectReason("");
     setActionDialogOpen(true);
   };
 
-  const handleUserAction = (user: User, type: "ban" | "unban" | "deleteUser") => {
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      return await apiRequest("DELETE", `/api/admin/users/${userId}/2fa`, {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      setActionDialogOpen(false);
+      setUserToAction(null);
+      setActionType(null);
+      toast({
+        title: "Thành công",
+        description: "Đã đặt lại xác thực hai bước",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Lỗi",
+        description: "Không thể đặt lại xác thực hai bước",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleUserAction = (user: User, type: "ban" | "unban" | "deleteUser" | "reset2fa") => {
     setUserToAction(user);
     setActionType(type);
     setBanReason("");
@@ -222,7 +330,7 @@ export default function Admin() {
   };
 
   const handleConfirmAction = () => {
-    if (actionType?.includes("ban") || actionType === "deleteUser") {
+    if (actionType?.includes("ban") || actionType === "deleteUser" || actionType === "reset2fa") {
       if (!userToAction) return;
       if (actionType === "ban") {
         banUserMutation.mutate({ userId: userToAction.id, reason: banReason, hours: banHours });
@@ -230,14 +338,21 @@ export default function Admin() {
         unbanUserMutation.mutate(userToAction.id);
       } else if (actionType === "deleteUser") {
         deleteUserMutation.mutate(userToAction.id);
+      } else if (actionType === "reset2fa") {
+        resetTwoFactorMutation.mutate(userToAction.id);
       }
     } else {
       if (!entryToAction || !actionType) return;
+      // The dialog warned about the other moderator's claim; confirming overrides it
+      const force = isClaimedByOther(entryToAction.claim, currentUser?.id);
       if (actionType === "delete") {
         deleteMutation.mutate(entryToAction.id);
+      } else if (actionType === "approveDraft" || actionType === "rejectDraft") {
+        const status = actionType === "approveDraft" ? "approved" : "rejected";
+        moderateDraftMutation.mutate({ id: entryToAction.id, status, force });
       } else {
         const status = actionType === "approve" ? "approved" : "rejected";
-        moderateMutation.mutate({ id: entryToAction.id, status });
+        moderateMutation.mutate({ id: entryToAction.id, status, force });
       }
     }
   };
@@ -278,7 +393,7 @@ export default function Admin() {
     return text.substring(0, length) + "...";
   };
 
-  if (authLoading) {
+  if (authLoading || (canModerate && twoFactorLoading)) {
     return (
       <div className="min-h-screen bg-background">
         <Header />
@@ -289,23 +404,26 @@ export default function Admin() {
     );
   }
 
-  if (!currentUser?.isAdmin) {
+  if (!currentUser || !canModerate) {
     return null;
   }
 
-  const filteredEntries = entries?.filter((entry) => {
-    if (selectedTab === "all") return true;
-    return entry.status === selectedTab;
-  }) || [];
-
-  const pendingCount = entries?.filter((e) => e.status === "pending").length || 0;
-  const approvedCount = entries?.filter((e) => e.status === "approved").length || 0;
-  const rejectedCount = entries?.filter((e) => e.status === "rejected").length || 0;
+  if (twoFactor && !twoFactorPassed) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <main className="container mx-auto px-4 py-12">
+          <TwoFactorGate status={twoFactor} />
+        </main>
+      </div>
+    );
+  }
 
-  const filteredUsers = users?.filter((user) => {
-    if (selectedTab === "users") return true;
-    return false;
-  }) || [];
+  const filteredEntries = entryList.items;
+  const draftEntries = entryList.items;
+  const entriesLoading = entryList.isLoading;
+  const filteredUsers = userList.items;
+  const usersLoading = userList.isLoading;
 
   return (
     <div className="min-h-screen bg-background">
@@ -325,22 +443,72 @@ export default function Admin() {
           <Tabs value={selectedTab} onValueChange={setSelectedTab} className="space-y-6">
             <TabsList data-testid="tabs-filter">
               <TabsTrigger value="entries" data-testid="tab-entries">
-                Entries ({entries?.length || 0})
+                Entries ({counts?.total ?? 0})
               </TabsTrigger>
               <TabsTrigger value="pending" data-testid="tab-pending">
-                Chờ duyệt ({pendingCount})
+                Chờ duyệt ({counts?.pending ?? 0})
               </TabsTrigger>
               <TabsTrigger value="approved" data-testid="tab-approved">
-                Đã duyệt ({approvedCount})
+                Đã duyệt ({counts?.approved ?? 0})
               </TabsTrigger>
               <TabsTrigger value="rejected" data-testid="tab-rejected">
-                Đã từ chối ({rejectedCount})
+                Đã từ chối ({counts?.rejected ?? 0})
               </TabsTrigger>
-              <TabsTrigger value="users" data-testid="tab-users">
-                Quản lý users ({users?.length || 0})
+              <TabsTrigger value="drafts" data-testid="tab-drafts">
+                Chỉnh sửa chờ duyệt ({counts?.drafts ?? 0})
               </TabsTrigger>
+              {can("reports.resolve") && (
+                <TabsTrigger value="reports" data-testid="tab-reports">
+                  Báo cáo
+                </TabsTrigger>
+              )}
+              {can("tags.manage") && (
+                <TabsTrigger value="tags" data-testid="tab-tags">
+                  Thẻ
+                </TabsTrigger>
+              )}
+              {can("users.view") && (
+                <TabsTrigger value="users" data-testid="tab-users">
+                  Quản lý users
+                </TabsTrigger>
+              )}
+              {can("images.manage") && (
+                <TabsTrigger value="images" data-testid="tab-images">
+                  Hình ảnh lỗi
+                </TabsTrigger>
+              )}
+              {can("audit.view") && (
+                <TabsTrigger value="audit" data-testid="tab-audit">
+                  Audit
+                </TabsTrigger>
+              )}
+              {can("lockouts.manage") && (
+                <TabsTrigger value="lockouts" data-testid="tab-lockouts">
+                  Khóa đăng nhập
+                </TabsTrigger>
+              )}
             </TabsList>
 
+            <TabsContent value="reports" className="space-y-4">
+              <ReportTriage />
+            </TabsContent>
+
+            <TabsContent value="tags" className="space-y-4">
+              <TagManager />
+            </TabsContent>
+
+            <TabsContent value="images" className="space-y-4">
+              <BrokenImageReport />
+            </TabsContent>
+
+            <TabsContent value="audit" className="space-y-4">
+              <AuditLog />
+            </TabsContent>
+
+            <TabsContent value="lockouts" className="space-y-4">
+              <LoginLockouts />
+            </TabsContent>
+
             <TabsContent value="users" className="space-y-4">
               {usersLoading ? (
                 <div className="flex items-center justify-center py-12">
@@ -364,7 +532,7 @@ export default function Admin() {
                         {/* User info on left */}
                         <div className="flex gap-3 items-center flex-1">
                           <Avatar className="h-10 w-10">
-                            <AvatarImage src={user.profileImageUrl || undefined} />
+                            <AvatarImage {...avatarImageProps(user.profileImageUrl, 40)} />
                             <AvatarFallback className="text-xs">
                               {getInitials(user.firstName, user.lastName)}
                             </AvatarFallback>
@@ -396,47 +564,154 @@ export default function Admin() {
                           </div>
                         </div>
 
-                        {/* Action buttons on right */}
-                        <div className="flex gap-2">
-                          {user.isBanned ? (
-                            <Button
-                              size="sm"
-                              variant="outline"
-                              onClick={() => handleUserAction(user, "unban")}
-                              data-testid={`button-unban-${user.id}`}
-                            >
-                              <Shield className="h-4 w-4 mr-1" />
-                              Unban
-                            </Button>
-                          ) : (
-                            <Button
-                              size="sm"
-                              variant="outline"
-                              onClick={() => handleUserAction(user, "ban")}
-                              data-testid={`button-ban-${user.id}`}
-                            >
-                              <Ban className="h-4 w-4 mr-1" />
-                              Ban
-                            </Button>
-                          )}
+                        {/* Action buttons on right; moderators only act on regular users */}
+                        {canManageUser(currentUser, user) && (
+                          <div className="flex gap-2">
+                            {can("users.ban") && (user.isBanned ? (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleUserAction(user, "unban")}
+                                data-testid={`button-unban-${user.id}`}
+                              >
+                                <Shield className="h-4 w-4 mr-1" />
+                                Unban
+                              </Button>
+                            ) : (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleUserAction(user, "ban")}
+                                data-testid={`button-ban-${user.id}`}
+                              >
+                                <Ban className="h-4 w-4 mr-1" />
+                                Ban
+                              </Button>
+                            ))}
+                            {can("users.reset_2fa") && user.twoFactorEnabledAt && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleUserAction(user, "reset2fa")}
+                                data-testid={`button-reset-2fa-${user.id}`}
+                              >
+                                <KeyRound className="h-4 w-4 mr-1" />
+                                Đặt lại 2FA
+                              </Button>
+                            )}
+                            {can("users.delete") && (
+                              <Button
+                                size="sm"
+                                variant="destructive"
+                                onClick={() => handleUserAction(user, "deleteUser")}
+                                data-testid={`button-delete-user-${user.id}`}
+                              >
+                                <Trash2 className="h-4 w-4 mr-1" />
+                                Xóa
+                              </Button>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <LoadMore
+                hasNextPage={userList.hasNextPage}
+                isFetchingNextPage={userList.isFetchingNextPage}
+                fetchNextPage={userList.fetchNextPage}
+              />
+            </TabsContent>
+
+            <TabsContent value="drafts" className="space-y-4">
+              {entriesLoading ? (
+                <div className="flex items-center justify-center py-12">
+                  <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+                </div>
+              ) : draftEntries.length === 0 ? (
+                <div className="text-center py-12 border rounded-lg bg-card">
+                  <p className="text-lg text-muted-foreground" data-testid="text-no-drafts">
+                    Không có bản chỉnh sửa nào chờ duyệt
+                  </p>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {draftEntries.map((entry) => (
+                    <div
+                      key={entry.id}
+                      data-testid={`card-draft-${entry.id}`}
+                      className="border rounded-lg p-4 bg-card space-y-3"
+                    >
+                      <div className="flex items-start justify-between gap-4">
+                        <div className="flex items-center gap-2">
+                          <Avatar className="h-8 w-8">
+                            <AvatarImage {...avatarImageProps(entry.user.profileImageUrl, 32)} />
+                            <AvatarFallback className="text-xs">
+                              {getInitials(entry.user.firstName, entry.user.lastName)}
+                            </AvatarFallback>
+                          </Avatar>
+                          <div>
+                            <p className="font-semibold text-sm">
+                              {`${entry.user.firstName || ""} ${entry.user.lastName || ""}`.trim() || "Người dùng"}
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              Sửa {formatDistanceToNow(new Date(entry.pendingDraft!.updatedAt!), { addSuffix: true, locale: vi })}
+                            </p>
+                          </div>
+                        </div>
+                        <div className="flex gap-2 flex-wrap justify-end items-center">
+                          <ClaimControl targetType="entry" targetId={entry.id} claim={entry.claim} currentUserId={currentUser.id} />
+                          <Button
+                            size="sm"
+                            onClick={() => handleAction(entry, "approveDraft")}
+                            data-testid={`button-approve-draft-${entry.id}`}
+                          >
+                            <CheckCircle className="h-4 w-4 mr-1" />
+                            Duyệt
+                          </Button>
                           <Button
                             size="sm"
-                            variant="destructive"
-                            onClick={() => handleUserAction(user, "deleteUser")}
-                            data-testid={`button-delete-user-${user.id}`}
+                            variant="outline"
+                            onClick={() => handleAction(entry, "rejectDraft")}
+                            data-testid={`button-reject-draft-${entry.id}`}
                           >
-                            <Trash2 className="h-4 w-4 mr-1" />
-                            Xóa
+                            <XCircle className="h-4 w-4 mr-1" />
+                            Từ chối
                           </Button>
                         </div>
                       </div>
+
+                      <DiffView before={entry.title} after={entry.pendingDraft!.title} className="font-semibold" />
+                      {entry.imageUrl !== entry.pendingDraft!.imageUrl && (
+                        <div className="flex gap-2 items-center text-xs text-muted-foreground">
+                          <span>Hình ảnh:</span>
+                          {entry.imageUrl ? (
+                            <ResponsiveImage src={entry.imageUrl} sizes="48px" fallback="thumb" alt="Hiện tại" className="h-12 w-12 rounded object-cover opacity-60" />
+                          ) : (
+                            <span>không có</span>
+                          )}
+                          <span>→</span>
+                          {entry.pendingDraft!.imageUrl ? (
+                            <ResponsiveImage src={entry.pendingDraft!.imageUrl} sizes="48px" fallback="thumb" alt="Đề xuất" className="h-12 w-12 rounded object-cover" />
+                          ) : (
+                            <span>không có</span>
+                          )}
+                        </div>
+                      )}
+                      <DiffView before={entry.description} after={entry.pendingDraft!.description} />
                     </div>
                   ))}
                 </div>
               )}
+              <LoadMore
+                hasNextPage={entryList.hasNextPage}
+                isFetchingNextPage={entryList.isFetchingNextPage}
+                fetchNextPage={entryList.fetchNextPage}
+              />
             </TabsContent>
 
-            <TabsContent value={selectedTab !== "users" ? selectedTab : "pending"} className="space-y-4">
+            <TabsContent value={!["users", "drafts", "tags", "images", "audit", "reports", "lockouts"].includes(selectedTab) ? selectedTab : "pending"} className="space-y-4">
               {entriesLoading ? (
                 <div className="flex items-center justify-center py-12">
                   <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
@@ -459,8 +734,10 @@ export default function Admin() {
                         {/* Image on left */}
                         <div className="h-32 w-32 rounded-md overflow-hidden bg-muted flex-shrink-0">
                           {entry.imageUrl ? (
-                            <img
+                            <ResponsiveImage
                               src={entry.imageUrl}
+                              sizes="128px"
+                              fallback="thumb"
                               alt={entry.title}
                               className="h-full w-full object-cover"
                               data-testid={`img-entry-${entry.id}`}
@@ -478,7 +755,7 @@ export default function Admin() {
                             {/* Username and avatar */}
                             <div className="flex items-center gap-2">
                               <Avatar className="h-8 w-8">
-                                <AvatarImage src={entry.user.profileImageUrl || undefined} />
+                                <AvatarImage {...avatarImageProps(entry.user.profileImageUrl, 32)} />
                                 <AvatarFallback className="text-xs">
                                   {getInitials(entry.user.firstName, entry.user.lastName)}
                                 </AvatarFallback>
@@ -500,14 +777,19 @@ export default function Admin() {
 
                             {/* Truncated content */}
                             <p className="text-sm text-muted-foreground line-clamp-2" data-testid={`text-content-${entry.id}`}>
-                              {truncateText(entry.description, 120)}
+                              {truncateText(markdownToPlainText(entry.description), 120)}
                             </p>
                           </div>
 
-                          {/* Status badge at bottom left */}
-                          <Badge variant={getStatusVariant(entry.status)} className="w-fit" data-testid={`badge-status-${entry.id}`}>
-                            {getStatusText(entry.status)}
-                          </Badge>
+                          {/* Status badge (and review claim for pending entries) at bottom left */}
+                          <div className="flex flex-wrap items-center gap-2">
+                            <Badge variant={getStatusVariant(entry.status)} className="w-fit" data-testid={`badge-status-${entry.id}`}>
+                              {getStatusText(entry.status)}
+                            </Badge>
+                            {entry.status === "pending" && (
+                              <ClaimControl targetType="entry" targetId={entry.id} claim={entry.claim} currentUserId={currentUser.id} />
+                            )}
+                          </div>
                         </div>
 
                         {/* Action buttons on right */}
@@ -552,6 +834,11 @@ export default function Admin() {
                   ))}
                 </div>
               )}
+              <LoadMore
+                hasNextPage={entryList.hasNextPage}
+                isFetchingNextPage={entryList.isFetchingNextPage}
+                fetchNextPage={entryList.fetchNextPage}
+              />
             </TabsContent>
           </Tabs>
         </div>
@@ -573,21 +860,34 @@ export default function Admin() {
               {actionType === "approve" && "Phê duyệt entry"}
               {actionType === "reject" && "Từ chối entry"}
               {actionType === "delete" && "Xóa entry"}
+              {actionType === "approveDraft" && "Duyệt bản chỉnh sửa"}
+              {actionType === "rejectDraft" && "Từ chối bản chỉnh sửa"}
               {actionType === "ban" && "Ban user"}
               {actionType === "unban" && "Unban user"}
               {actionType === "deleteUser" && "Xóa user"}
+              {actionType === "reset2fa" && "Đặt lại xác thực hai bước"}
             </AlertDialogTitle>
             <AlertDialogDescription>
               {actionType === "approve" && `Bạn có chắc chắn muốn phê duyệt entry "${entryToAction?.title}"?`}
               {actionType === "reject" && `Bạn có chắc chắn muốn từ chối entry "${entryToAction?.title}"?`}
               {actionType === "delete" && `Bạn có chắc chắn muốn xóa entry "${entryToAction?.title}"? Hành động này không thể hoàn tác.`}
+              {actionType === "approveDraft" && `Thay thế phiên bản đang hiển thị của "${entryToAction?.title}" bằng bản chỉnh sửa?`}
+              {actionType === "rejectDraft" && `Hủy bản chỉnh sửa của "${entryToAction?.title}"? Phiên bản hiện tại sẽ được giữ nguyên.`}
               {actionType === "ban" && `Ban user "${userToAction?.email}"?`}
               {actionType === "unban" && `Unban user "${userToAction?.email}"?`}
               {actionType === "deleteUser" && `Xóa user "${userToAction?.email}"? Hành động này không thể hoàn tác và tất cả entries của user sẽ bị xóa.`}
+              {actionType === "reset2fa" && `Tắt xác thực hai bước và xóa mã khôi phục của "${userToAction?.email}"? Chỉ làm vậy khi đã xác minh danh tính của họ. Nếu là kiểm duyệt viên hoặc quản trị viên, họ phải thiết lập lại trước khi vào trang quản trị.`}
             </AlertDialogDescription>
           </AlertDialogHeader>
 
-          {actionType === "reject" && (
+          {["approve", "reject", "approveDraft", "rejectDraft"].includes(actionType ?? "")
+            && isClaimedByOther(entryToAction?.claim, currentUser.id) && (
+            <p className="rounded-md border border-destructive/50 p-3 text-sm text-destructive" data-testid="text-claim-override-warning">
+              Entry đang được {claimHolderName(activeClaim(entryToAction!.claim)!)} xem xét. Xác nhận sẽ bỏ qua lượt nhận của họ.
+            </p>
+          )}
+
+          {(actionType === "reject" || actionType === "rejectDraft") && (
             <div className="space-y-3">
               <label className="text-sm font-medium">Lý do từ chối:</label>
               <Textarea
@@ -1,4 +1,5 @@
-import { useState } from "react";
+import { useCallback, useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -7,8 +8,12 @@ import { Input } from "@/components/ui/input";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import { Search, Loader2, Eye, EyeOff } from "lucide-react";
-import { apiRequest } from "@/lib/queryClient";
+import { Search, Loader2, Eye, EyeOff, ArrowLeft, MailCheck, CheckCircle2, XCircle, Clock } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { loginErrorMessage } from "@/lib/authUtils";
+import { ProviderIcon } from "@/components/ProviderIcon";
+import { TwoFactorCodeForm } from "@/components/TwoFactorSettings";
+import type { AuthProviderInfo } from "@shared/schema";
 
 const passwordSchema = z
   .string()
@@ -24,6 +29,7 @@ const signupSchema = z
       .min(3, "Username phải có ít nhất 3 ký tự")
       .max(20, "Username không được vượt quá 20 ký tự")
       .regex(/^[a-zA-Z0-9_]+$/, "Username chỉ được chứa chữ cái, số và dấu gạch dưới"),
+    email: z.string().trim().email("Email không hợp lệ"),
     firstName: z.string().min(1, "Vui lòng nhập tên"),
     lastName: z.string().min(1, "Vui lòng nhập họ"),
     password: passwordSchema,
@@ -36,19 +42,401 @@ const signupSchema = z
 
 type SignupFormData = z.infer<typeof signupSchema>;
 
+const forgotPasswordSchema = z.object({
+  email: z.string().trim().email("Email không hợp lệ"),
+});
+
+type ForgotPasswordFormData = z.infer<typeof forgotPasswordSchema>;
+
+const resetPasswordSchema = z
+  .object({
+    password: passwordSchema,
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "Mật khẩu xác nhận không khớp",
+    path: ["confirmPassword"],
+  });
+
+type ResetPasswordFormData = z.infer<typeof resetPasswordSchema>;
+
+// Email links open /auth?verify=<token> or /auth?reset=<token>
+type Screen =
+  | { name: "main" }
+  | { name: "forgot" }
+  | { name: "twoFactor" }
+  | { name: "reset"; token: string }
+  | { name: "verify"; token: string };
+
+function initialScreen(): Screen {
+  const params = new URLSearchParams(window.location.search);
+  const verify = params.get("verify");
+  const reset = params.get("reset");
+  if (verify) return { name: "verify", token: verify };
+  if (reset) return { name: "reset", token: reset };
+  return { name: "main" };
+}
+
+// Body of the 429 the login routes answer with after too many failures
+type LoginLockout = { lockedUntil: string; lockedOut: boolean };
+
+function parseLoginLockout(error: Error): LoginLockout | null {
+  if (!error.message.startsWith("429: ")) return null;
+  try {
+    const body = JSON.parse(error.message.slice("429: ".length));
+    return { lockedUntil: body.lockedUntil, lockedOut: body.code === "locked_out" };
+  } catch {
+    return null;
+  }
+}
+
+function formatRemaining(ms: number): string {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+// Counts down to the end of a lockout, then lets the form be used again
+function LoginLockoutNotice({ lockout, onExpired }: { lockout: LoginLockout; onExpired: () => void }) {
+  const until = new Date(lockout.lockedUntil).getTime();
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (now >= until) onExpired();
+  }, [now, until, onExpired]);
+
+  return (
+    <div className="flex items-start gap-2 rounded-md border border-destructive/50 p-3 text-sm text-destructive" data-testid="notice-login-lockout">
+      <Clock className="h-4 w-4 mt-0.5 shrink-0" />
+      <p>
+        {lockout.lockedOut
+          ? "Đăng nhập tạm thời bị khóa do nhập sai quá nhiều lần."
+          : "Bạn đã nhập sai nhiều lần, vui lòng chờ trước khi thử lại."}{" "}
+        Thử lại sau <span className="font-mono" data-testid="text-lockout-remaining">{formatRemaining(until - now)}</span>.
+      </p>
+    </div>
+  );
+}
+
+function BackButton({ onClick }: { onClick: () => void }) {
+  return (
+    <Button variant="ghost" size="sm" onClick={onClick} className="-ml-2" data-testid="button-back-to-login">
+      <ArrowLeft className="h-4 w-4 mr-1" />
+      Quay lại đăng nhập
+    </Button>
+  );
+}
+
+function ForgotPasswordScreen({ onBack }: { onBack: () => void }) {
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const form = useForm<ForgotPasswordFormData>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: { email: "" },
+  });
+
+  const forgotMutation = useMutation({
+    mutationFn: async (data: ForgotPasswordFormData) => {
+      return await apiRequest("POST", "/api/auth/forgot-password", data);
+    },
+    onSuccess: (_, data) => setSentTo(data.email),
+    onError: () => {
+      toast({ title: "Lỗi", description: "Không thể gửi email đặt lại mật khẩu", variant: "destructive" });
+    },
+  });
+
+  if (sentTo) {
+    return (
+      <div className="space-y-4" data-testid="screen-forgot-sent">
+        <div className="flex flex-col items-center text-center gap-2">
+          <MailCheck className="h-10 w-10 text-primary" />
+          <p className="font-semibold">Kiểm tra hộp thư của bạn</p>
+          <p className="text-sm text-muted-foreground">
+            Nếu {sentTo} đã được đăng ký, chúng tôi đã gửi một liên kết đặt lại mật khẩu. Liên kết có hiệu lực trong 60 phút.
+          </p>
+        </div>
+        <BackButton onClick={onBack} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4" data-testid="screen-forgot-password">
+      <div>
+        <p className="font-semibold">Quên mật khẩu</p>
+        <p className="text-sm text-muted-foreground">Nhập email của tài khoản, chúng tôi sẽ gửi liên kết để đặt mật khẩu mới.</p>
+      </div>
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit((data) => forgotMutation.mutate(data))} className="space-y-4">
+          <FormField
+            control={form.control}
+            name="email"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Email</FormLabel>
+                <FormControl>
+                  <Input
+                    type="email"
+                    placeholder="ban@example.com"
+                    {...field}
+                    data-testid="input-forgot-email"
+                    disabled={forgotMutation.isPending}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button type="submit" className="w-full" disabled={forgotMutation.isPending} data-testid="button-send-reset">
+            {forgotMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Gửi liên kết
+          </Button>
+        </form>
+      </Form>
+      <BackButton onClick={onBack} />
+    </div>
+  );
+}
+
+function ResetPasswordScreen({ token, onDone, onBack }: { token: string; onDone: (username: string | null) => void; onBack: () => void }) {
+  const [showPassword, setShowPassword] = useState(false);
+  const { toast } = useToast();
+
+  const form = useForm<ResetPasswordFormData>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: { password: "", confirmPassword: "" },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async (data: ResetPasswordFormData) => {
+      const res = await apiRequest("POST", "/api/auth/reset-password", { token, password: data.password });
+      return (await res.json()) as { username: string | null };
+    },
+    onSuccess: ({ username }) => {
+      queryClient.setQueryData(["/api/auth/user"], null);
+      toast({ title: "Thành công", description: "Đã đặt mật khẩu mới, hãy đăng nhập lại" });
+      onDone(username);
+    },
+    onError: (error) => {
+      toast({
+        title: "Lỗi",
+        description: /^400: /.test(error.message)
+          ? "Liên kết đặt lại mật khẩu không hợp lệ hoặc đã hết hạn"
+          : "Không thể đặt lại mật khẩu",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-4" data-testid="screen-reset-password">
+      <div>
+        <p className="font-semibold">Đặt mật khẩu mới</p>
+        <p className="text-sm text-muted-foreground">Sau khi đổi, bạn sẽ bị đăng xuất khỏi mọi thiết bị.</p>
+      </div>
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit((data) => resetMutation.mutate(data))} className="space-y-4">
+          <FormField
+            control={form.control}
+            name="password"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Mật khẩu mới</FormLabel>
+                <FormControl>
+                  <div className="relative">
+                    <Input
+                      type={showPassword ? "text" : "password"}
+                      placeholder="••••••••"
+                      {...field}
+                      data-testid="input-reset-password"
+                      disabled={resetMutation.isPending}
+                      className="pr-10"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setShowPassword(!showPassword)}
+                      className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                      data-testid="button-toggle-reset-password"
+                    >
+                      {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                    </button>
+                  </div>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="confirmPassword"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Xác nhận mật khẩu</FormLabel>
+                <FormControl>
+                  <Input
+                    type={showPassword ? "text" : "password"}
+                    placeholder="••••••••"
+                    {...field}
+                    data-testid="input-reset-confirm-password"
+                    disabled={resetMutation.isPending}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button type="submit" className="w-full" disabled={resetMutation.isPending} data-testid="button-reset-password">
+            {resetMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Đặt mật khẩu
+          </Button>
+        </form>
+      </Form>
+      <BackButton onClick={onBack} />
+    </div>
+  );
+}
+
+// Second login step for accounts with 2FA; the password was already accepted
+function TwoFactorLoginScreen({ onBack }: { onBack: () => void }) {
+  const { toast } = useToast();
+  const [lockout, setLockout] = useState<LoginLockout | null>(null);
+  const clearLockout = useCallback(() => setLockout(null), []);
+
+  const loginMutation = useMutation({
+    mutationFn: async (code: string) => {
+      return await apiRequest("POST", "/api/auth/login/2fa", { code });
+    },
+    onSuccess: () => {
+      toast({ title: "Đăng nhập thành công", description: "Đang chuyển hướng..." });
+      window.location.href = "/";
+    },
+    onError: (error) => {
+      const blocked = parseLoginLockout(error);
+      if (blocked) {
+        setLockout(blocked);
+        return;
+      }
+      // 401: the pending login expired or had too many wrong codes
+      if (/^401: /.test(error.message)) {
+        toast({ title: "Lỗi", description: "Phiên đăng nhập đã hết hạn, vui lòng nhập lại mật khẩu", variant: "destructive" });
+        onBack();
+      } else {
+        toast({ title: "Lỗi", description: "Mã không đúng hoặc đã được sử dụng", variant: "destructive" });
+      }
+    },
+  });
+
+  return (
+    <div className="space-y-4" data-testid="screen-two-factor-login">
+      <div>
+        <p className="font-semibold">Xác thực hai bước</p>
+        <p className="text-sm text-muted-foreground">Nhập mã 6 số từ ứng dụng xác thực, hoặc một mã khôi phục.</p>
+      </div>
+      {lockout ? (
+        <LoginLockoutNotice lockout={lockout} onExpired={clearLockout} />
+      ) : (
+        <TwoFactorCodeForm
+          onSubmit={(code) => loginMutation.mutate(code)}
+          isPending={loginMutation.isPending}
+          submitLabel="Đăng nhập"
+        />
+      )}
+      <BackButton onClick={onBack} />
+    </div>
+  );
+}
+
+function VerifyEmailScreen({ token, onBack }: { token: string; onBack: () => void }) {
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/verify-email", { token });
+      return (await res.json()) as { email: string };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+    },
+  });
+  const { mutate } = verifyMutation;
+
+  // Tokens are single-use, so this runs once per link
+  useEffect(() => {
+    mutate();
+  }, [mutate]);
+
+  return (
+    <div className="space-y-4" data-testid="screen-verify-email">
+      {verifyMutation.isSuccess ? (
+        <div className="flex flex-col items-center text-center gap-2">
+          <CheckCircle2 className="h-10 w-10 text-green-600" />
+          <p className="font-semibold">Đã xác minh email</p>
+          <p className="text-sm text-muted-foreground">{verifyMutation.data.email} đã được xác minh.</p>
+          <Button asChild className="mt-2" data-testid="button-verify-home">
+            <a href="/">Về trang chủ</a>
+          </Button>
+        </div>
+      ) : verifyMutation.isError ? (
+        <div className="flex flex-col items-center text-center gap-2">
+          <XCircle className="h-10 w-10 text-destructive" />
+          <p className="font-semibold">Không thể xác minh email</p>
+          <p className="text-sm text-muted-foreground">
+            Liên kết không hợp lệ hoặc đã hết hạn. Bạn có thể gửi lại email xác minh từ trang cá nhân.
+          </p>
+        </div>
+      ) : (
+        <div className="flex items-center justify-center gap-2 py-6 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Đang xác minh email...
+        </div>
+      )}
+      {!verifyMutation.isSuccess && <BackButton onClick={onBack} />}
+    </div>
+  );
+}
+
 export default function AuthPage() {
+  const [screen, setScreen] = useState<Screen>(initialScreen);
+  const [tab, setTab] = useState("login");
   const [isLoading, setIsLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirm, setShowConfirm] = useState(false);
   const [rememberMe, setRememberMe] = useState(false);
   const [loginUsername, setLoginUsername] = useState("");
   const [loginPassword, setLoginPassword] = useState("");
+  const [lockout, setLockout] = useState<LoginLockout | null>(null);
+  const clearLockout = useCallback(() => setLockout(null), []);
   const { toast } = useToast();
 
+  const { data: providers = [] } = useQuery<AuthProviderInfo[]>({
+    queryKey: ["/api/auth/providers"],
+  });
+
+  // Provider logins that failed come back as /auth?error=<code>; tokens from
+  // email links are kept in state and dropped from the address bar
+  useEffect(() => {
+    const error = new URLSearchParams(window.location.search).get("error");
+    if (error) {
+      toast({ title: "Lỗi", description: loginErrorMessage(error), variant: "destructive" });
+    }
+    if (window.location.search) {
+      window.history.replaceState(null, "", window.location.pathname);
+    }
+  }, [toast]);
+
+  const backToLogin = () => {
+    setScreen({ name: "main" });
+    setTab("login");
+  };
+
   const form = useForm<SignupFormData>({
     resolver: zodResolver(signupSchema),
     defaultValues: {
       username: "",
+      email: "",
       firstName: "",
       lastName: "",
       password: "",
@@ -65,7 +453,7 @@ export default function AuthPage() {
     if (!loginUsername || !loginPassword) {
       toast({
         title: "Lỗi",
-        description: "Vui lòng nhập username và mật khẩu",
+        description: "Vui lòng nhập username hoặc email và mật khẩu",
         variant: "destructive",
       });
       return;
@@ -79,7 +467,11 @@ export default function AuthPage() {
         rememberMe,
       });
 
-      if (response) {
+      const result = await response.json();
+      if (result?.twoFactorRequired) {
+        setLoginPassword("");
+        setScreen({ name: "twoFactor" });
+      } else if (result) {
         toast({
           title: "Đăng nhập thành công",
           description: "Đang chuyển hướng...",
@@ -89,9 +481,14 @@ export default function AuthPage() {
         }, 1500);
       }
     } catch (error: any) {
+      const blocked = parseLoginLockout(error);
+      if (blocked) {
+        setLockout(blocked);
+        return;
+      }
       toast({
         title: "Lỗi",
-        description: error.message || "Đăng nhập thất bại",
+        description: /^401: /.test(error.message) ? "Sai username, email hoặc mật khẩu" : error.message || "Đăng nhập thất bại",
         variant: "destructive",
       });
     } finally {
@@ -104,6 +501,7 @@ export default function AuthPage() {
       setIsLoading(true);
       const response = await apiRequest("POST", "/api/auth/signup", {
         username: data.username,
+        email: data.email,
         firstName: data.firstName,
         lastName: data.lastName,
         password: data.password,
@@ -112,7 +510,7 @@ export default function AuthPage() {
       if (response) {
         toast({
           title: "Đăng ký thành công",
-          description: "Đang chuyển hướng...",
+          description: `Đã gửi email xác minh tới ${data.email}. Đang chuyển hướng...`,
         });
         setTimeout(() => {
           window.location.href = "/";
@@ -124,6 +522,10 @@ export default function AuthPage() {
         form.setError("username", {
           message: "Username này đã được sử dụng",
         });
+      } else if (error.message?.includes("Email already in use")) {
+        form.setError("email", {
+          message: "Email này đã được sử dụng",
+        });
       } else {
         toast({
           title: "Lỗi",
@@ -157,108 +559,149 @@ export default function AuthPage() {
 
         {/* Auth Card */}
         <div className="bg-card border rounded-lg p-4 md:p-6 space-y-4 md:space-y-6">
-          <Tabs defaultValue="oauth" className="w-full">
-            <TabsList className="grid w-full grid-cols-2 text-xs md:text-sm">
-              <TabsTrigger value="oauth" className="text-xs md:text-sm">Đăng nhập nhanh</TabsTrigger>
-              <TabsTrigger value="signup" className="text-xs md:text-sm">Đăng ký</TabsTrigger>
-            </TabsList>
-
-            {/* OAuth Login */}
-            <TabsContent value="oauth" className="space-y-3 mt-6">
-              <div className="space-y-3 p-4 bg-muted rounded-md text-sm text-muted-foreground">
-                <div>
-                  <p className="font-semibold mb-2">Đăng nhập nhanh</p>
-                  <p className="text-xs mb-3">Hoặc đăng nhập bằng mật khẩu dưới tab "Đăng ký"</p>
-                </div>
-              </div>
-
-              <Button
-                onClick={() => handleOAuthLogin("google")}
-                variant="outline"
-                className="w-full"
-                data-testid="button-login-google"
-              >
-                <svg className="w-5 h-5 mr-2" viewBox="0 0 24 24">
-                  <path
-                    fill="currentColor"
-                    d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"
-                  />
-                  <path
-                    fill="currentColor"
-                    d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"
-                  />
-                  <path
-                    fill="currentColor"
-                    d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"
-                  />
-                  <path
-                    fill="currentColor"
-                    d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"
-                  />
-                </svg>
-                Đăng nhập với Google
-              </Button>
-
-              <Button
-                onClick={() => handleOAuthLogin("github")}
-                variant="outline"
-                className="w-full"
-                data-testid="button-login-github"
-              >
-                <svg className="w-5 h-5 mr-2" fill="currentColor" viewBox="0 0 24 24">
-                  <path d="M12 0c-6.626 0-12 5.373-12 12 0 5.302 3.438 9.8 8.207 11.387.599.111.793-.261.793-.577v-2.234c-3.338.726-4.033-1.416-4.033-1.416-.546-1.387-1.333-1.756-1.333-1.756-1.089-.745.083-.729.083-.729 1.205.084 1.839 1.237 1.839 1.237 1.07 1.834 2.807 1.304 3.492.997.107-.775.418-1.305.762-1.604-2.665-.305-5.467-1.334-5.467-5.931 0-1.311.469-2.381 1.236-3.221-.124-.303-.535-1.524.117-3.176 0 0 1.008-.322 3.301 1.23.957-.266 1.983-.399 3.003-.404 1.02.005 2.047.138 3.006.404 2.291-1.552 3.297-1.23 3.297-1.23.653 1.653.242 2.874.118 3.176.77.84 1.235 1.911 1.235 3.221 0 4.609-2.807 5.624-5.479 5.921.43.372.823 1.102.823 2.222v 3.293c0 .319.192.694.801.576 4.765-1.589 8.199-6.086 8.199-11.386 0-6.627-5.373-12-12-12z" />
-                </svg>
-                Đăng nhập với GitHub
-              </Button>
-
-              <Button
-                onClick={() => handleOAuthLogin("replit")}
-                variant="outline"
-                className="w-full"
-                data-testid="button-login-replit"
-              >
-                <svg className="w-5 h-5 mr-2" fill="currentColor" viewBox="0 0 24 24">
-                  <path d="M4 2h16a2 2 0 0 1 2 2v16a2 2 0 0 1-2 2H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2zm2 4v2h2V6H6zm6 0v2h2V6h-2zm6 0v2h2V6h-2zM6 10v2h2v-2H6zm6 0v2h2v-2h-2zm6 0v2h2v-2h-2z" />
-                </svg>
-                Đăng nhập với Replit
-              </Button>
-            </TabsContent>
-
-            {/* Password Signup */}
-            <TabsContent value="signup" className="mt-6">
-              <Form {...form}>
-                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                  <FormField
-                    control={form.control}
-                    name="username"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Username</FormLabel>
-                        <FormControl>
-                          <Input
-                            placeholder="your_username"
-                            {...field}
-                            data-testid="input-username"
-                            disabled={isLoading}
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
+          {screen.name === "forgot" ? (
+            <ForgotPasswordScreen onBack={backToLogin} />
+          ) : screen.name === "twoFactor" ? (
+            <TwoFactorLoginScreen onBack={backToLogin} />
+          ) : screen.name === "reset" ? (
+            <ResetPasswordScreen
+              token={screen.token}
+              onBack={backToLogin}
+              onDone={(username) => {
+                if (username) setLoginUsername(username);
+                backToLogin();
+              }}
+            />
+          ) : screen.name === "verify" ? (
+            <VerifyEmailScreen token={screen.token} onBack={backToLogin} />
+          ) : (
+            <Tabs value={tab} onValueChange={setTab} className="w-full">
+              <TabsList className="grid w-full grid-cols-3 text-xs md:text-sm">
+                <TabsTrigger value="login" className="text-xs md:text-sm">Đăng nhập</TabsTrigger>
+                <TabsTrigger value="oauth" className="text-xs md:text-sm">Đăng nhập nhanh</TabsTrigger>
+                <TabsTrigger value="signup" className="text-xs md:text-sm">Đăng ký</TabsTrigger>
+              </TabsList>
+
+              {/* Password Login */}
+              <TabsContent value="login" className="mt-6">
+                <form onSubmit={handlePasswordLogin} className="space-y-4">
+                  {lockout && <LoginLockoutNotice lockout={lockout} onExpired={clearLockout} />}
+                  <div className="space-y-2">
+                    <label htmlFor="login-username" className="text-sm font-medium">Username hoặc email</label>
+                    <Input
+                      id="login-username"
+                      placeholder="your_username"
+                      autoComplete="username"
+                      value={loginUsername}
+                      onChange={(e) => {
+                        setLoginUsername(e.target.value);
+                        // The lockout was for the previous username (or this IP, which the server re-reports)
+                        setLockout(null);
+                      }}
+                      data-testid="input-login-username"
+                      disabled={isLoading}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <label htmlFor="login-password" className="text-sm font-medium">Mật khẩu</label>
+                      <button
+                        type="button"
+                        onClick={() => setScreen({ name: "forgot" })}
+                        className="text-xs text-primary hover:underline"
+                        data-testid="button-forgot-password"
+                      >
+                        Quên mật khẩu?
+                      </button>
+                    </div>
+                    <div className="relative">
+                      <Input
+                        id="login-password"
+                        type={showPassword ? "text" : "password"}
+                        placeholder="••••••••"
+                        autoComplete="current-password"
+                        value={loginPassword}
+                        onChange={(e) => setLoginPassword(e.target.value)}
+                        data-testid="input-login-password"
+                        disabled={isLoading}
+                        className="pr-10"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setShowPassword(!showPassword)}
+                        className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                        data-testid="button-toggle-login-password"
+                      >
+                        {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                      </button>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      id="login-remember-me"
+                      checked={rememberMe}
+                      onChange={(e) => setRememberMe(e.target.checked)}
+                      className="h-4 w-4 rounded border-input"
+                      data-testid="checkbox-login-remember-me"
+                    />
+                    <label htmlFor="login-remember-me" className="text-sm cursor-pointer">
+                      Ghi nhớ tôi (30 ngày)
+                    </label>
+                  </div>
+
+                  <Button type="submit" className="w-full" disabled={isLoading || !!lockout} data-testid="button-login">
+                    {isLoading ? (
+                      <>
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        Đang đăng nhập...
+                      </>
+                    ) : (
+                      "Đăng nhập"
                     )}
-                  />
+                  </Button>
+                </form>
+              </TabsContent>
+
+              {/* OAuth Login */}
+              <TabsContent value="oauth" className="space-y-3 mt-6">
+                <div className="space-y-3 p-4 bg-muted rounded-md text-sm text-muted-foreground">
+                  <div>
+                    <p className="font-semibold mb-2">Đăng nhập nhanh</p>
+                    <p className="text-xs mb-3">Hoặc đăng nhập bằng mật khẩu dưới tab "Đăng nhập"</p>
+                  </div>
+                </div>
+
+                {providers.map((provider) => (
+                  <Button
+                    key={provider.id}
+                    onClick={() => handleOAuthLogin(provider.id)}
+                    variant="outline"
+                    className="w-full"
+                    data-testid={`button-login-${provider.id}`}
+                  >
+                    <ProviderIcon provider={provider} className="w-5 h-5 mr-2" />
+                    Đăng nhập với {provider.label}
+                  </Button>
+                ))}
+              </TabsContent>
 
-                  <div className="grid grid-cols-2 gap-3">
+              {/* Password Signup */}
+              <TabsContent value="signup" className="mt-6">
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
                     <FormField
                       control={form.control}
-                      name="firstName"
+                      name="username"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>Tên</FormLabel>
+                          <FormLabel>Username</FormLabel>
                           <FormControl>
                             <Input
-                              placeholder="John"
+                              placeholder="your_username"
                               {...field}
-                              data-testid="input-firstname"
+                              data-testid="input-username"
                               disabled={isLoading}
                             />
                           </FormControl>
@@ -266,17 +709,19 @@ export default function AuthPage() {
                         </FormItem>
                       )}
                     />
+
                     <FormField
                       control={form.control}
-                      name="lastName"
+                      name="email"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>Họ</FormLabel>
+                          <FormLabel>Email</FormLabel>
                           <FormControl>
                             <Input
-                              placeholder="Doe"
+                              type="email"
+                              placeholder="ban@example.com"
                               {...field}
-                              data-testid="input-lastname"
+                              data-testid="input-email"
                               disabled={isLoading}
                             />
                           </FormControl>
@@ -284,114 +729,153 @@ export default function AuthPage() {
                         </FormItem>
                       )}
                     />
-                  </div>
 
-                  <FormField
-                    control={form.control}
-                    name="password"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Mật khẩu</FormLabel>
-                        <FormControl>
-                          <div className="relative">
-                            <Input
-                              type={showPassword ? "text" : "password"}
-                              placeholder="••••••••"
-                              {...field}
-                              data-testid="input-password"
-                              disabled={isLoading}
-                              className="pr-10"
-                            />
-                            <button
-                              type="button"
-                              onClick={() => setShowPassword(!showPassword)}
-                              className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
-                              data-testid="button-toggle-password"
-                            >
-                              {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-                            </button>
-                          </div>
-                        </FormControl>
-                        <FormMessage />
+                    <div className="grid grid-cols-2 gap-3">
+                      <FormField
+                        control={form.control}
+                        name="firstName"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Tên</FormLabel>
+                            <FormControl>
+                              <Input
+                                placeholder="John"
+                                {...field}
+                                data-testid="input-firstname"
+                                disabled={isLoading}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="lastName"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Họ</FormLabel>
+                            <FormControl>
+                              <Input
+                                placeholder="Doe"
+                                {...field}
+                                data-testid="input-lastname"
+                                disabled={isLoading}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
 
-                        {/* Password requirements */}
-                        <div className="text-xs space-y-1 mt-2">
-                          <div className={hasMinLength ? "text-green-600" : "text-muted-foreground"}>
-                            ✓ Ít nhất 8 ký tự
-                          </div>
-                          <div className={hasUppercase ? "text-green-600" : "text-muted-foreground"}>
-                            ✓ 1 chữ cái viết hoa
-                          </div>
-                          <div className={hasNumber ? "text-green-600" : "text-muted-foreground"}>
-                            ✓ 1 số
-                          </div>
-                          <div className={hasSpecial ? "text-green-600" : "text-muted-foreground"}>
-                            ✓ 1 ký tự đặc biệt (!@#$%...)
-                          </div>
-                        </div>
-                      </FormItem>
-                    )}
-                  />
+                    <FormField
+                      control={form.control}
+                      name="password"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Mật khẩu</FormLabel>
+                          <FormControl>
+                            <div className="relative">
+                              <Input
+                                type={showPassword ? "text" : "password"}
+                                placeholder="••••••••"
+                                {...field}
+                                data-testid="input-password"
+                                disabled={isLoading}
+                                className="pr-10"
+                              />
+                              <button
+                                type="button"
+                                onClick={() => setShowPassword(!showPassword)}
+                                className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                                data-testid="button-toggle-password"
+                              >
+                                {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                              </button>
+                            </div>
+                          </FormControl>
+                          <FormMessage />
 
-                  <FormField
-                    control={form.control}
-                    name="confirmPassword"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Xác nhận mật khẩu</FormLabel>
-                        <FormControl>
-                          <div className="relative">
-                            <Input
-                              type={showConfirm ? "text" : "password"}
-                              placeholder="••••••••"
-                              {...field}
-                              data-testid="input-confirm-password"
-                              disabled={isLoading}
-                              className="pr-10"
-                            />
-                            <button
-                              type="button"
-                              onClick={() => setShowConfirm(!showConfirm)}
-                              className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
-                              data-testid="button-toggle-confirm"
-                            >
-                              {showConfirm ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-                            </button>
+                          {/* Password requirements */}
+                          <div className="text-xs space-y-1 mt-2">
+                            <div className={hasMinLength ? "text-green-600" : "text-muted-foreground"}>
+                              ✓ Ít nhất 8 ký tự
+                            </div>
+                            <div className={hasUppercase ? "text-green-600" : "text-muted-foreground"}>
+                              ✓ 1 chữ cái viết hoa
+                            </div>
+                            <div className={hasNumber ? "text-green-600" : "text-muted-foreground"}>
+                              ✓ 1 số
+                            </div>
+                            <div className={hasSpecial ? "text-green-600" : "text-muted-foreground"}>
+                              ✓ 1 ký tự đặc biệt (!@#$%...)
+                            </div>
                           </div>
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+                        </FormItem>
+                      )}
+                    />
 
-                  <div className="flex items-center gap-2">
-                    <input
-                      type="checkbox"
-                      id="remember-me"
-                      checked={rememberMe}
-                      onChange={(e) => setRememberMe(e.target.checked)}
-                      className="h-4 w-4 rounded border-input"
-                      data-testid="checkbox-remember-me"
+                    <FormField
+                      control={form.control}
+                      name="confirmPassword"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Xác nhận mật khẩu</FormLabel>
+                          <FormControl>
+                            <div className="relative">
+                              <Input
+                                type={showConfirm ? "text" : "password"}
+                                placeholder="••••••••"
+                                {...field}
+                                data-testid="input-confirm-password"
+                                disabled={isLoading}
+                                className="pr-10"
+                              />
+                              <button
+                                type="button"
+                                onClick={() => setShowConfirm(!showConfirm)}
+                                className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                                data-testid="button-toggle-confirm"
+                              >
+                                {showConfirm ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                              </button>
+                            </div>
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
                     />
-                    <label htmlFor="remember-me" className="text-sm cursor-pointer">
-                      Ghi nhớ tôi (30 ngày)
-                    </label>
-                  </div>
 
-                  <Button type="submit" className="w-full" disabled={isLoading || !isPasswordStrong} data-testid="button-signup">
-                    {isLoading ? (
-                      <>
-                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                        Đang đăng ký...
-                      </>
-                    ) : (
-                      "Đăng ký"
-                    )}
-                  </Button>
-                </form>
-              </Form>
-            </TabsContent>
-          </Tabs>
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        id="remember-me"
+                        checked={rememberMe}
+                        onChange={(e) => setRememberMe(e.target.checked)}
+                        className="h-4 w-4 rounded border-input"
+                        data-testid="checkbox-remember-me"
+                      />
+                      <label htmlFor="remember-me" className="text-sm cursor-pointer">
+                        Ghi nhớ tôi (30 ngày)
+                      </label>
+                    </div>
+
+                    <Button type="submit" className="w-full" disabled={isLoading || !isPasswordStrong} data-testid="button-signup">
+                      {isLoading ? (
+                        <>
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                          Đang đăng ký...
+                        </>
+                      ) : (
+                        "Đăng ký"
+                      )}
+                    </Button>
+                  </form>
+                </Form>
+              </TabsContent>
+            </Tabs>
+          )}
         </div>
 
         {/* Footer */}
@@ -0,0 +1,90 @@
+import { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useLocation, useParams } from "wouter";
+import { Header } from "@/components/Header";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
+import { EntryDetail, EntryStatusBadge } from "@/components/EntryDetail";
+import type { EntryPage as EntryPageData } from "@shared/schema";
+import { entryPath } from "@shared/slug";
+import { Loader2 } from "lucide-react";
+import { avatarImageProps } from "@shared/images";
+
+export default function EntryPage() {
+  const { id, slug } = useParams<{ id: string; slug?: string }>();
+  const [, setLocation] = useLocation();
+
+  const { data: entry, isLoading } = useQuery<EntryPageData>({
+    queryKey: ["/api/entries", id],
+  });
+
+  // Old or missing slugs (e.g. after a title change) go to the current URL
+  useEffect(() => {
+    if (entry && entryPath(entry) !== `/entry/${id}/${slug ?? ""}`) {
+      setLocation(entryPath(entry), { replace: true });
+    }
+  }, [entry, id, slug, setLocation]);
+
+  useEffect(() => {
+    if (!entry) return;
+    const previousTitle = document.title;
+    document.title = `${entry.title} - pixelsWIKI`;
+    return () => {
+      document.title = previousTitle;
+    };
+  }, [entry]);
+
+  const authorName = entry
+    ? `${entry.user.firstName || ""} ${entry.user.lastName || ""}`.trim() || "Người dùng"
+    : "";
+  const authorInitials = entry
+    ? `${entry.user.firstName?.[0] || ""}${entry.user.lastName?.[0] || ""}`.toUpperCase() || "U"
+    : "";
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="container mx-auto px-3 sm:px-4 py-6 sm:py-8 md:py-12">
+        <div className="max-w-3xl mx-auto">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8 md:py-12">
+              <Loader2 className="h-6 md:h-8 w-6 md:w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : !entry ? (
+            <div className="text-center py-8 md:py-12 space-y-4">
+              <p className="text-sm md:text-base lg:text-lg text-muted-foreground" data-testid="text-entry-not-found">
+                Không tìm thấy entry này
+              </p>
+              <Button onClick={() => setLocation("/")}>Quay lại trang chủ</Button>
+            </div>
+          ) : (
+            <article className="space-y-4 md:space-y-6" data-testid={`page-entry-${entry.id}`}>
+              <div className="space-y-3">
+                <div className="flex items-start justify-between gap-3 md:gap-4">
+                  <h1 className="text-2xl sm:text-3xl md:text-4xl font-bold" data-testid="text-entry-detail-title">
+                    {entry.title}
+                  </h1>
+                  <EntryStatusBadge status={entry.status} />
+                </div>
+                <Link
+                  href={`/profile/${entry.userId}`}
+                  className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground"
+                  data-testid="link-entry-author"
+                >
+                  <Avatar className="h-6 w-6">
+                    <AvatarImage {...avatarImageProps(entry.user.profileImageUrl, 24)} />
+                    <AvatarFallback className="text-xs">{authorInitials}</AvatarFallback>
+                  </Avatar>
+                  {authorName}
+                </Link>
+              </div>
+
+              <EntryDetail entry={entry} />
+            </article>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,42 +1,76 @@
-import { useState, useMemo } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
 import { Input } from "@/components/ui/input";
 import { Search, Loader2 } from "lucide-react";
 import { WikiEntryCard } from "@/components/WikiEntryCard";
-import type { WikiEntry, User } from "@shared/schema";
+import { LoadMore } from "@/components/LoadMore";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { WikiEntry, User, SearchResponse, EntryStats, EntryFeedSort, LikePeriod } from "@shared/schema";
 import { Header } from "@/components/Header";
 import { useLocation } from "wouter";
+import { entryPath } from "@shared/slug";
+import { useDebounce } from "@/hooks/use-debounce";
+import { useInfiniteList } from "@/hooks/use-infinite-list";
+import { apiRequest } from "@/lib/queryClient";
 
-type EntryWithUser = WikiEntry & { user: User };
+const SEARCH_PAGE_SIZE = 12;
+
+type EntryWithUser = WikiEntry & EntryStats & { user: User };
+
+const PERIOD_LABELS: Record<LikePeriod, string> = {
+  day: "Hôm nay",
+  week: "Tuần này",
+  all: "Mọi lúc",
+};
 
 export default function Home() {
   const [searchQuery, setSearchQuery] = useState("");
+  const [sort, setSort] = useState<EntryFeedSort>("newest");
+  const [period, setPeriod] = useState<LikePeriod>("week");
   const [, setLocation] = useLocation();
 
-  // Fetch all approved wiki entries
-  const { data: entries, isLoading } = useQuery<EntryWithUser[]>({
-    queryKey: ["/api/entries/approved"],
-  });
+  const debouncedQuery = useDebounce(searchQuery.trim(), 300);
+  const isSearching = debouncedQuery.length > 0;
 
-  // Filter entries based on search query (title + description + user name)
-  const filteredEntries = useMemo(() => {
-    if (!entries) return [];
-    
-    const query = searchQuery.toLowerCase();
-    if (!query) return entries;
+  // Latest or most liked approved entries when not searching
+  const approved = useInfiniteList<EntryWithUser>(
+    ["/api/entries/approved"],
+    sort === "top" ? { sort, period } : {},
+    { enabled: !isSearching },
+  );
+  const entries = approved.items;
 
-    return entries.filter((entry) => {
-      const title = entry.title.toLowerCase();
-      const description = entry.description.toLowerCase();
-      const authorName = `${entry.user.firstName || ""} ${entry.user.lastName || ""}`.trim().toLowerCase();
+  // Server-side ranked search
+  const search = useInfiniteQuery({
+    queryKey: ["/api/search", debouncedQuery],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({
+        q: debouncedQuery,
+        page: String(pageParam),
+        pageSize: String(SEARCH_PAGE_SIZE),
+      });
+      const res = await apiRequest("GET", `/api/search?${params}`);
+      return (await res.json()) as SearchResponse;
+    },
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) => (lastPage.hasMore ? lastPage.page + 1 : undefined),
+    enabled: isSearching,
+  });
 
-      return title.includes(query) || description.includes(query) || authorName.includes(query);
-    });
-  }, [entries, searchQuery]);
+  const searchHits = search.data?.pages.flatMap((page) => page.items) ?? [];
+  const searchTotal = search.data?.pages[0]?.total ?? 0;
+  const isLoading = isSearching ? search.isLoading : approved.isLoading;
+  const resultCount = isSearching ? searchHits.length : entries.length;
+  const list = isSearching ? search : approved;
 
   const handleEntryClick = (entry: EntryWithUser) => {
-    // Navigate to user profile (entries shown in profile)
-    setLocation(`/profile/${entry.userId}`);
+    setLocation(entryPath(entry));
   };
 
   return (
@@ -73,34 +107,83 @@ export default function Home() {
 
         {/* Results Section */}
         <div className="max-w-5xl mx-auto">
+          {!isSearching && (
+            <div className="flex flex-wrap items-center justify-end gap-2 mb-4" data-testid="feed-sort-controls">
+              <Select value={sort} onValueChange={(value) => setSort(value as EntryFeedSort)}>
+                <SelectTrigger className="w-40 h-9 text-xs md:text-sm" data-testid="select-feed-sort">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="newest">Mới nhất</SelectItem>
+                  <SelectItem value="top">Thích nhiều nhất</SelectItem>
+                </SelectContent>
+              </Select>
+              {sort === "top" && (
+                <Select value={period} onValueChange={(value) => setPeriod(value as LikePeriod)}>
+                  <SelectTrigger className="w-32 h-9 text-xs md:text-sm" data-testid="select-feed-period">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(PERIOD_LABELS) as LikePeriod[]).map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {PERIOD_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          )}
+
           {isLoading ? (
             <div className="flex items-center justify-center py-8 md:py-12">
               <Loader2 className="h-6 md:h-8 w-6 md:w-8 animate-spin text-muted-foreground" />
             </div>
-          ) : filteredEntries.length === 0 ? (
+          ) : resultCount === 0 ? (
             <div className="text-center py-8 md:py-12">
               <p className="text-sm md:text-base lg:text-lg text-muted-foreground" data-testid="text-no-results">
-                {searchQuery
+                {isSearching
                   ? "Không tìm thấy entries nào"
-                  : "Chưa có entries nào"}
+                  : sort === "top"
+                    ? "Chưa có entries nào được thích trong khoảng thời gian này"
+                    : "Chưa có entries nào"}
               </p>
             </div>
           ) : (
             <div>
               <h2 className="text-base md:text-lg lg:text-2xl font-semibold mb-4 md:mb-6" data-testid="text-results-title">
-                {searchQuery ? `Kết quả tìm kiếm (${filteredEntries.length})` : `Tất cả entries (${filteredEntries.length})`}
+                {isSearching
+                  ? `Kết quả tìm kiếm (${searchTotal})`
+                  : sort === "top"
+                    ? `Được thích nhiều nhất · ${PERIOD_LABELS[period]}`
+                    : "Tất cả entries"}
               </h2>
               <div className="grid gap-3 md:gap-4 lg:gap-6 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3">
-                {filteredEntries.map((entry) => (
-                  <div 
-                    key={entry.id} 
-                    onClick={() => handleEntryClick(entry)}
-                    data-testid={`search-result-${entry.id}`}
-                  >
-                    <WikiEntryCard entry={entry} />
-                  </div>
-                ))}
+                {isSearching
+                  ? searchHits.map((hit) => (
+                      <div
+                        key={hit.id}
+                        onClick={() => handleEntryClick(hit)}
+                        data-testid={`search-result-${hit.id}`}
+                      >
+                        <WikiEntryCard entry={hit} titleHighlight={hit.titleHighlight} snippet={hit.snippet} />
+                      </div>
+                    ))
+                  : entries.map((entry) => (
+                      <div
+                        key={entry.id}
+                        onClick={() => handleEntryClick(entry)}
+                        data-testid={`search-result-${entry.id}`}
+                      >
+                        <WikiEntryCard entry={entry} />
+                      </div>
+                    ))}
               </div>
+              <LoadMore
+                hasNextPage={list.hasNextPage}
+                isFetchingNextPage={list.isFetchingNextPage}
+                fetchNextPage={list.fetchNextPage}
+              />
             </div>
           )}
         </div>
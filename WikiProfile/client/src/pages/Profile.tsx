@@ -9,11 +9,16 @@ import { WikiEntryCard } from "@/components/WikiEntryCard";
 import { EntryDetailDialog } from "@/components/EntryDetailDialog";
 import { WikiEntryForm } from "@/components/WikiEntryForm";
 import { ProfileGalleryModal } from "@/components/ProfileGalleryModal";
+import { LoadMore } from "@/components/LoadMore";
+import { LinkedAccounts } from "@/components/LinkedAccounts";
+import { EmailVerificationNotice } from "@/components/EmailVerificationNotice";
+import { TwoFactorSettings } from "@/components/TwoFactorSettings";
+import { useInfiniteList } from "@/hooks/use-infinite-list";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { WikiEntry, UserWithEntries } from "@shared/schema";
+import type { WikiEntryWithDraft, UserProfile, EntryStats, EntryTags, EntryModerationInfo } from "@shared/schema";
 import { Plus, Loader2, Calendar, FileText, Image } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import { vi } from "date-fns/locale";
@@ -33,6 +38,7 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import { avatarImageProps } from "@shared/images";
 
 export default function Profile() {
   const [, params] = useRoute("/profile/:userId");
@@ -40,23 +46,29 @@ export default function Profile() {
   const { user: currentUser, isLoading: authLoading } = useAuth();
   const { toast } = useToast();
 
-  const [selectedEntry, setSelectedEntry] = useState<WikiEntry | null>(null);
+  const [selectedEntry, setSelectedEntry] = useState<(WikiEntryWithDraft & EntryModerationInfo) | null>(null);
   const [detailDialogOpen, setDetailDialogOpen] = useState(false);
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
-  const [editingEntry, setEditingEntry] = useState<WikiEntry | null>(null);
+  const [editingEntry, setEditingEntry] = useState<WikiEntryWithDraft | null>(null);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
-  const [entryToDelete, setEntryToDelete] = useState<WikiEntry | null>(null);
+  const [entryToDelete, setEntryToDelete] = useState<WikiEntryWithDraft | null>(null);
   const [galleryOpen, setGalleryOpen] = useState(false);
 
   const userId = params?.userId;
   const isOwnProfile = currentUser?.id === userId;
 
-  // Fetch user profile with entries
-  const { data: profile, isLoading: profileLoading } = useQuery<UserWithEntries>({
+  // Fetch user profile; entries are loaded page by page below
+  const { data: profile, isLoading: profileLoading } = useQuery<UserProfile>({
     queryKey: ["/api/profile", userId],
     enabled: !!userId,
   });
 
+  // Own profile lists every entry with its latest moderation decision, other
+  // profiles only approved ones
+  const entries = useInfiniteList<WikiEntryWithDraft & EntryStats & EntryTags & EntryModerationInfo>(["/api/profile", userId!, "entries"], {}, {
+    enabled: !!userId,
+  });
+
   useEffect(() => {
     if (!authLoading && !currentUser && !profileLoading && !profile) {
       toast({
@@ -71,7 +83,7 @@ export default function Profile() {
   }, [authLoading, currentUser, profileLoading, profile, toast]);
 
   const createMutation = useMutation({
-    mutationFn: async (data: { title: string; description: string; imageUrl?: string }) => {
+    mutationFn: async (data: { title: string; description: string; imageUrl?: string; tags: string[] }) => {
       return await apiRequest("POST", "/api/entries", data);
     },
     onSuccess: () => {
@@ -103,17 +115,21 @@ export default function Profile() {
   });
 
   const updateMutation = useMutation({
-    mutationFn: async (data: { id: string; title: string; description: string; imageUrl?: string }) => {
+    mutationFn: async (data: { id: string; title: string; description: string; imageUrl?: string; tags: string[] }) => {
       const { id, ...updateData } = data;
       return await apiRequest("PATCH", `/api/entries/${id}`, updateData);
     },
-    onSuccess: () => {
+    onSuccess: async (res) => {
+      const entry: WikiEntryWithDraft = await res.json();
       queryClient.invalidateQueries({ queryKey: ["/api/profile", userId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/entries", entry.id] });
       setEditingEntry(null);
       setDetailDialogOpen(false);
       toast({
         title: "Thành công",
-        description: "Entry đã được cập nhật",
+        description: entry.pendingDraft
+          ? "Chỉnh sửa đã được gửi và đang chờ duyệt. Phiên bản hiện tại vẫn hiển thị."
+          : "Entry đã được cập nhật",
       });
     },
     onError: (error) => {
@@ -170,6 +186,39 @@ export default function Profile() {
     },
   });
 
+  const resubmitMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("POST", `/api/entries/${id}/resubmit`);
+    },
+    onSuccess: (_res, id) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/profile", userId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/entries", id] });
+      setDetailDialogOpen(false);
+      toast({
+        title: "Thành công",
+        description: "Entry đã được gửi duyệt lại",
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Không được phép",
+          description: "Đang đăng nhập lại...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Lỗi",
+        description: "Không thể gửi duyệt lại entry",
+        variant: "destructive",
+      });
+    },
+  });
+
   const updateAvatarMutation = useMutation({
     mutationFn: async (imageUrl: string) => {
       return await apiRequest("PATCH", "/api/user/avatar", { imageUrl });
@@ -210,11 +259,17 @@ export default function Profile() {
     },
   });
 
-  const handleEntryClick = (entry: WikiEntry) => {
+  const handleEntryClick = (entry: WikiEntryWithDraft & EntryModerationInfo) => {
     setSelectedEntry(entry);
     setDetailDialogOpen(true);
   };
 
+  const getDraftContent = (draft: NonNullable<WikiEntryWithDraft["pendingDraft"]>) => ({
+    title: draft.title,
+    description: draft.description,
+    imageUrl: draft.imageUrl,
+  });
+
   const handleEdit = () => {
     if (selectedEntry) {
       setEditingEntry(selectedEntry);
@@ -264,8 +319,7 @@ export default function Profile() {
   };
 
   const fullName = `${profile.firstName || ""} ${profile.lastName || ""}`.trim() || "Người dùng";
-  const approvedEntries = profile.wikiEntries.filter((e) => e.status === "approved");
-  const displayEntries = isOwnProfile ? profile.wikiEntries : approvedEntries;
+  const displayEntries = entries.items;
 
   return (
     <div className="min-h-screen bg-background">
@@ -276,7 +330,7 @@ export default function Profile() {
         <div className="max-w-5xl mx-auto mb-8 md:mb-12">
           <div className="flex flex-col md:flex-row gap-4 md:gap-8 items-start">
             <Avatar className="h-24 md:h-32 w-24 md:w-32 flex-shrink-0">
-              <AvatarImage src={profile.profileImageUrl || undefined} alt={fullName} />
+              <AvatarImage {...avatarImageProps(profile.profileImageUrl, 128)} alt={fullName} />
               <AvatarFallback className="text-2xl md:text-3xl">
                 {getInitials(profile.firstName, profile.lastName)}
               </AvatarFallback>
@@ -322,7 +376,7 @@ export default function Profile() {
                 <div className="flex items-center gap-2">
                   <FileText className="h-4 w-4" />
                   <span data-testid="text-entry-count">
-                    {displayEntries.length} entries
+                    {profile.entryCount} entries
                   </span>
                 </div>
                 <div className="flex items-center gap-2">
@@ -343,9 +397,21 @@ export default function Profile() {
           </div>
         </div>
 
+        {isOwnProfile && currentUser && (
+          <div className="max-w-5xl mx-auto mb-6 md:mb-8 space-y-4">
+            <EmailVerificationNotice user={currentUser} />
+            <LinkedAccounts />
+            <TwoFactorSettings />
+          </div>
+        )}
+
         {/* Entries Grid */}
         <div className="max-w-5xl mx-auto">
-          {displayEntries.length === 0 ? (
+          {entries.isLoading ? (
+            <div className="flex items-center justify-center py-8 md:py-12">
+              <Loader2 className="h-6 md:h-8 w-6 md:w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : displayEntries.length === 0 ? (
             <div className="text-center py-8 md:py-12 border rounded-lg bg-card">
               <p className="text-sm md:text-base text-muted-foreground mb-3 md:mb-4" data-testid="text-no-entries">
                 {isOwnProfile ? "Bạn chưa có entry nào" : "Người dùng chưa có entry nào"}
@@ -371,6 +437,11 @@ export default function Profile() {
                   />
                 ))}
               </div>
+              <LoadMore
+                hasNextPage={entries.hasNextPage}
+                isFetchingNextPage={entries.isFetchingNextPage}
+                fetchNextPage={entries.fetchNextPage}
+              />
             </div>
           )}
         </div>
@@ -384,6 +455,8 @@ export default function Profile() {
         canEdit={isOwnProfile}
         onEdit={handleEdit}
         onDelete={handleDelete}
+        onResubmit={() => selectedEntry && resubmitMutation.mutate(selectedEntry.id)}
+        isResubmitting={resubmitMutation.isPending}
       />
 
       {/* Create Entry Dialog */}
@@ -408,7 +481,8 @@ export default function Profile() {
           </DialogHeader>
           {editingEntry && (
             <WikiEntryForm
-              entry={editingEntry}
+              // Keep editing the pending draft rather than the live version
+              entry={editingEntry.pendingDraft ? { ...editingEntry, ...getDraftContent(editingEntry.pendingDraft) } : editingEntry}
               onSubmit={(data) => updateMutation.mutate({ id: editingEntry.id, ...data })}
               onCancel={() => setEditingEntry(null)}
               isSubmitting={updateMutation.isPending}
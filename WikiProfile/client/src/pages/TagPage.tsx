@@ -0,0 +1,91 @@
+import { useQuery } from "@tanstack/react-query";
+import { useLocation, useParams } from "wouter";
+import { Header } from "@/components/Header";
+import { WikiEntryCard } from "@/components/WikiEntryCard";
+import { LoadMore } from "@/components/LoadMore";
+import { useInfiniteList } from "@/hooks/use-infinite-list";
+import type { WikiEntry, User, Tag, EntryStats, EntryTags } from "@shared/schema";
+import { entryPath } from "@shared/slug";
+import { Loader2, Hash } from "lucide-react";
+
+type EntryWithUser = WikiEntry & EntryStats & EntryTags & { user: User };
+
+export default function TagPage() {
+  const { slug } = useParams<{ slug: string }>();
+  const [, setLocation] = useLocation();
+
+  const { data: tag, isLoading: tagLoading } = useQuery<Tag>({
+    queryKey: ["/api/tags", slug],
+  });
+
+  const entries = useInfiniteList<EntryWithUser>(["/api/tags", slug, "entries"], {}, { enabled: !!tag });
+
+  const handleEntryClick = (entry: EntryWithUser) => {
+    setLocation(entryPath(entry));
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="container mx-auto px-3 sm:px-4 py-6 sm:py-8 md:py-12">
+        <div className="max-w-5xl mx-auto">
+          {tagLoading ? (
+            <div className="flex items-center justify-center py-8 md:py-12">
+              <Loader2 className="h-6 md:h-8 w-6 md:w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : !tag ? (
+            <div className="text-center py-8 md:py-12">
+              <p className="text-sm md:text-base lg:text-lg text-muted-foreground" data-testid="text-tag-not-found">
+                Không tìm thấy thẻ này
+              </p>
+            </div>
+          ) : (
+            <>
+              <div className="mb-6 md:mb-10">
+                <h1 className="flex items-center gap-2 text-2xl sm:text-3xl md:text-4xl font-bold" data-testid="text-tag-title">
+                  <Hash className="h-6 md:h-8 w-6 md:w-8 text-muted-foreground" />
+                  {tag.name}
+                </h1>
+                <p className="text-sm md:text-base text-muted-foreground mt-2" data-testid="text-tag-description">
+                  Các entries được gắn thẻ “{tag.name}”
+                </p>
+              </div>
+
+              {entries.isLoading ? (
+                <div className="flex items-center justify-center py-8 md:py-12">
+                  <Loader2 className="h-6 md:h-8 w-6 md:w-8 animate-spin text-muted-foreground" />
+                </div>
+              ) : entries.items.length === 0 ? (
+                <div className="text-center py-8 md:py-12">
+                  <p className="text-sm md:text-base lg:text-lg text-muted-foreground" data-testid="text-no-tag-entries">
+                    Chưa có entries nào với thẻ này
+                  </p>
+                </div>
+              ) : (
+                <>
+                  <div className="grid gap-3 md:gap-4 lg:gap-6 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3">
+                    {entries.items.map((entry) => (
+                      <div
+                        key={entry.id}
+                        onClick={() => handleEntryClick(entry)}
+                        data-testid={`tag-entry-${entry.id}`}
+                      >
+                        <WikiEntryCard entry={entry} />
+                      </div>
+                    ))}
+                  </div>
+                  <LoadMore
+                    hasNextPage={entries.hasNextPage}
+                    isFetchingNextPage={entries.isFetchingNextPage}
+                    fetchNextPage={entries.fetchNextPage}
+                  />
+                </>
+              )}
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import type { AuditAction, AuditTargetType, User, WikiEntry } from "@shared/schema";
+import { storage } from "./storage";
+
+// Only the fields moderation actions change; never password hashes or tokens
+export function userAuditSnapshot(user: User | undefined) {
+  if (!user) return null;
+  return {
+    username: user.username,
+    email: user.email,
+    role: user.role,
+    badge: user.badge,
+    isBanned: user.isBanned,
+    banReason: user.banReason,
+    bannedUntil: user.bannedUntil,
+  };
+}
+
+export function entryAuditSnapshot(entry: WikiEntry | undefined) {
+  if (!entry) return null;
+  return {
+    title: entry.title,
+    userId: entry.userId,
+    status: entry.status,
+    verification: entry.verification,
+  };
+}
+
+// Records an action by the signed-in user. Called after the change has been
+// made, so failed or rejected requests leave no row.
+export async function recordAudit(
+  req: any,
+  action: AuditAction,
+  target: { type: AuditTargetType; id: string },
+  change: { before?: unknown; after?: unknown; reason?: string | null } = {},
+) {
+  await storage.recordAudit({
+    actorId: req.user.claims.sub,
+    action,
+    targetType: target.type,
+    targetId: target.id,
+    before: change.before ?? null,
+    after: change.after ?? null,
+    reason: typeof change.reason === "string" && change.reason.trim() ? change.reason.trim() : null,
+  });
+}
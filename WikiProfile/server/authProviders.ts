@@ -0,0 +1,227 @@
+import * as client from "openid-client";
+import memoize from "memoizee";
+import { z } from "zod";
+import type { AuthProviderInfo } from "@shared/schema";
+
+type Tokens = client.TokenEndpointResponse & client.TokenEndpointResponseHelpers;
+
+// What a provider tells us about the account that signed in
+export type ExternalProfile = {
+  subject: string;
+  email: string | null;
+  emailVerified: boolean;
+  firstName: string | null;
+  lastName: string | null;
+  profileImageUrl: string | null;
+};
+
+// An external login provider. Passport strategies are built from
+// clientConfig(); profile() turns the token response into an account.
+export interface AuthProvider {
+  readonly info: AuthProviderInfo;
+  readonly scope: string;
+  readonly prompt?: string;
+  clientConfig(): Promise<client.Configuration>;
+  profile(tokens: Tokens): Promise<ExternalProfile>;
+  // Where to send the browser to end the provider session, if it has one
+  endSessionUrl(postLogoutRedirectUri: string): Promise<string | undefined>;
+}
+
+const CONFIG_MAX_AGE_MS = 3600 * 1000;
+
+// "local" is the session provider of password logins
+const providerId = z.string().regex(/^[a-z0-9_-]+$/).refine((id) => id !== "local", "\"local\" is reserved");
+
+const oidcConfigSchema = z.object({
+  type: z.literal("oidc"),
+  id: providerId,
+  label: z.string().min(1),
+  issuer: z.string().url(),
+  clientId: z.string().min(1),
+  clientSecret: z.string().optional(),
+  scope: z.string().default("openid email profile"),
+  prompt: z.string().optional(),
+  // The issuer only hands out verified addresses, even without email_verified
+  trustEmail: z.boolean().default(false),
+  // Allows a plain-http issuer, e.g. a local mock issuer in development and tests
+  allowInsecureRequests: z.boolean().default(false),
+});
+
+const githubConfigSchema = z.object({
+  type: z.literal("github"),
+  id: providerId.default("github"),
+  label: z.string().min(1).default("GitHub"),
+  clientId: z.string().min(1),
+  clientSecret: z.string().min(1),
+  scope: z.string().default("read:user user:email"),
+});
+
+const providerConfigSchema = z.discriminatedUnion("type", [oidcConfigSchema, githubConfigSchema]);
+export type AuthProviderConfig = z.infer<typeof providerConfigSchema>;
+
+function stringClaim(claims: Record<string, unknown>, key: string): string | null {
+  const value = claims[key];
+  return typeof value === "string" && value ? value : null;
+}
+
+// Any standards-compliant OpenID Connect issuer (Replit, Google, Keycloak...)
+class OidcProvider implements AuthProvider {
+  readonly info: AuthProviderInfo;
+  readonly scope: string;
+  readonly prompt?: string;
+
+  constructor(private readonly config: z.infer<typeof oidcConfigSchema>) {
+    this.info = { id: config.id, label: config.label, type: "oidc" };
+    this.scope = config.scope;
+    this.prompt = config.prompt;
+  }
+
+  // Discovery is cached; failed lookups are retried on the next login
+  clientConfig = memoize(
+    async () => {
+      return await client.discovery(
+        new URL(this.config.issuer),
+        this.config.clientId,
+        this.config.clientSecret,
+        undefined,
+        this.config.allowInsecureRequests ? { execute: [client.allowInsecureRequests] } : undefined,
+      );
+    },
+    { maxAge: CONFIG_MAX_AGE_MS, promise: true },
+  );
+
+  async profile(tokens: Tokens): Promise<ExternalProfile> {
+    const claims = tokens.claims();
+    if (!claims) {
+      throw new Error(`${this.config.id}: token response has no ID token`);
+    }
+    return {
+      subject: claims.sub,
+      email: stringClaim(claims, "email"),
+      emailVerified: this.config.trustEmail || claims.email_verified === true,
+      // Replit uses its own claim names; others follow the OIDC standard ones
+      firstName: stringClaim(claims, "first_name") ?? stringClaim(claims, "given_name"),
+      lastName: stringClaim(claims, "last_name") ?? stringClaim(claims, "family_name"),
+      profileImageUrl: stringClaim(claims, "profile_image_url") ?? stringClaim(claims, "picture"),
+    };
+  }
+
+  async endSessionUrl(postLogoutRedirectUri: string): Promise<string | undefined> {
+    const config = await this.clientConfig();
+    if (!config.serverMetadata().end_session_endpoint) return undefined;
+    return client.buildEndSessionUrl(config, {
+      client_id: this.config.clientId,
+      post_logout_redirect_uri: postLogoutRedirectUri,
+    }).href;
+  }
+}
+
+async function githubApi<T>(path: string, accessToken: string): Promise<T> {
+  const res = await fetch(`https://api.github.com${path}`, {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      Accept: "application/vnd.github+json",
+      "User-Agent": "pixelsWIKI",
+    },
+  });
+  if (!res.ok) {
+    throw new Error(`GitHub API ${path} answered ${res.status}`);
+  }
+  return (await res.json()) as T;
+}
+
+// GitHub speaks plain OAuth 2.0: no discovery and no ID token, so the
+// account comes from its REST API
+class GitHubProvider implements AuthProvider {
+  readonly info: AuthProviderInfo;
+  readonly scope: string;
+  private readonly configuration: client.Configuration;
+
+  constructor(config: z.infer<typeof githubConfigSchema>) {
+    this.info = { id: config.id, label: config.label, type: "github" };
+    this.scope = config.scope;
+    this.configuration = new client.Configuration(
+      {
+        issuer: "https://github.com",
+        authorization_endpoint: "https://github.com/login/oauth/authorize",
+        token_endpoint: "https://github.com/login/oauth/access_token",
+      },
+      config.clientId,
+      config.clientSecret,
+    );
+  }
+
+  async clientConfig(): Promise<client.Configuration> {
+    return this.configuration;
+  }
+
+  async profile(tokens: Tokens): Promise<ExternalProfile> {
+    const user = await githubApi<{ id: number; name: string | null; avatar_url: string | null }>("/user", tokens.access_token);
+    const emails = await githubApi<{ email: string; primary: boolean; verified: boolean }[]>("/user/emails", tokens.access_token);
+    const primary = emails.find((email) => email.primary && email.verified);
+    const name = user.name?.trim() ?? "";
+    const lastSpace = name.lastIndexOf(" ");
+    return {
+      subject: String(user.id),
+      email: primary?.email ?? null,
+      emailVerified: !!primary,
+      firstName: (lastSpace > 0 ? name.slice(0, lastSpace) : name) || null,
+      lastName: lastSpace > 0 ? name.slice(lastSpace + 1) : null,
+      profileImageUrl: user.avatar_url,
+    };
+  }
+
+  async endSessionUrl(): Promise<string | undefined> {
+    return undefined;
+  }
+}
+
+// Replit sign-in is configured by REPL_ID (and ISSUER_URL) as before; more
+// providers come from AUTH_PROVIDERS, a JSON array of provider configs
+function loadProviderConfigs(): AuthProviderConfig[] {
+  const configs: AuthProviderConfig[] = [];
+  if (process.env.REPL_ID) {
+    configs.push(oidcConfigSchema.parse({
+      type: "oidc",
+      id: "replit",
+      label: "Replit",
+      issuer: process.env.ISSUER_URL ?? "https://replit.com/oidc",
+      clientId: process.env.REPL_ID,
+      scope: "openid email profile offline_access",
+      prompt: "login consent",
+      trustEmail: true,
+    }));
+  }
+  if (process.env.AUTH_PROVIDERS) {
+    configs.push(...z.array(providerConfigSchema).parse(JSON.parse(process.env.AUTH_PROVIDERS)));
+  }
+
+  const ids = new Set<string>();
+  for (const { id } of configs) {
+    if (ids.has(id)) {
+      throw new Error(`Duplicate auth provider id: ${id}`);
+    }
+    ids.add(id);
+  }
+  return configs;
+}
+
+function createAuthProvider(config: AuthProviderConfig): AuthProvider {
+  switch (config.type) {
+    case "oidc":
+      return new OidcProvider(config);
+    case "github":
+      return new GitHubProvider(config);
+  }
+}
+
+export const authProviders = new Map(loadProviderConfigs().map((config) => [config.id, createAuthProvider(config)]));
+
+export function getAuthProvider(id: string): AuthProvider | undefined {
+  return authProviders.get(id);
+}
+
+// Used by plain /api/login links: Replit when configured, else the first provider
+export function defaultAuthProvider(): AuthProvider | undefined {
+  return authProviders.get("replit") ?? authProviders.values().next().value;
+}
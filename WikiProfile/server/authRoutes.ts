@@ -1,21 +1,181 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
+import { createHash, randomBytes } from "node:crypto";
+import passport from "passport";
 import { storage } from "./storage";
 import bcrypt from "bcryptjs";
 import { z } from "zod";
-import session from "express-session";
+import {
+  AUTH_TOKEN_TTL_MINUTES,
+  type AuthTokenPurpose,
+  type LinkedIdentities,
+  type TwoFactorStatus,
+  type User,
+} from "@shared/schema";
+import { requiresTwoFactor } from "@shared/permissions";
+import { findPasswordUser, isAuthenticated, localSessionUser, type SessionUser } from "./replitAuth";
+import { mailTransport } from "./mail";
+import { disconnectSession, updateClientTwoFactor } from "./realtime";
+import {
+  acceptLoginAttempt,
+  failedLoginBlock,
+  recordLoginSuccess,
+  startLoginAttempt,
+  type LoginAttemptTicket,
+  type LoginBlock,
+} from "./loginThrottle";
+import {
+  MAX_TWO_FACTOR_ATTEMPTS,
+  PENDING_TWO_FACTOR_MS,
+  generateRecoveryCodes,
+  generateTwoFactorSecret,
+  hashRecoveryCode,
+  matchTotpStep,
+  twoFactorSetup,
+  verifyTwoFactorCode,
+} from "./twoFactor";
+
+const REMEMBER_ME_MAX_AGE = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+// Stores the user in the session; passport regenerates the session id first
+function logIn(req: Request, user: SessionUser): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.login(user, (error) => (error ? reject(error) : resolve()));
+  });
+}
+
+// Password signups made before emails were asked for got a placeholder address
+const PLACEHOLDER_EMAIL_DOMAIN = "@local.pixelswiki";
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// Links in emails point at APP_URL; the request's own origin is only a
+// fallback for development, since the Host header is client-controlled
+function appUrl(req: Request, path: string): string {
+  const base = process.env.APP_URL?.replace(/\/+$/, "") || `${req.protocol}://${req.get("host")}`;
+  return `${base}${path}`;
+}
+
+// Issues a single-use token for the user's current address; only its hash is stored
+async function issueAuthToken(user: User & { email: string }, purpose: AuthTokenPurpose): Promise<string> {
+  const token = randomBytes(32).toString("base64url");
+  await storage.createAuthToken({
+    userId: user.id,
+    purpose,
+    tokenHash: hashToken(token),
+    email: user.email,
+    expiresAt: new Date(Date.now() + AUTH_TOKEN_TTL_MINUTES[purpose] * 60 * 1000),
+  });
+  return token;
+}
+
+function displayName(user: User): string {
+  return `${user.firstName || ""} ${user.lastName || ""}`.trim() || user.username || user.email || "bạn";
+}
+
+async function sendVerificationEmail(req: Request, user: User & { email: string }): Promise<void> {
+  const token = await issueAuthToken(user, "email_verification");
+  await mailTransport.send({
+    to: user.email,
+    subject: "Xác minh email của bạn trên pixelsWIKI",
+    text: [
+      `Chào ${displayName(user)},`,
+      "",
+      "Hãy mở liên kết sau để xác minh địa chỉ email của bạn:",
+      appUrl(req, `/auth?verify=${token}`),
+      "",
+      `Liên kết có hiệu lực trong ${AUTH_TOKEN_TTL_MINUTES.email_verification / 60} giờ.`,
+      "Nếu bạn không tạo tài khoản, hãy bỏ qua email này.",
+    ].join("\n"),
+  });
+}
+
+async function sendPasswordResetEmail(req: Request, user: User & { email: string }): Promise<void> {
+  const token = await issueAuthToken(user, "password_reset");
+  await mailTransport.send({
+    to: user.email,
+    subject: "Đặt lại mật khẩu pixelsWIKI",
+    text: [
+      `Chào ${displayName(user)},`,
+      "",
+      "Có người đã yêu cầu đặt lại mật khẩu cho tài khoản của bạn. Mở liên kết sau để chọn mật khẩu mới:",
+      appUrl(req, `/auth?reset=${token}`),
+      "",
+      `Liên kết có hiệu lực trong ${AUTH_TOKEN_TTL_MINUTES.password_reset} phút và chỉ dùng được một lần.`,
+      "Nếu bạn không yêu cầu, hãy bỏ qua email này; mật khẩu của bạn sẽ không thay đổi.",
+    ].join("\n"),
+  });
+}
+
+function hasRealEmail(user: User): user is User & { email: string } {
+  return !!user.email && !user.email.endsWith(PLACEHOLDER_EMAIL_DOMAIN);
+}
+
+const passwordField = z
+  .string()
+  .min(8)
+  .regex(/[A-Z]/)
+  .regex(/[0-9]/)
+  .regex(/[!@#$%^&*(),.?":{}|<>]/);
+
+const emailField = z.string().trim().toLowerCase().email().max(255);
 
 const signupSchema = z.object({
   username: z.string().min(3).max(20).regex(/^[a-zA-Z0-9_]+$/),
+  email: emailField,
   firstName: z.string().min(1),
   lastName: z.string().min(1),
-  password: z
-    .string()
-    .min(8)
-    .regex(/[A-Z]/)
-    .regex(/[0-9]/)
-    .regex(/[!@#$%^&*(),.?":{}|<>]/),
+  password: passwordField,
 });
 
+// Checks a 2FA code for the signed-in user. Wrong codes are counted per
+// session, and the session ends once there have been too many.
+async function checkSessionTwoFactorCode(req: Request, res: Response, userId: string, code: string): Promise<boolean> {
+  if (await verifyTwoFactorCode(userId, code)) {
+    req.session.twoFactorFailures = 0;
+    return true;
+  }
+
+  const failures = (req.session.twoFactorFailures ?? 0) + 1;
+  if (failures >= MAX_TWO_FACTOR_ATTEMPTS) {
+    const sessionId = req.sessionID;
+    await new Promise<void>((resolve) => req.logout(() => resolve()));
+    disconnectSession(sessionId);
+    res.status(401).json({ message: "Too many invalid codes, signed out" });
+  } else {
+    req.session.twoFactorFailures = failures;
+    res.status(400).json({ message: "Invalid code" });
+  }
+  return false;
+}
+
+// Only a verified address belongs to its account. An unverified one is taken
+// off its account for whoever asks for it next, who must verify it in turn,
+// so nobody can squat on someone else's email by never verifying it.
+async function claimEmail(email: string, userId?: string): Promise<boolean> {
+  const owner = await storage.getUserByEmail(email);
+  if (!owner || owner.id === userId) return true;
+  if (owner.emailVerifiedAt) return false;
+  return !!(await storage.releaseUnverifiedEmail(owner.id));
+}
+
+// 429 with when to try again; the login page shows it as a lockout notice
+function sendLoginBlocked(res: Response, block: LoginBlock) {
+  const retryAfter = Math.max(1, Math.ceil((block.lockedUntil.getTime() - Date.now()) / 1000));
+  res.set("Retry-After", String(retryAfter));
+  res.status(429).json({
+    message: "Too many failed login attempts",
+    code: block.lockedOut ? "locked_out" : "backoff",
+    lockedUntil: block.lockedUntil.toISOString(),
+    retryAfter,
+  });
+}
+
+const tokenSchema = z.object({ token: z.string().min(1).max(200) });
+const twoFactorCodeSchema = z.object({ code: z.string().trim().min(1).max(32) });
+const resetPasswordSchema = tokenSchema.extend({ password: passwordField });
+
 export async function registerAuthRoutes(app: Express) {
   // Password signup endpoint
   app.post("/api/auth/signup", async (req, res) => {
@@ -27,6 +187,9 @@ export async function registerAuthRoutes(app: Express) {
       if (existingUser) {
         return res.status(400).json({ message: "Username already exists" });
       }
+      if (!(await claimEmail(data.email))) {
+        return res.status(400).json({ message: "Email already in use" });
+      }
 
       // Hash password
       const hashedPassword = await bcrypt.hash(data.password, 10);
@@ -38,15 +201,19 @@ export async function registerAuthRoutes(app: Express) {
         firstName: data.firstName,
         lastName: data.lastName,
         password: hashedPassword,
-        email: `${data.username}@local.pixelswiki`,
+        email: data.email,
         isAdmin: false,
         role: "user",
       });
 
-      // Session setup for local users
-      (req as any).user = { claims: { sub: user.id }, ...user };
-      (req as any).isAuthenticated = () => true;
-      
+      await logIn(req, localSessionUser(user.id));
+      // The account works right away; a failed email can be resent from the profile
+      try {
+        await sendVerificationEmail(req, { ...user, email: data.email });
+      } catch (mailError) {
+        console.error("Error sending verification email:", mailError);
+      }
+
       res.json(user);
     } catch (error: any) {
       console.error("Signup error:", error);
@@ -57,38 +224,387 @@ export async function registerAuthRoutes(app: Express) {
     }
   });
 
-  // Password login endpoint
-  app.post("/api/auth/login", async (req, res) => {
+  // Password login endpoint, checked by the passport-local strategy (see setupAuth)
+  // Attempts are throttled per account and per IP (see loginThrottle.ts)
+  app.post("/api/auth/login", async (req, res, next) => {
+    const { username, password, rememberMe } = req.body;
+
+    if (typeof username !== "string" || typeof password !== "string" || !username || !password) {
+      return res.status(400).json({ message: "Username and password required" });
+    }
+
+    let ticket: LoginAttemptTicket;
+    try {
+      const account = await findPasswordUser(username);
+      const attempt = await startLoginAttempt(account ? { userId: account.id } : { name: username }, req.ip);
+      if ("block" in attempt) {
+        return sendLoginBlocked(res, attempt.block);
+      }
+      ticket = attempt.ticket;
+    } catch (error) {
+      console.error("Login error:", error);
+      return res.status(500).json({ message: "Login failed" });
+    }
+
+    passport.authenticate("local", async (error: unknown, sessionUser: SessionUser | false) => {
+      try {
+        if (error) throw error;
+        if (!sessionUser) {
+          const block = failedLoginBlock(ticket);
+          if (block) {
+            return sendLoginBlocked(res, block);
+          }
+          return res.status(401).json({ message: "Invalid credentials" });
+        }
+        await acceptLoginAttempt(ticket);
+
+        // With 2FA on, the password only unlocks the second step
+        const user = await storage.getUser(sessionUser.claims.sub);
+        if (user?.twoFactorEnabledAt) {
+          req.session.pendingTwoFactor = {
+            userId: user.id,
+            rememberMe: !!rememberMe,
+            attempts: 0,
+            expiresAt: Date.now() + PENDING_TWO_FACTOR_MS,
+          };
+          return res.json({ twoFactorRequired: true });
+        }
+
+        await logIn(req, sessionUser);
+        await recordLoginSuccess(sessionUser.claims.sub);
+        // Remember me keeps the session cookie for 30 days instead of one week
+        if (rememberMe) {
+          req.session.cookie.maxAge = REMEMBER_ME_MAX_AGE;
+        }
+
+        res.json(user);
+      } catch (loginError) {
+        console.error("Login error:", loginError);
+        res.status(500).json({ message: "Login failed" });
+      }
+    })(req, res, next);
+  });
+
+  // Second login step: a TOTP or recovery code for the password checked above.
+  // Wrong codes count against the account and IP like wrong passwords, so
+  // entering the password again doesn't buy more guesses.
+  app.post("/api/auth/login/2fa", async (req, res) => {
     try {
-      const { username, password, rememberMe } = req.body;
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const pending = req.session.pendingTwoFactor;
+      if (!pending || pending.expiresAt < Date.now()) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Login expired, enter your password again" });
+      }
 
-      if (!username || !password) {
-        return res.status(400).json({ message: "Username and password required" });
+      const attempt = await startLoginAttempt({ userId: pending.userId }, req.ip);
+      if ("block" in attempt) {
+        return sendLoginBlocked(res, attempt.block);
       }
 
-      const user = await storage.getUserByUsername(username);
-      if (!user || !user.password) {
-        return res.status(401).json({ message: "Invalid credentials" });
+      if (!(await verifyTwoFactorCode(pending.userId, code))) {
+        pending.attempts += 1;
+        if (pending.attempts >= MAX_TWO_FACTOR_ATTEMPTS) {
+          delete req.session.pendingTwoFactor;
+          return res.status(401).json({ message: "Too many invalid codes, enter your password again" });
+        }
+        const block = failedLoginBlock(attempt.ticket);
+        if (block) {
+          return sendLoginBlocked(res, block);
+        }
+        return res.status(400).json({ message: "Invalid code" });
       }
 
-      const isPasswordValid = await bcrypt.compare(password, user.password);
-      if (!isPasswordValid) {
-        return res.status(401).json({ message: "Invalid credentials" });
+      await acceptLoginAttempt(attempt.ticket);
+      delete req.session.pendingTwoFactor;
+      await logIn(req, localSessionUser(pending.userId));
+      await recordLoginSuccess(pending.userId);
+      req.session.twoFactorVerified = true;
+      if (pending.rememberMe) {
+        req.session.cookie.maxAge = REMEMBER_ME_MAX_AGE;
       }
 
-      // Session setup for local users
-      (req as any).user = { claims: { sub: user.id }, ...user };
-      (req as any).isAuthenticated = () => true;
-      
-      // If rememberMe is true, extend session cookie expiry (30 days)
-      if (rememberMe) {
-        (req as any).session.cookie.maxAge = 30 * 24 * 60 * 60 * 1000; // 30 days in ms
+      res.json(await storage.getUser(pending.userId));
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid code", errors: error.errors });
       }
-      
-      res.json(user);
-    } catch (error) {
-      console.error("Login error:", error);
+      console.error("Two-factor login error:", error);
       res.status(500).json({ message: "Login failed" });
     }
   });
+
+  app.get("/api/auth/2fa", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const status: TwoFactorStatus = {
+        enabled: !!user.twoFactorEnabledAt,
+        required: requiresTwoFactor(user),
+        verified: !!req.session.twoFactorVerified,
+        recoveryCodesRemaining: user.twoFactorEnabledAt ? await storage.countRecoveryCodes(userId) : 0,
+      };
+      res.json(status);
+    } catch (error) {
+      console.error("Error fetching two-factor status:", error);
+      res.status(500).json({ message: "Failed to fetch two-factor status" });
+    }
+  });
+
+  // Starts enrollment; nothing is saved until /enable confirms a code
+  app.post("/api/auth/2fa/setup", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (user.twoFactorEnabledAt) {
+        return res.status(409).json({ message: "Two-factor authentication is already enabled" });
+      }
+
+      const secret = generateTwoFactorSecret();
+      req.session.twoFactorSetupSecret = secret;
+      res.json(await twoFactorSetup(user, secret));
+    } catch (error) {
+      console.error("Error starting two-factor setup:", error);
+      res.status(500).json({ message: "Failed to start two-factor setup" });
+    }
+  });
+
+  // Recovery codes are only ever shown in this response (and on regeneration)
+  app.post("/api/auth/2fa/enable", isAuthenticated, async (req: any, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const secret = req.session.twoFactorSetupSecret;
+      if (!secret) {
+        return res.status(409).json({ message: "Start two-factor setup first" });
+      }
+      const step = matchTotpStep(secret, code);
+      if (step === null) {
+        return res.status(400).json({ message: "Invalid code" });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      const user = await storage.enableTwoFactor(req.user.claims.sub, secret, step, recoveryCodes.map(hashRecoveryCode));
+      delete req.session.twoFactorSetupSecret;
+      req.session.twoFactorVerified = true;
+      if (user) updateClientTwoFactor(user, req.sessionID);
+      res.json({ recoveryCodes });
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid code", errors: error.errors });
+      }
+      console.error("Error enabling two-factor authentication:", error);
+      res.status(500).json({ message: "Failed to enable two-factor authentication" });
+    }
+  });
+
+  // For sessions that didn't pass 2FA at login, e.g. provider logins by staff
+  app.post("/api/auth/2fa/verify", isAuthenticated, async (req: any, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      if (!user?.twoFactorEnabledAt) {
+        return res.status(409).json({ message: "Two-factor authentication is not enabled" });
+      }
+      if (!(await checkSessionTwoFactorCode(req, res, userId, code))) return;
+
+      req.session.twoFactorVerified = true;
+      updateClientTwoFactor(user, req.sessionID);
+      res.json({ verified: true });
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid code", errors: error.errors });
+      }
+      console.error("Error verifying two-factor code:", error);
+      res.status(500).json({ message: "Failed to verify code" });
+    }
+  });
+
+  app.post("/api/auth/2fa/recovery-codes", isAuthenticated, async (req: any, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      if (!user?.twoFactorEnabledAt) {
+        return res.status(409).json({ message: "Two-factor authentication is not enabled" });
+      }
+      if (!(await checkSessionTwoFactorCode(req, res, userId, code))) return;
+
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.replaceRecoveryCodes(userId, recoveryCodes.map(hashRecoveryCode));
+      res.json({ recoveryCodes });
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid code", errors: error.errors });
+      }
+      console.error("Error regenerating recovery codes:", error);
+      res.status(500).json({ message: "Failed to regenerate recovery codes" });
+    }
+  });
+
+  app.post("/api/auth/2fa/disable", isAuthenticated, async (req: any, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      if (!user?.twoFactorEnabledAt) {
+        return res.status(409).json({ message: "Two-factor authentication is not enabled" });
+      }
+      // Staff can only have it reset by an admin
+      if (requiresTwoFactor(user)) {
+        return res.status(403).json({ message: "Two-factor authentication is required for your role" });
+      }
+      if (!(await checkSessionTwoFactorCode(req, res, userId, code))) return;
+
+      const updated = await storage.disableTwoFactor(userId);
+      delete req.session.twoFactorVerified;
+      if (updated) updateClientTwoFactor(updated);
+      res.status(204).send();
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid code", errors: error.errors });
+      }
+      console.error("Error disabling two-factor authentication:", error);
+      res.status(500).json({ message: "Failed to disable two-factor authentication" });
+    }
+  });
+
+  // Confirms the address a verification link was sent to
+  app.post("/api/auth/verify-email", async (req, res) => {
+    try {
+      const { token } = tokenSchema.parse(req.body);
+      const authToken = await storage.consumeAuthToken("email_verification", hashToken(token));
+      if (!authToken?.email) {
+        return res.status(400).json({ message: "Invalid or expired verification link" });
+      }
+
+      // The user may have changed their address since the link was sent
+      const user = await storage.markEmailVerified(authToken.userId, authToken.email);
+      if (!user) {
+        return res.status(400).json({ message: "Invalid or expired verification link" });
+      }
+      res.json({ email: user.email });
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid verification data", errors: error.errors });
+      }
+      console.error("Error verifying email:", error);
+      res.status(500).json({ message: "Failed to verify email" });
+    }
+  });
+
+  // Sends a new verification link; an email in the body replaces the current address
+  app.post("/api/auth/resend-verification", isAuthenticated, async (req: any, res) => {
+    try {
+      const { email } = z.object({ email: emailField.optional() }).parse(req.body);
+      let user = await storage.getUser(req.user.claims.sub);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      if (email && email !== user.email?.toLowerCase()) {
+        if (!(await claimEmail(email, user.id))) {
+          return res.status(400).json({ message: "Email already in use" });
+        }
+        user = (await storage.updateUserEmail(user.id, email)) ?? user;
+      }
+      if (!hasRealEmail(user)) {
+        return res.status(400).json({ message: "Email required" });
+      }
+      if (user.emailVerifiedAt) {
+        return res.status(409).json({ message: "Email already verified" });
+      }
+
+      await sendVerificationEmail(req, user);
+      res.json({ email: user.email });
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid email", errors: error.errors });
+      }
+      console.error("Error resending verification email:", error);
+      res.status(500).json({ message: "Failed to send verification email" });
+    }
+  });
+
+  // Always answers the same way, so it can't be used to find out who has an account
+  app.post("/api/auth/forgot-password", async (req, res) => {
+    try {
+      const { email } = z.object({ email: emailField }).parse(req.body);
+      const user = await storage.getUserByEmail(email);
+      // Provider-only accounts get a password this way too
+      if (user && hasRealEmail(user) && !user.isBanned) {
+        await sendPasswordResetEmail(req, user);
+      }
+      res.json({ message: "If the email is registered, a reset link has been sent" });
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid email", errors: error.errors });
+      }
+      console.error("Error requesting password reset:", error);
+      res.status(500).json({ message: "Failed to request password reset" });
+    }
+  });
+
+  app.post("/api/auth/reset-password", async (req, res) => {
+    try {
+      const { token, password } = resetPasswordSchema.parse(req.body);
+      const authToken = await storage.consumeAuthToken("password_reset", hashToken(token));
+      if (!authToken) {
+        return res.status(400).json({ message: "Invalid or expired reset link" });
+      }
+
+      await storage.updateUserPassword(authToken.userId, await bcrypt.hash(password, 10));
+      // Receiving the link proves the address, and old sessions may belong to whoever knew the old password
+      if (authToken.email) {
+        await storage.markEmailVerified(authToken.userId, authToken.email);
+      }
+      await storage.deleteUserSessions(authToken.userId);
+      const user = await storage.getUser(authToken.userId);
+      res.json({ username: user?.username ?? null });
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid reset data", errors: error.errors });
+      }
+      console.error("Error resetting password:", error);
+      res.status(500).json({ message: "Failed to reset password" });
+    }
+  });
+
+  // Provider accounts linked to the signed-in user (linking itself starts at /api/auth/link/:provider)
+  app.get("/api/auth/identities", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const [identities, user] = await Promise.all([storage.getUserIdentities(userId), storage.getUser(userId)]);
+      const linked: LinkedIdentities = { identities, hasPassword: !!user?.password };
+      res.json(linked);
+    } catch (error) {
+      console.error("Error fetching identities:", error);
+      res.status(500).json({ message: "Failed to fetch linked accounts" });
+    }
+  });
+
+  app.delete("/api/auth/identities/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const [identities, user] = await Promise.all([storage.getUserIdentities(userId), storage.getUser(userId)]);
+      if (!identities.some((identity) => identity.id === req.params.id)) {
+        return res.status(404).json({ message: "Linked account not found" });
+      }
+      // Keep at least one way to sign in
+      if (!user?.password && identities.length <= 1) {
+        return res.status(409).json({ message: "Cannot unlink your only sign-in method" });
+      }
+
+      await storage.deleteUserIdentity(userId, req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error unlinking identity:", error);
+      res.status(500).json({ message: "Failed to unlink account" });
+    }
+  });
 }
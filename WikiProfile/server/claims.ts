@@ -0,0 +1,85 @@
+import type { Express } from "express";
+import {
+  DEFAULT_CLAIM_MINUTES,
+  MAX_CLAIM_MINUTES,
+  type ActiveClaim,
+  type ClaimTargetType,
+} from "@shared/schema";
+import type { Permission } from "@shared/permissions";
+import { isAuthenticated, requirePermission } from "./replitAuth";
+import { storage } from "./storage";
+import { publish } from "./realtime";
+
+// Another moderator's unexpired claim on the target, if any. Moderate and
+// resolve routes answer 409 with it unless the request sets `force`.
+export async function claimHeldByOther(
+  targetType: ClaimTargetType,
+  targetId: string,
+  moderatorId: string,
+): Promise<ActiveClaim | undefined> {
+  const claim = (await storage.getActiveClaims(targetType, [targetId])).get(targetId);
+  return claim && claim.moderatorId !== moderatorId ? claim : undefined;
+}
+
+function announce(targetType: ClaimTargetType, targetId: string) {
+  if (targetType === "entry") {
+    publish({ type: "entry.changed", entryId: targetId }, { permission: "entries.moderate" });
+  } else {
+    publish({ type: "report.changed", reportId: targetId }, { permission: "reports.resolve" });
+  }
+}
+
+const CLAIM_ROUTES: {
+  targetType: ClaimTargetType;
+  path: string;
+  permission: Permission;
+  exists: (id: string) => Promise<unknown>;
+}[] = [
+  { targetType: "entry", path: "/api/admin/entries/:id/claim", permission: "entries.moderate", exists: (id) => storage.getEntry(id) },
+  { targetType: "report", path: "/api/admin/reports/:id/claim", permission: "reports.resolve", exists: (id) => storage.getReport(id) },
+];
+
+// POST claims (or extends) a target for `minutes`; DELETE releases your own claim
+export function registerClaimRoutes(app: Express) {
+  for (const { targetType, path, permission, exists } of CLAIM_ROUTES) {
+    app.post(path, isAuthenticated, requirePermission(permission), async (req: any, res) => {
+      try {
+        const { id } = req.params;
+        const moderatorId = req.user.claims.sub;
+        const { minutes = DEFAULT_CLAIM_MINUTES, force = false } = req.body ?? {};
+
+        if (!Number.isInteger(minutes) || minutes < 1 || minutes > MAX_CLAIM_MINUTES) {
+          return res.status(400).json({ message: `minutes must be between 1 and ${MAX_CLAIM_MINUTES}` });
+        }
+        if (!(await exists(id))) {
+          return res.status(404).json({ message: "Not found" });
+        }
+
+        const expiresAt = new Date(Date.now() + minutes * 60 * 1000);
+        const claim = await storage.claimTarget(targetType, id, moderatorId, expiresAt, force === true);
+        if (!claim) {
+          const holder = await claimHeldByOther(targetType, id, moderatorId);
+          return res.status(409).json({ message: "Already claimed by another moderator", claim: holder });
+        }
+
+        announce(targetType, id);
+        res.json((await storage.getActiveClaims(targetType, [id])).get(id) ?? null);
+      } catch (error) {
+        console.error("Error claiming for review:", error);
+        res.status(500).json({ message: "Failed to claim" });
+      }
+    });
+
+    app.delete(path, isAuthenticated, requirePermission(permission), async (req: any, res) => {
+      try {
+        const { id } = req.params;
+        await storage.releaseClaim(targetType, id, req.user.claims.sub);
+        announce(targetType, id);
+        res.status(204).send();
+      } catch (error) {
+        console.error("Error releasing claim:", error);
+        res.status(500).json({ message: "Failed to release claim" });
+      }
+    });
+  }
+}
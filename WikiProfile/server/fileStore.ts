@@ -0,0 +1,118 @@
+import path from "node:path";
+import { mkdir, unlink, writeFile } from "node:fs/promises";
+import express, { type Express } from "express";
+import { DeleteObjectCommand, PutObjectCommand, S3Client } from "@aws-sdk/client-s3";
+
+// Where uploaded files live. Keys are random and never reused, so stored
+// files can be cached forever.
+export interface FileStore {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  delete(key: string): Promise<void>;
+  // Public URL for a stored key
+  url(key: string): string;
+}
+
+const PUBLIC_CACHE_SECONDS = 60 * 60 * 24 * 365;
+
+// Files on the server's disk, served by express under /uploads
+class LocalDiskStore implements FileStore {
+  constructor(private readonly root: string, private readonly baseUrl = "/uploads") {}
+
+  private resolve(key: string): string {
+    const file = path.resolve(this.root, key);
+    if (!file.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid file key: ${key}`);
+    }
+    return file;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const file = this.resolve(key);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, data, { flag: "wx" });
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await unlink(this.resolve(key));
+    } catch (error: any) {
+      if (error.code !== "ENOENT") throw error;
+    }
+  }
+
+  url(key: string): string {
+    return `${this.baseUrl}/${key}`;
+  }
+
+  serve(app: Express) {
+    app.use(this.baseUrl, express.static(this.root, {
+      maxAge: PUBLIC_CACHE_SECONDS * 1000,
+      immutable: true,
+      index: false,
+      fallthrough: false,
+      setHeaders: (res) => {
+        res.setHeader("X-Content-Type-Options", "nosniff");
+      },
+    }));
+  }
+}
+
+// Any S3-compatible bucket (AWS, R2, MinIO...). Objects must be publicly
+// readable at S3_PUBLIC_URL, e.g. through a CDN in front of the bucket.
+class S3Store implements FileStore {
+  private readonly client: S3Client;
+
+  constructor(private readonly bucket: string, private readonly publicUrl: string) {
+    this.client = new S3Client({
+      region: process.env.S3_REGION || "auto",
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      // Most non-AWS providers only support path-style addressing
+      forcePathStyle: !!process.env.S3_ENDPOINT,
+      credentials: process.env.S3_ACCESS_KEY_ID
+        ? {
+            accessKeyId: process.env.S3_ACCESS_KEY_ID,
+            secretAccessKey: process.env.S3_SECRET_ACCESS_KEY ?? "",
+          }
+        : undefined,
+    });
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: data,
+      ContentType: contentType,
+      CacheControl: `public, max-age=${PUBLIC_CACHE_SECONDS}, immutable`,
+    }));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+
+  url(key: string): string {
+    return `${this.publicUrl.replace(/\/+$/, "")}/${key}`;
+  }
+}
+
+function createFileStore(): FileStore {
+  if (process.env.FILE_STORAGE === "s3") {
+    const bucket = process.env.S3_BUCKET;
+    const publicUrl = process.env.S3_PUBLIC_URL;
+    if (!bucket || !publicUrl) {
+      throw new Error("FILE_STORAGE=s3 requires S3_BUCKET and S3_PUBLIC_URL");
+    }
+    return new S3Store(bucket, publicUrl);
+  }
+  return new LocalDiskStore(path.resolve(process.env.UPLOAD_DIR || "uploads"));
+}
+
+export const fileStore = createFileStore();
+
+// Serves locally stored files; a no-op when files live in a bucket
+export function serveUploads(app: Express) {
+  if (fileStore instanceof LocalDiskStore) {
+    fileStore.serve(app);
+  }
+}
@@ -0,0 +1,108 @@
+import sharp, { type Metadata, type Sharp } from "sharp";
+import {
+  IMAGE_EXTENSIONS,
+  IMAGE_VARIANTS,
+  IMAGE_VARIANT_WIDTHS,
+  imageVariantKey,
+  type ImageContentType,
+  type ImageVariant,
+} from "@shared/images";
+
+// Larger images are rejected before decoding (decompression bombs)
+const MAX_INPUT_PIXELS = 40_000_000;
+
+export type ProcessedFile = {
+  key: string;
+  data: Buffer;
+  contentType: ImageContentType;
+};
+
+export type ProcessedImage = {
+  width: number;
+  height: number;
+  files: ProcessedFile[];
+  // Key of the full variant in the original format
+  mainKey: string;
+};
+
+export class ImageProcessingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImageProcessingError";
+  }
+}
+
+function encode(image: Sharp, contentType: ImageContentType): Sharp {
+  switch (contentType) {
+    case "image/jpeg":
+      return image.jpeg({ quality: 82, mozjpeg: true });
+    case "image/png":
+      return image.png({ compressionLevel: 9 });
+    case "image/gif":
+      return image.gif();
+    case "image/webp":
+      return image.webp({ quality: 80 });
+  }
+}
+
+// Re-encodes an upload into every variant, in its own format and as WebP.
+// Re-encoding drops EXIF/GPS and other metadata; orientation is applied to
+// the pixels first so photos don't end up sideways.
+export async function processImage(data: Buffer, contentType: ImageContentType, prefix: string): Promise<ProcessedImage> {
+  const source = sharp(data, {
+    animated: contentType === "image/gif" || contentType === "image/webp",
+    limitInputPixels: MAX_INPUT_PIXELS,
+  }).rotate();
+
+  let metadata: Metadata;
+  try {
+    metadata = await source.metadata();
+  } catch {
+    throw new ImageProcessingError("Image could not be decoded");
+  }
+
+  const formats: ImageContentType[] = contentType === "image/webp" ? ["image/webp"] : [contentType, "image/webp"];
+  const files: ProcessedFile[] = [];
+
+  try {
+    for (const variant of IMAGE_VARIANTS) {
+      for (const format of formats) {
+        const resized = source.clone().resize({
+          width: IMAGE_VARIANT_WIDTHS[variant as ImageVariant],
+          withoutEnlargement: true,
+        });
+        files.push({
+          key: imageVariantKey(prefix, variant, IMAGE_EXTENSIONS[format]),
+          data: await encode(resized, format).toBuffer(),
+          contentType: format,
+        });
+      }
+    }
+  } catch {
+    throw new ImageProcessingError("Image could not be processed");
+  }
+
+  // Orientations 5-8 swap width and height
+  const rotated = (metadata.orientation ?? 1) >= 5;
+  return {
+    width: (rotated ? metadata.height : metadata.width) ?? 0,
+    height: (rotated ? metadata.width : metadata.height) ?? 0,
+    files,
+    mainKey: imageVariantKey(prefix, "full", IMAGE_EXTENSIONS[contentType]),
+  };
+}
+
+// Every file key belonging to a stored image. Uploads from before image
+// processing are a single file whose key has an extension.
+export function storedImageKeys(image: { storageKey: string | null; contentType: string | null }): string[] {
+  if (!image.storageKey) return [];
+  if (/\.[a-z]+$/.test(image.storageKey) || !image.contentType || !(image.contentType in IMAGE_EXTENSIONS)) {
+    return [image.storageKey];
+  }
+  const extension = IMAGE_EXTENSIONS[image.contentType as ImageContentType];
+  return IMAGE_VARIANTS.flatMap((variant) =>
+    extension === "webp"
+      ? [imageVariantKey(image.storageKey!, variant, "webp")]
+      : [imageVariantKey(image.storageKey!, variant, extension), imageVariantKey(image.storageKey!, variant, "webp")],
+  );
+}
@@ -0,0 +1,233 @@
+import { randomUUID } from "node:crypto";
+import dns from "node:dns";
+import http from "node:http";
+import https from "node:https";
+import net from "node:net";
+import {
+  IMAGE_EXTENSIONS,
+  externalImageUrl,
+  imageVariantKey,
+  type ImageContentType,
+  type ImageVariant,
+} from "@shared/images";
+import type { ExternalImage } from "@shared/schema";
+import { storage } from "./storage";
+import { fileStore } from "./fileStore";
+import { sniffImageType } from "./uploads";
+import { processImage } from "./imageProcessing";
+
+const MAX_REMOTE_IMAGE_BYTES = 10 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 10_000;
+const MAX_REDIRECTS = 3;
+
+export class InvalidImageUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidImageUrlError";
+  }
+}
+
+// A remote image that could not be fetched; the message is shown to admins
+class ImageFetchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImageFetchError";
+  }
+}
+
+// Loopback, private, link-local and other non-public ranges. The server must
+// not be usable to reach its own network.
+const blockedAddresses = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 3],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127], ["::ffff:0:0", 96], ["64:ff9b::", 96], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+function isBlockedAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  return blockedAddresses.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+// Checks the resolved addresses at connect time, so a hostname can't pass a
+// check and then resolve somewhere else
+const publicOnlyLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, options, (error, address, family) => {
+    if (error) return callback(error, address, family);
+    const addresses = typeof address === "string" ? [address] : address.map((entry) => entry.address);
+    if (addresses.some(isBlockedAddress)) {
+      return callback(new ImageFetchError(`Host ${hostname} is not public`), address, family);
+    }
+    callback(null, address, family);
+  });
+};
+
+function parseRemoteUrl(value: string, base?: URL): URL {
+  let url: URL;
+  try {
+    url = new URL(value, base);
+  } catch {
+    throw new InvalidImageUrlError("Invalid image URL");
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new InvalidImageUrlError("Image URL must use http or https");
+  }
+  // IP literals never go through the lookup
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  if (net.isIP(host) && isBlockedAddress(host)) {
+    throw new InvalidImageUrlError("Image URL must point to a public host");
+  }
+  return url;
+}
+
+function request(url: URL, signal: AbortSignal): Promise<http.IncomingMessage> {
+  const client = url.protocol === "https:" ? https : http;
+  return new Promise((resolve, reject) => {
+    client
+      .get(url, {
+        lookup: publicOnlyLookup,
+        signal,
+        headers: { "User-Agent": "WikiProfile image fetcher", Accept: "image/*" },
+      }, resolve)
+      .on("error", reject);
+  });
+}
+
+async function readBody(response: http.IncomingMessage): Promise<Buffer> {
+  const declared = Number(response.headers["content-length"]);
+  if (declared > MAX_REMOTE_IMAGE_BYTES) {
+    response.destroy();
+    throw new ImageFetchError("Image is too large");
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of response) {
+    size += chunk.length;
+    if (size > MAX_REMOTE_IMAGE_BYTES) {
+      response.destroy();
+      throw new ImageFetchError("Image is too large");
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+// Downloads an image, following a few redirects; every hop gets the same
+// public-host check
+async function fetchRemoteImage(sourceUrl: string): Promise<{ data: Buffer; contentType: ImageContentType }> {
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  let url = parseRemoteUrl(sourceUrl);
+
+  try {
+    for (let redirects = 0; ; redirects++) {
+      const response = await request(url, signal);
+      const status = response.statusCode ?? 0;
+
+      if (status >= 300 && status < 400 && response.headers.location) {
+        response.resume();
+        if (redirects >= MAX_REDIRECTS) {
+          throw new ImageFetchError("Too many redirects");
+        }
+        url = parseRemoteUrl(response.headers.location, url);
+        continue;
+      }
+      if (status !== 200) {
+        response.resume();
+        throw new ImageFetchError(`Remote server responded with ${status}`);
+      }
+
+      const data = await readBody(response);
+      const contentType = sniffImageType(data);
+      if (!contentType) {
+        throw new ImageFetchError("Not a JPEG, PNG, GIF or WebP image");
+      }
+      return { data, contentType };
+    }
+  } catch (error: any) {
+    if (error instanceof ImageFetchError) throw error;
+    if (error instanceof InvalidImageUrlError) throw new ImageFetchError(`Redirected to an invalid URL: ${error.message}`);
+    if (error?.name === "AbortError" || error?.name === "TimeoutError") throw new ImageFetchError("Timed out");
+    throw new ImageFetchError(error?.code ?? error?.message ?? "Fetch failed");
+  }
+}
+
+// Fetches and stores an image that isn't cached yet. Failures are recorded
+// on the row (status "broken") for the admin report rather than thrown.
+export async function refreshExternalImage(image: ExternalImage): Promise<ExternalImage> {
+  if (image.status === "cached") return image;
+
+  const storageKey = `external/${randomUUID()}`;
+  try {
+    const remote = await fetchRemoteImage(image.sourceUrl);
+    const processed = await processImage(remote.data, remote.contentType, storageKey);
+    try {
+      for (const file of processed.files) {
+        await fileStore.put(file.key, file.data, file.contentType);
+      }
+    } catch (error) {
+      await Promise.allSettled(processed.files.map((file) => fileStore.delete(file.key)));
+      throw error;
+    }
+
+    const updated = await storage.updateExternalImage(image.id, {
+      status: "cached",
+      storageKey,
+      contentType: remote.contentType,
+      sizeBytes: processed.files.reduce((total, file) => total + file.data.length, 0),
+      width: processed.width,
+      height: processed.height,
+      error: null,
+      fetchedAt: new Date(),
+    });
+    return updated ?? image;
+  } catch (error: any) {
+    if (error?.name !== "ImageFetchError" && error?.name !== "ImageProcessingError") {
+      console.error("Error caching external image:", error);
+    }
+    const updated = await storage.updateExternalImage(image.id, {
+      status: "broken",
+      error: error?.message ?? "Unknown error",
+      fetchedAt: new Date(),
+    });
+    return updated ?? image;
+  }
+}
+
+// Our own images: uploaded files and already proxied images. Paths are
+// matched strictly, since browsers read "/\host" or "/<tab>/host" as another
+// site and resolve "." and ".." segments (even percent-encoded) to other routes.
+const PROXIED_IMAGE_PATH = /^\/api\/images\/[\w-]+\/[\w-]+(?:\.webp)?$/;
+const STORED_FILE_KEY = /^[\w-]+(?:\/[\w-]+)*(?:\.[a-z0-9]+)?$/i;
+
+function isLocalImageUrl(url: string): boolean {
+  if (PROXIED_IMAGE_PATH.test(url)) return true;
+  const base = fileStore.url("");
+  return url.startsWith(base) && STORED_FILE_KEY.test(url.slice(base.length));
+}
+
+// Swaps an entry's image URL for the internal URL of a cached copy, fetching
+// it on first use. Entries keep the internal URL even when the fetch fails,
+// so a later retry fixes every entry using the image.
+export async function proxyEntryImageUrl<T extends string | null | undefined>(imageUrl: T): Promise<T | string> {
+  const url = imageUrl?.trim();
+  if (!url || isLocalImageUrl(url)) return imageUrl;
+
+  const image = await storage.getOrCreateExternalImage(parseRemoteUrl(url).href);
+  await refreshExternalImage(image);
+  return externalImageUrl(image.id);
+}
+
+// Stored file for one variant of a cached image
+export function externalImageKey(image: ExternalImage, variant: ImageVariant, webp: boolean): string | null {
+  if (image.status !== "cached" || !image.storageKey || !image.contentType) return null;
+  const extension = webp ? "webp" : IMAGE_EXTENSIONS[image.contentType as ImageContentType];
+  return extension ? imageVariantKey(image.storageKey, variant, extension) : null;
+}
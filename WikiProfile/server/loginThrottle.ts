@@ -0,0 +1,312 @@
+import type { Express } from "express";
+import { and, desc, eq, gt, isNull, lt, lte, or } from "drizzle-orm";
+import { db } from "./db";
+import { storage } from "./storage";
+import { isAuthenticated, requirePermission } from "./replitAuth";
+import { recordAudit } from "./audit";
+import { loginAttempts, type LoginAttempt, type LoginAttemptKind, type LoginLockout } from "@shared/schema";
+
+// Failed logins are counted per account and per IP. Past a few failures
+// each attempt waits exponentially longer; past the limit the account or IP
+// is locked out for a while. Each attempt is counted before the password or
+// code is checked and taken back if it was right, so a burst of parallel
+// requests can't all get past the limit.
+const LIMITS: Record<LoginAttemptKind, { backoffAfter: number; lockoutAfter: number }> = {
+  user: { backoffAfter: 3, lockoutAfter: 10 },
+  name: { backoffAfter: 3, lockoutAfter: 10 },
+  // Many people can share an address, so it gets more room
+  ip: { backoffAfter: 10, lockoutAfter: 50 },
+};
+const BACKOFF_BASE_MS = 1000;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+const LOCKOUT_MS = 15 * 60 * 1000;
+// Failures older than this no longer count
+const FAILURE_WINDOW_MS = 60 * 60 * 1000;
+// The in-memory store drops stale records once it holds this many
+const MAX_MEMORY_ATTEMPTS = 10_000;
+
+function attemptKey(kind: LoginAttemptKind, subject: string): string {
+  return `${kind}:${subject}`;
+}
+
+function isLockedOut(attempt: LoginAttempt): boolean {
+  return attempt.failures >= LIMITS[attempt.kind].lockoutAfter;
+}
+
+function isBlocking(attempt: LoginAttempt, now: Date): boolean {
+  return !!attempt.lockedUntil && attempt.lockedUntil > now;
+}
+
+function isStale(attempt: LoginAttempt, now: Date): boolean {
+  const served = !attempt.lockedUntil || attempt.lockedUntil <= now;
+  return (served && isLockedOut(attempt)) || attempt.lastFailureAt.getTime() < now.getTime() - FAILURE_WINDOW_MS;
+}
+
+// The record after one more failure; a served lockout or an old streak starts over
+function withFailure(previous: LoginAttempt | undefined, kind: LoginAttemptKind, subject: string, now: Date): LoginAttempt {
+  const failures = previous && !isStale(previous, now) ? previous.failures + 1 : 1;
+  const { backoffAfter, lockoutAfter } = LIMITS[kind];
+  let lockedUntil: Date | null = null;
+  if (failures >= lockoutAfter) {
+    lockedUntil = new Date(now.getTime() + LOCKOUT_MS);
+  } else if (failures >= backoffAfter) {
+    lockedUntil = new Date(now.getTime() + Math.min(BACKOFF_BASE_MS * 2 ** (failures - backoffAfter), MAX_BACKOFF_MS));
+  }
+  return { key: attemptKey(kind, subject), kind, subject, failures, lastFailureAt: now, lockedUntil };
+}
+
+// One attempt counted against a key. When the key was blocked nothing is
+// counted and attempt is the blocking record.
+type AttemptReservation = { attempt: LoginAttempt; previous: LoginAttempt | null; counted: boolean };
+
+// Whether a record is still exactly what the reservation left behind
+function isUnchangedSince(current: LoginAttempt, reservation: AttemptReservation): boolean {
+  return current.failures === reservation.attempt.failures
+    && current.lastFailureAt.getTime() === reservation.attempt.lastFailureAt.getTime();
+}
+
+// Where attempt counts live. Postgres shares them between server instances;
+// the in-memory store is for development and tests.
+export interface LoginAttemptStore {
+  // Counts a failure unless the key is blocked right now, as one step
+  reserve(kind: LoginAttemptKind, subject: string, now: Date): Promise<AttemptReservation>;
+  // Takes a counted failure back: the previous record returns if nothing
+  // was counted since, otherwise the count just drops by one
+  release(reservation: AttemptReservation): Promise<void>;
+  clear(key: string): Promise<LoginAttempt | undefined>;
+  // Records blocking logins right now, most recent failure first
+  listBlocked(now: Date): Promise<LoginAttempt[]>;
+}
+
+class MemoryLoginAttemptStore implements LoginAttemptStore {
+  private readonly attempts = new Map<string, LoginAttempt>();
+
+  async reserve(kind: LoginAttemptKind, subject: string, now: Date): Promise<AttemptReservation> {
+    const key = attemptKey(kind, subject);
+    const previous = this.attempts.get(key);
+    if (previous && isBlocking(previous, now)) {
+      return { attempt: previous, previous: null, counted: false };
+    }
+    const attempt = withFailure(previous, kind, subject, now);
+    this.attempts.set(key, attempt);
+    if (this.attempts.size > MAX_MEMORY_ATTEMPTS) {
+      this.prune(now);
+    }
+    return { attempt, previous: previous ?? null, counted: true };
+  }
+
+  async release(reservation: AttemptReservation): Promise<void> {
+    const current = this.attempts.get(reservation.attempt.key);
+    if (!current) return;
+    if (isUnchangedSince(current, reservation)) {
+      if (reservation.previous) {
+        this.attempts.set(current.key, reservation.previous);
+      } else {
+        this.attempts.delete(current.key);
+      }
+    } else if (current.failures > 0) {
+      this.attempts.set(current.key, { ...current, failures: current.failures - 1 });
+    }
+  }
+
+  private prune(now: Date) {
+    for (const [key, attempt] of Array.from(this.attempts)) {
+      if (isStale(attempt, now) && !isBlocking(attempt, now)) {
+        this.attempts.delete(key);
+      }
+    }
+  }
+
+  async clear(key: string): Promise<LoginAttempt | undefined> {
+    const attempt = this.attempts.get(key);
+    this.attempts.delete(key);
+    return attempt;
+  }
+
+  async listBlocked(now: Date): Promise<LoginAttempt[]> {
+    this.prune(now);
+    return Array.from(this.attempts.values())
+      .filter((attempt) => isBlocking(attempt, now))
+      .sort((a, b) => b.lastFailureAt.getTime() - a.lastFailureAt.getTime());
+  }
+}
+
+class PostgresLoginAttemptStore implements LoginAttemptStore {
+  // The row is locked from the block check to the update, so concurrent
+  // attempts are counted one after another
+  async reserve(kind: LoginAttemptKind, subject: string, now: Date): Promise<AttemptReservation> {
+    const key = attemptKey(kind, subject);
+    return await db.transaction(async (tx) => {
+      await tx
+        .insert(loginAttempts)
+        .values({ key, kind, subject, failures: 0, lastFailureAt: now })
+        .onConflictDoNothing();
+      const [row] = await tx.select().from(loginAttempts).where(eq(loginAttempts.key, key)).for("update");
+      if (isBlocking(row, now)) {
+        return { attempt: row, previous: null, counted: false };
+      }
+      const previous = row.failures > 0 ? row : null;
+      const attempt = withFailure(previous ?? undefined, kind, subject, now);
+      await tx
+        .update(loginAttempts)
+        .set({ failures: attempt.failures, lastFailureAt: attempt.lastFailureAt, lockedUntil: attempt.lockedUntil })
+        .where(eq(loginAttempts.key, key));
+      return { attempt, previous, counted: true };
+    });
+  }
+
+  async release(reservation: AttemptReservation): Promise<void> {
+    const { key } = reservation.attempt;
+    await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(loginAttempts).where(eq(loginAttempts.key, key)).for("update");
+      if (!current) return;
+      if (isUnchangedSince(current, reservation)) {
+        const { previous } = reservation;
+        if (previous) {
+          await tx
+            .update(loginAttempts)
+            .set({ failures: previous.failures, lastFailureAt: previous.lastFailureAt, lockedUntil: previous.lockedUntil })
+            .where(eq(loginAttempts.key, key));
+        } else {
+          await tx.delete(loginAttempts).where(eq(loginAttempts.key, key));
+        }
+      } else if (current.failures > 0) {
+        await tx
+          .update(loginAttempts)
+          .set({ failures: current.failures - 1 })
+          .where(eq(loginAttempts.key, key));
+      }
+    });
+  }
+
+  async clear(key: string): Promise<LoginAttempt | undefined> {
+    const [attempt] = await db.delete(loginAttempts).where(eq(loginAttempts.key, key)).returning();
+    return attempt;
+  }
+
+  async listBlocked(now: Date): Promise<LoginAttempt[]> {
+    // Rows that no longer block anyone only matter for the failure window
+    await db
+      .delete(loginAttempts)
+      .where(and(
+        or(isNull(loginAttempts.lockedUntil), lte(loginAttempts.lockedUntil, now)),
+        lt(loginAttempts.lastFailureAt, new Date(now.getTime() - FAILURE_WINDOW_MS)),
+      ));
+    return await db
+      .select()
+      .from(loginAttempts)
+      .where(gt(loginAttempts.lockedUntil, now))
+      .orderBy(desc(loginAttempts.lastFailureAt));
+  }
+}
+
+function createLoginAttemptStore(): LoginAttemptStore {
+  return process.env.LOGIN_ATTEMPT_STORE === "memory"
+    ? new MemoryLoginAttemptStore()
+    : new PostgresLoginAttemptStore();
+}
+
+export const loginAttemptStore = createLoginAttemptStore();
+
+// Who an attempt counts against: the account, by id so its username and
+// email share one count, or the name typed when no account matches it
+export type LoginAccount = { userId: string } | { name: string };
+
+function loginSubjects(account: LoginAccount, ip: string | undefined): { kind: LoginAttemptKind; subject: string }[] {
+  const subjects: { kind: LoginAttemptKind; subject: string }[] = "userId" in account
+    ? [{ kind: "user", subject: account.userId }]
+    : [{ kind: "name", subject: account.name.trim().toLowerCase() }];
+  if (ip) subjects.push({ kind: "ip", subject: ip });
+  return subjects;
+}
+
+export type LoginBlock = { lockedUntil: Date; lockedOut: boolean };
+
+// An attempt whose failures are already counted, until its outcome is known
+export type LoginAttemptTicket = { reservations: AttemptReservation[] };
+
+// The longest block among these records, or null when none blocks
+function latestBlock(attempts: LoginAttempt[], now: Date): LoginBlock | null {
+  let block: LoginBlock | null = null;
+  for (const attempt of attempts) {
+    if (isBlocking(attempt, now) && (!block || attempt.lockedUntil! > block.lockedUntil)) {
+      block = { lockedUntil: attempt.lockedUntil!, lockedOut: isLockedOut(attempt) };
+    }
+  }
+  return block;
+}
+
+// Counts the attempt as a failure up front, or returns the block that
+// forbids it (and counts nothing)
+export async function startLoginAttempt(
+  account: LoginAccount,
+  ip: string | undefined,
+): Promise<{ block: LoginBlock } | { ticket: LoginAttemptTicket }> {
+  const now = new Date();
+  const reservations = await Promise.all(
+    loginSubjects(account, ip).map(({ kind, subject }) => loginAttemptStore.reserve(kind, subject, now)),
+  );
+  const block = latestBlock(reservations.filter((reservation) => !reservation.counted).map((reservation) => reservation.attempt), now);
+  if (block) {
+    await Promise.all(reservations.filter((reservation) => reservation.counted).map((reservation) => loginAttemptStore.release(reservation)));
+    return { block };
+  }
+  return { ticket: { reservations } };
+}
+
+// A wrong password or code: its failures stay counted. Returns the block
+// they put on the next attempt, if any.
+export function failedLoginBlock(ticket: LoginAttemptTicket): LoginBlock | null {
+  return latestBlock(ticket.reservations.map((reservation) => reservation.attempt), new Date());
+}
+
+// A right password or code: the IP wasn't guessing, so its failure is taken
+// back. The account's stays counted until the whole login succeeds.
+export async function acceptLoginAttempt(ticket: LoginAttemptTicket): Promise<void> {
+  await Promise.all(
+    ticket.reservations
+      .filter((reservation) => reservation.attempt.kind === "ip")
+      .map((reservation) => loginAttemptStore.release(reservation)),
+  );
+}
+
+// Once signed in (after 2FA, when it is on) the account's streak is cleared.
+// The IP's keeps counting, so one known account can't be used to reset it.
+export async function recordLoginSuccess(userId: string): Promise<void> {
+  await loginAttemptStore.clear(attemptKey("user", userId));
+}
+
+// Admin view of current backoffs and lockouts
+export function registerLockoutRoutes(app: Express) {
+  app.get("/api/admin/lockouts", isAuthenticated, requirePermission("lockouts.manage"), async (req, res) => {
+    try {
+      const attempts = await loginAttemptStore.listBlocked(new Date());
+      const users = await Promise.all(attempts.map((attempt) => attempt.kind === "user" ? storage.getUser(attempt.subject) : undefined));
+      const lockouts: LoginLockout[] = attempts.map((attempt, i) => {
+        const user = users[i];
+        return { ...attempt, lockedOut: isLockedOut(attempt), username: user ? user.username ?? user.email : null };
+      });
+      res.json(lockouts);
+    } catch (error) {
+      console.error("Error fetching lockouts:", error);
+      res.status(500).json({ message: "Failed to fetch lockouts" });
+    }
+  });
+
+  app.delete("/api/admin/lockouts/:key", isAuthenticated, requirePermission("lockouts.manage"), async (req: any, res) => {
+    try {
+      const { key } = req.params;
+      const attempt = await loginAttemptStore.clear(key);
+      if (!attempt) {
+        return res.status(404).json({ message: "Lockout not found" });
+      }
+      await recordAudit(req, "lockout.clear", { type: "lockout", id: key }, {
+        before: { failures: attempt.failures, lockedUntil: attempt.lockedUntil },
+      });
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error clearing lockout:", error);
+      res.status(500).json({ message: "Failed to clear lockout" });
+    }
+  });
+}
@@ -0,0 +1,71 @@
+import path from "node:path";
+import { randomBytes } from "node:crypto";
+import { mkdir, writeFile } from "node:fs/promises";
+import nodemailer, { type Transporter } from "nodemailer";
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+// Where outgoing mail goes. SMTP in production; development and tests
+// write messages to disk or the console instead.
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+const DEFAULT_FROM = "pixelsWIKI <no-reply@pixelswiki.local>";
+
+class SmtpTransport implements MailTransport {
+  private readonly transporter: Transporter;
+
+  constructor(url: string, private readonly from: string) {
+    this.transporter = nodemailer.createTransport(url);
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.from, ...message });
+  }
+}
+
+// One JSON file per message, so tests can read the links back
+class FileTransport implements MailTransport {
+  constructor(private readonly dir: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    const name = `${Date.now()}-${randomBytes(4).toString("hex")}.json`;
+    await writeFile(path.join(this.dir, name), JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2));
+  }
+}
+
+class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[mail] to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+// Messages carry live verification and reset links, so production refuses
+// to start unless they go out over SMTP rather than into logs or files
+function createMailTransport(): MailTransport {
+  const transport = process.env.MAIL_TRANSPORT;
+  if (process.env.NODE_ENV === "production" && transport !== "smtp") {
+    throw new Error("MAIL_TRANSPORT=smtp (with SMTP_URL) is required in production");
+  }
+  switch (transport) {
+    case "smtp": {
+      const url = process.env.SMTP_URL;
+      if (!url) {
+        throw new Error("MAIL_TRANSPORT=smtp requires SMTP_URL");
+      }
+      return new SmtpTransport(url, process.env.MAIL_FROM || DEFAULT_FROM);
+    }
+    case "file":
+      return new FileTransport(path.resolve(process.env.MAIL_DIR || "mail"));
+    default:
+      return new ConsoleTransport();
+  }
+}
+
+export const mailTransport = createMailTransport();
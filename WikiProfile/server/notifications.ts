@@ -0,0 +1,15 @@
+import type { InsertNotification } from "@shared/schema";
+import { storage } from "./storage";
+import { publish } from "./realtime";
+
+// Creates an in-app notification. Nobody is notified about their own
+// actions, and a failure here never fails the action that triggered it.
+export async function notify(notification: InsertNotification) {
+  if (notification.actorId && notification.actorId === notification.userId) return;
+  try {
+    await storage.createNotification(notification);
+    publish({ type: "notification.created" }, { userIds: [notification.userId] });
+  } catch (error) {
+    console.error("Error creating notification:", error);
+  }
+}
@@ -0,0 +1,95 @@
+import { sql, type SQL } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+import type { Paginated } from "@shared/schema";
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+// Position after the last row of a page. createdAt is kept as Postgres'
+// own text form so microsecond precision survives the round trip. Lists
+// ranked by a computed score (e.g. like counts) also carry that score.
+export type Cursor = {
+  createdAt: string;
+  id: string;
+  score?: number;
+};
+
+export type PageParams = {
+  cursor?: Cursor;
+  limit: number;
+};
+
+const TIMESTAMP_TEXT = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(\.\d{1,6})?$/;
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super("Invalid cursor");
+    this.name = "InvalidCursorError";
+  }
+}
+
+export function encodeCursor(cursor: Cursor): string {
+  const parts = cursor.score === undefined
+    ? [cursor.createdAt, cursor.id]
+    : [cursor.createdAt, cursor.id, cursor.score];
+  return Buffer.from(JSON.stringify(parts)).toString("base64url");
+}
+
+export function decodeCursor(value: string): Cursor {
+  try {
+    const [createdAt, id, score] = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    if (typeof createdAt !== "string" || typeof id !== "string" || !TIMESTAMP_TEXT.test(createdAt)) {
+      throw new InvalidCursorError();
+    }
+    if (score !== undefined && !Number.isInteger(score)) {
+      throw new InvalidCursorError();
+    }
+    return { createdAt, id, score };
+  } catch {
+    throw new InvalidCursorError();
+  }
+}
+
+// Read ?cursor=&limit= from a request query
+export function parsePageParams(query: Record<string, unknown>): PageParams {
+  const rawLimit = parseInt(String(query.limit ?? DEFAULT_PAGE_SIZE), 10);
+  const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, isNaN(rawLimit) ? DEFAULT_PAGE_SIZE : rawLimit));
+  const cursor = typeof query.cursor === "string" && query.cursor ? decodeCursor(query.cursor) : undefined;
+  return { cursor, limit };
+}
+
+// Select this alongside the row so the page's cursor can be built from it
+export function cursorKey(createdAt: AnyPgColumn): SQL<string> {
+  return sql<string>`${createdAt}::text`;
+}
+
+// Rows strictly after the cursor in (createdAt desc, id desc) order
+export function afterCursor(createdAt: AnyPgColumn, id: AnyPgColumn, cursor?: Cursor): SQL | undefined {
+  if (!cursor) return undefined;
+  return sql`(${createdAt}, ${id}) < (${cursor.createdAt}::timestamp, ${cursor.id})`;
+}
+
+// Rows strictly after the cursor in (score desc, createdAt desc, id desc)
+// order. The cursor must come from a page of the same scored list.
+export function afterScoredCursor(score: SQL<number>, createdAt: AnyPgColumn, id: AnyPgColumn, cursor?: Cursor): SQL | undefined {
+  if (!cursor) return undefined;
+  if (cursor.score === undefined) throw new InvalidCursorError();
+  return sql`(${score}, ${createdAt}, ${id}) < (${cursor.score}, ${cursor.createdAt}::timestamp, ${cursor.id})`;
+}
+
+// Queries fetch limit + 1 rows; the extra row only tells us there is a next page
+export function toPage<Row extends { cursorKey: string; cursorScore?: number }, T>(
+  rows: Row[],
+  limit: number,
+  getId: (row: Row) => string,
+  toItem: (row: Row) => T,
+): Paginated<T> {
+  const pageRows = rows.slice(0, limit);
+  const last = pageRows[pageRows.length - 1];
+  return {
+    items: pageRows.map(toItem),
+    nextCursor: rows.length > limit && last
+      ? encodeCursor({ createdAt: last.cursorKey, id: getId(last), score: last.cursorScore })
+      : null,
+  };
+}
@@ -0,0 +1,149 @@
+import type { Server } from "http";
+import { WebSocketServer, WebSocket } from "ws";
+import { REALTIME_PATH, type RealtimeEvent } from "@shared/realtime";
+import { hasPermission, roleOf, type Permission, type Role } from "@shared/permissions";
+import type { User, WikiEntry } from "@shared/schema";
+import { getSocketSession } from "./replitAuth";
+import { sessionTwoFactorGate } from "./twoFactor";
+import { storage } from "./storage";
+
+const HEARTBEAT_MS = 30_000;
+
+type Client = {
+  socket: WebSocket;
+  userId: string;
+  sessionId: string;
+  role: Role;
+  // Staff only get permission events once their session passed 2FA, as with
+  // requirePermission
+  twoFactorEnabledAt: Date | null;
+  twoFactorVerified: boolean;
+  alive: boolean;
+};
+
+// Who receives an event: clients holding the permission and/or the listed
+// users. Events with no audience go to every connected client.
+export type Audience = { permission?: Permission; userIds?: (string | null | undefined)[] };
+
+const clients = new Set<Client>();
+
+// Changes to an entry that is (or was) approved concern every reader; other
+// entries only their author and moderators
+export function entryAudience(...versions: (Pick<WikiEntry, "status" | "userId"> | undefined)[]): Audience | undefined {
+  if (versions.some((entry) => entry?.status === "approved")) return undefined;
+  return { permission: "entries.moderate", userIds: versions.map((entry) => entry?.userId) };
+}
+
+// Attaches the WebSocket endpoint to the HTTP server. Other upgrade requests
+// (Vite's HMR socket in development) are left alone.
+export function setupRealtime(server: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", async (req, socket, head) => {
+    if (new URL(req.url ?? "/", "http://localhost").pathname !== REALTIME_PATH) return;
+
+    try {
+      const session = await getSocketSession(req);
+      const user = session ? await storage.getUser(session.userId) : undefined;
+      if (!session || !user) {
+        socket.write("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n");
+        socket.destroy();
+        return;
+      }
+
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        const client: Client = {
+          socket: ws,
+          userId: user.id,
+          sessionId: session.sessionId,
+          role: roleOf(user),
+          twoFactorEnabledAt: user.twoFactorEnabledAt,
+          twoFactorVerified: session.twoFactorVerified,
+          alive: true,
+        };
+        clients.add(client);
+        ws.on("pong", () => {
+          client.alive = true;
+        });
+        ws.on("close", () => clients.delete(client));
+        ws.on("error", () => ws.terminate());
+      });
+    } catch (error) {
+      console.error("Error authenticating WebSocket:", error);
+      socket.write("HTTP/1.1 500 Internal Server Error\r\nConnection: close\r\n\r\n");
+      socket.destroy();
+    }
+  });
+
+  // Drops connections that stopped answering pings (sleeping laptops,
+  // dropped networks)
+  const heartbeat = setInterval(() => {
+    for (const client of Array.from(clients)) {
+      if (!client.alive) {
+        clients.delete(client);
+        client.socket.terminate();
+        continue;
+      }
+      client.alive = false;
+      client.socket.ping();
+    }
+  }, HEARTBEAT_MS);
+  server.on("close", () => clearInterval(heartbeat));
+}
+
+function isInAudience(client: Client, audience?: Audience): boolean {
+  if (!audience) return true;
+  if (
+    audience.permission
+    && hasPermission({ role: client.role }, audience.permission)
+    && !sessionTwoFactorGate({ role: client.role, twoFactorEnabledAt: client.twoFactorEnabledAt }, client.twoFactorVerified)
+  ) {
+    return true;
+  }
+  return !!audience.userIds?.includes(client.userId);
+}
+
+// Sends an event to the connected clients in the audience. Fire and forget:
+// clients that miss an event catch up when they reconnect.
+export function publish(event: RealtimeEvent, audience?: Audience) {
+  const message = JSON.stringify(event);
+  for (const client of Array.from(clients)) {
+    if (client.socket.readyState === WebSocket.OPEN && isInAudience(client, audience)) {
+      client.socket.send(message);
+    }
+  }
+}
+
+// Connections keep the role they had when they opened; refresh it after a
+// role change so the user starts (or stops) getting moderator events
+export function updateClientRole(userId: string, role: string) {
+  for (const client of Array.from(clients)) {
+    if (client.userId === userId) client.role = roleOf({ role });
+  }
+}
+
+// Keeps sockets in step with 2FA changes: turning it off (or an admin reset)
+// revokes every session's verification, and the session that just passed a
+// code gets permission events again
+export function updateClientTwoFactor(user: Pick<User, "id" | "twoFactorEnabledAt">, verifiedSessionId?: string) {
+  for (const client of Array.from(clients)) {
+    if (client.userId !== user.id) continue;
+    client.twoFactorEnabledAt = user.twoFactorEnabledAt;
+    if (!user.twoFactorEnabledAt) client.twoFactorVerified = false;
+    if (client.sessionId === verifiedSessionId) client.twoFactorVerified = true;
+  }
+}
+
+// Closes the sockets opened by a session that signed out
+export function disconnectSession(sessionId: string) {
+  for (const client of Array.from(clients)) {
+    if (client.sessionId === sessionId) client.socket.close(4001, "Signed out");
+  }
+}
+
+// Closes the sockets of a deleted user
+export function disconnectUser(userId: string) {
+  for (const client of Array.from(clients)) {
+    if (client.userId === userId) client.socket.close(4001, "Signed out");
+  }
+}
@@ -1,22 +1,34 @@
 import * as client from "openid-client";
-import { Strategy, type VerifyFunction } from "openid-client/passport";
+import { Strategy, type VerifyFunctionWithRequest } from "openid-client/passport";
 
 import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
 import session from "express-session";
-import type { Express, RequestHandler } from "express";
-import memoize from "memoizee";
+import bcrypt from "bcryptjs";
+import type { IncomingMessage } from "http";
+import type { Express, Request, Response, NextFunction, RequestHandler } from "express";
 import connectPg from "connect-pg-simple";
 import { storage } from "./storage";
+import { hasPermission, type Permission } from "@shared/permissions";
+import type { User } from "@shared/schema";
+import {
+  authProviders,
+  defaultAuthProvider,
+  getAuthProvider,
+  type AuthProvider,
+  type ExternalProfile,
+} from "./authProviders";
+import { twoFactorGate } from "./twoFactor";
+import { disconnectSession } from "./realtime";
 
-const getOidcConfig = memoize(
-  async () => {
-    return await client.discovery(
-      new URL(process.env.ISSUER_URL ?? "https://replit.com/oidc"),
-      process.env.REPL_ID!
-    );
-  },
-  { maxAge: 3600 * 1000 }
-);
+declare module "express-session" {
+  interface SessionData {
+    // Set while a signed-in user links another provider account
+    linkUserId?: string;
+    // Where passport keeps the serialized user
+    passport?: { user?: SessionUser };
+  }
+}
 
 export function getSession() {
   const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
@@ -40,117 +52,320 @@ export function getSession() {
   });
 }
 
-function updateUserSession(
-  user: any,
+// What passport keeps in the session for every login type. `claims.sub` is
+// always the users.id, so routes read req.user.claims.sub either way.
+// Provider logins also carry their tokens and expire with them; local users
+// stay signed in for as long as the session cookie lives.
+export type SessionUser = {
+  provider: string; // "local" or an auth provider id; sessions from before provider ids lack it and are Replit's
+  claims: { sub: string; [claim: string]: unknown };
+  access_token?: string;
+  refresh_token?: string;
+  expires_at?: number;
+};
+
+export function localSessionUser(userId: string): SessionUser {
+  return { provider: "local", claims: { sub: userId } };
+}
+
+function updateUserTokens(
+  user: SessionUser,
   tokens: client.TokenEndpointResponse & client.TokenEndpointResponseHelpers
 ) {
-  user.claims = tokens.claims();
+  const expiresIn = tokens.expiresIn();
   user.access_token = tokens.access_token;
-  user.refresh_token = tokens.refresh_token;
-  user.expires_at = user.claims?.exp;
+  user.refresh_token = tokens.refresh_token ?? user.refresh_token;
+  user.expires_at = tokens.claims()?.exp
+    ?? (expiresIn !== undefined ? Math.floor(Date.now() / 1000) + expiresIn : undefined);
 }
 
-async function upsertUser(
-  claims: any,
-) {
-  const email = claims["email"];
+function isAdminEmail(email: string | null): boolean {
   // Check if user should be admin based on environment variable
   const adminEmails = process.env.ADMIN_EMAILS?.split(',').map(e => e.trim().toLowerCase()) || [];
-  const isAdmin = email ? adminEmails.includes(email.toLowerCase()) : false;
-  
+  return email ? adminEmails.includes(email.toLowerCase()) : false;
+}
+
+// Only addresses the provider verified can grant the admin role
+function adminFields(profile: ExternalProfile) {
+  const isAdmin = profile.emailVerified && isAdminEmail(profile.email);
+
   // CEO/Senior admin emails get black badge
   const ceoEmails = ["longid98s@gmail.com"];
-  const isCeo = email ? ceoEmails.includes(email.toLowerCase()) : false;
+  const isCeo = profile.email ? ceoEmails.includes(profile.email.toLowerCase()) : false;
   const badge = isAdmin ? (isCeo ? "black_check" : "red_check") : "none";
 
-  await storage.upsertUser({
-    id: claims["sub"],
-    email: email,
-    firstName: claims["first_name"],
-    lastName: claims["last_name"],
-    profileImageUrl: claims["profile_image_url"],
-    isAdmin: isAdmin,
-    role: isAdmin ? "admin" : "user",
-    badge: badge,
+  return { isAdmin, role: isAdmin ? "admin" : "user", badge };
+}
+
+type IdentityResult = { userId: string } | { error: "identity_in_use" | "email_in_use" };
+
+// The users row a provider login belongs to: the identity's user, the
+// signed-in user when linking, or a new user. Accounts are never matched by
+// email; people link extra providers from their profile instead. Only a
+// verified address blocks a new account, so nobody can squat on someone
+// else's email by signing up with it first.
+async function resolveIdentityUser(
+  provider: AuthProvider,
+  profile: ExternalProfile,
+  linkUserId: string | undefined,
+): Promise<IdentityResult> {
+  const providerId = provider.info.id;
+  let identity = await storage.getUserIdentity(providerId, profile.subject);
+
+  // Replit users from before identities existed have their Replit id as users.id
+  if (!identity && providerId === "replit" && (await storage.getUser(profile.subject))) {
+    identity = await storage.createUserIdentity({
+      userId: profile.subject,
+      provider: providerId,
+      subject: profile.subject,
+      email: profile.email,
+    });
+  }
+
+  if (linkUserId) {
+    if (identity && identity.userId !== linkUserId) {
+      return { error: "identity_in_use" };
+    }
+    if (identity) {
+      await storage.recordIdentityLogin(identity.id, profile.email);
+    } else {
+      await storage.createUserIdentity({ userId: linkUserId, provider: providerId, subject: profile.subject, email: profile.email });
+    }
+    return { userId: linkUserId };
+  }
+
+  if (identity) {
+    await storage.recordIdentityLogin(identity.id, profile.email);
+    // Admin emails are promoted on login; the rest of the profile is the user's own
+    const user = await storage.getUser(identity.userId);
+    if (user && user.role !== "admin" && adminFields(profile).isAdmin) {
+      await storage.updateUserRole(user.id, "admin");
+    }
+    // The provider vouches for the address the account already uses
+    if (user?.email && !user.emailVerifiedAt && profile.emailVerified && profile.email === user.email) {
+      await storage.markEmailVerified(user.id, user.email);
+    }
+    return { userId: identity.userId };
+  }
+
+  let email = profile.email;
+  const emailOwner = email ? await storage.getUserByEmail(email) : undefined;
+  if (emailOwner) {
+    if (emailOwner.emailVerifiedAt) {
+      return { error: "email_in_use" };
+    }
+    // The provider proves the address is theirs; otherwise neither account
+    // has shown it owns it, and the new one starts without an email
+    if (!profile.emailVerified) {
+      email = null;
+    } else if (!(await storage.releaseUnverifiedEmail(emailOwner.id))) {
+      return { error: "email_in_use" };
+    }
+  }
+  const user = await storage.upsertUser({
+    email,
+    firstName: profile.firstName,
+    lastName: profile.lastName,
+    profileImageUrl: profile.profileImageUrl,
+    emailVerifiedAt: email && profile.emailVerified ? new Date() : null,
+    ...adminFields(profile),
   });
+  await storage.createUserIdentity({ userId: user.id, provider: providerId, subject: profile.subject, email: profile.email });
+  return { userId: user.id };
+}
+
+// Usernames can't contain "@", so the login field also takes an email address
+export async function findPasswordUser(login: string): Promise<User | undefined> {
+  return login.includes("@") ? await storage.getUserByEmail(login) : await storage.getUserByUsername(login);
 }
 
+// Provider callbacks: Replit keeps the URL it was registered with
+function callbackPath(provider: AuthProvider): string {
+  return provider.info.id === "replit" ? "/api/callback" : `/api/callback/${provider.info.id}`;
+}
+
+// Kept for reading sessions outside of Express (WebSocket upgrades)
+let sessionMiddleware: RequestHandler | undefined;
+
 export async function setupAuth(app: Express) {
   app.set("trust proxy", 1);
-  app.use(getSession());
+  sessionMiddleware = getSession();
+  app.use(sessionMiddleware);
   app.use(passport.initialize());
   app.use(passport.session());
 
-  const config = await getOidcConfig();
+  // Links the provider account to the signed-in user when the login was
+  // started from /api/auth/link; signs in its own user otherwise
+  const verifyFor = (provider: AuthProvider): VerifyFunctionWithRequest => async (req, tokens, verified) => {
+    try {
+      const linkUserId = req.session.linkUserId;
+      delete req.session.linkUserId;
 
-  const verify: VerifyFunction = async (
-    tokens: client.TokenEndpointResponse & client.TokenEndpointResponseHelpers,
-    verified: passport.AuthenticateCallback
-  ) => {
-    const user = {};
-    updateUserSession(user, tokens);
-    await upsertUser(tokens.claims());
-    verified(null, user);
+      const result = await resolveIdentityUser(provider, await provider.profile(tokens), linkUserId);
+      if ("error" in result) {
+        return verified(null, false, { message: result.error });
+      }
+      const user: SessionUser = { provider: provider.info.id, claims: { sub: result.userId } };
+      updateUserTokens(user, tokens);
+      verified(null, user);
+    } catch (error) {
+      verified(error);
+    }
   };
 
-  // Keep track of registered strategies
+  // One strategy per provider and origin, since the callback URL includes the host
   const registeredStrategies = new Set<string>();
-
-  // Helper function to ensure strategy exists for a domain
-  const ensureStrategy = (domain: string) => {
-    const strategyName = `replitauth:${domain}`;
+  const ensureStrategy = async (provider: AuthProvider, req: Request): Promise<string> => {
+    const origin = `${req.protocol}://${req.get("host")}`;
+    const strategyName = `${provider.info.id}:${origin}`;
     if (!registeredStrategies.has(strategyName)) {
-      const strategy = new Strategy(
+      passport.use(new Strategy(
         {
           name: strategyName,
-          config,
-          scope: "openid email profile offline_access",
-          callbackURL: `https://${domain}/api/callback`,
+          config: await provider.clientConfig(),
+          scope: provider.scope,
+          callbackURL: `${origin}${callbackPath(provider)}`,
+          passReqToCallback: true,
         },
-        verify,
-      );
-      passport.use(strategy);
+        verifyFor(provider),
+      ));
       registeredStrategies.add(strategyName);
     }
+    return strategyName;
   };
 
+  const startLogin = async (provider: AuthProvider, req: Request, res: Response, next: NextFunction) => {
+    const strategyName = await ensureStrategy(provider, req);
+    passport.authenticate(strategyName, {
+      prompt: provider.prompt,
+      scope: provider.scope,
+    })(req, res, next);
+  };
+
+  // Failures go back to the sign-in page (or the profile when linking) with an error code
+  const finishLogin = async (provider: AuthProvider, req: Request, res: Response, next: NextFunction) => {
+    const strategyName = await ensureStrategy(provider, req);
+    const linkUserId = req.session.linkUserId;
+    passport.authenticate(strategyName, (error: unknown, user: SessionUser | false, info?: { message?: string }) => {
+      if (error) return next(error);
+      if (!user) {
+        const code = info?.message === "identity_in_use" || info?.message === "email_in_use" ? info.message : "login_failed";
+        return res.redirect(linkUserId ? `/profile/${linkUserId}?linkError=${code}` : `/auth?error=${code}`);
+      }
+      req.logIn(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.redirect(linkUserId ? `/profile/${linkUserId}` : "/");
+      });
+    })(req, res, next);
+  };
+
+  // Username/password accounts (see authRoutes.ts for signup and login)
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await findPasswordUser(username);
+        if (!user || !user.password || !(await bcrypt.compare(password, user.password))) {
+          return done(null, false, { message: "Invalid credentials" });
+        }
+        done(null, localSessionUser(user.id));
+      } catch (error) {
+        done(error);
+      }
+    }),
+  );
+
   passport.serializeUser((user: Express.User, cb) => cb(null, user));
   passport.deserializeUser((user: Express.User, cb) => cb(null, user));
 
-  app.get("/api/login", (req, res, next) => {
-    ensureStrategy(req.hostname);
-    passport.authenticate(`replitauth:${req.hostname}`, {
-      prompt: "login consent",
-      scope: ["openid", "email", "profile", "offline_access"],
-    })(req, res, next);
+  app.get("/api/auth/providers", (_req, res) => {
+    res.json(Array.from(authProviders.values(), (provider) => provider.info));
   });
 
-  app.get("/api/callback", (req, res, next) => {
-    ensureStrategy(req.hostname);
-    passport.authenticate(`replitauth:${req.hostname}`, {
-      successReturnToOrRedirect: "/",
-      failureRedirect: "/api/login",
-    })(req, res, next);
+  // ?provider= picks the provider; without it the default one is used
+  app.get("/api/login", async (req, res, next) => {
+    try {
+      const provider = typeof req.query.provider === "string"
+        ? getAuthProvider(req.query.provider)
+        : defaultAuthProvider();
+      if (!provider) {
+        return res.redirect("/auth?error=unknown_provider");
+      }
+      await startLogin(provider, req, res, next);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Adds another provider account to the signed-in user
+  app.get("/api/auth/link/:provider", isAuthenticated, async (req, res, next) => {
+    try {
+      const provider = getAuthProvider(req.params.provider);
+      if (!provider) {
+        return res.status(404).json({ message: "Unknown provider" });
+      }
+      req.session.linkUserId = (req.user as SessionUser).claims.sub;
+      await startLogin(provider, req, res, next);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get(["/api/callback", "/api/callback/:provider"], async (req, res, next) => {
+    try {
+      const provider = getAuthProvider(req.params.provider ?? "replit");
+      if (!provider) {
+        return res.status(404).json({ message: "Unknown provider" });
+      }
+      await finishLogin(provider, req, res, next);
+    } catch (error) {
+      next(error);
+    }
   });
 
-  app.get("/api/logout", (req, res) => {
-    req.logout(() => {
-      res.redirect(
-        client.buildEndSessionUrl(config, {
-          client_id: process.env.REPL_ID!,
-          post_logout_redirect_uri: `${req.protocol}://${req.hostname}`,
-        }).href
-      );
+  app.get("/api/logout", (req, res, next) => {
+    const user = req.user as SessionUser | undefined;
+    const provider = user && user.provider !== "local" ? getAuthProvider(user.provider ?? "replit") : undefined;
+    const sessionId = req.sessionID;
+    req.logout(async (logoutError) => {
+      if (logoutError) return next(logoutError);
+      disconnectSession(sessionId);
+      try {
+        // Providers with an end-session endpoint sign the user out there too
+        const endSessionUrl = await provider?.endSessionUrl(`${req.protocol}://${req.hostname}`);
+        res.redirect(endSessionUrl ?? "/");
+      } catch (error) {
+        next(error);
+      }
+    });
+  });
+}
+
+export type SocketSession = { userId: string; sessionId: string; twoFactorVerified: boolean };
+
+// Signed-in session of a raw HTTP request, from the session cookie. Used for
+// WebSocket upgrades, which don't pass through the Express middleware.
+export function getSocketSession(req: IncomingMessage): Promise<SocketSession | undefined> {
+  return new Promise((resolve, reject) => {
+    if (!sessionMiddleware) return resolve(undefined);
+    sessionMiddleware(req as Request, {} as Response, (error?: unknown) => {
+      if (error) return reject(error);
+      const { session, sessionID } = req as Request;
+      const userId = session?.passport?.user?.claims?.sub;
+      resolve(userId ? { userId, sessionId: sessionID, twoFactorVerified: !!session.twoFactorVerified } : undefined);
     });
   });
 }
 
 export const isAuthenticated: RequestHandler = async (req, res, next) => {
-  const user = req.user as any;
+  const user = req.user as SessionUser | undefined;
 
-  if (!req.isAuthenticated() || !user.expires_at) {
+  if (!req.isAuthenticated() || !user?.claims?.sub) {
     return res.status(401).json({ message: "Unauthorized" });
   }
+  // Local sessions, and providers whose tokens don't expire, last as long as the cookie
+  if (user.provider === "local" || !user.expires_at) {
+    return next();
+  }
 
   const now = Math.floor(Date.now() / 1000);
   if (now <= user.expires_at) {
@@ -158,15 +373,15 @@ export const isAuthenticated: RequestHandler = async (req, res, next) => {
   }
 
   const refreshToken = user.refresh_token;
-  if (!refreshToken) {
+  const provider = getAuthProvider(user.provider ?? "replit");
+  if (!refreshToken || !provider) {
     res.status(401).json({ message: "Unauthorized" });
     return;
   }
 
   try {
-    const config = await getOidcConfig();
-    const tokenResponse = await client.refreshTokenGrant(config, refreshToken);
-    updateUserSession(user, tokenResponse);
+    const tokenResponse = await client.refreshTokenGrant(await provider.clientConfig(), refreshToken);
+    updateUserTokens(user, tokenResponse);
     return next();
   } catch (error) {
     res.status(401).json({ message: "Unauthorized" });
@@ -174,19 +389,38 @@ export const isAuthenticated: RequestHandler = async (req, res, next) => {
   }
 };
 
-// Middleware to check if user is admin
-export const isAdmin: RequestHandler = async (req, res, next) => {
-  const user = req.user as any;
-  if (!user || !user.claims) {
-    return res.status(401).json({ message: "Unauthorized" });
-  }
-
-  const userId = user.claims.sub;
-  const dbUser = await storage.getUser(userId);
+// For routes open to everyone where a permission unlocks more (seeing
+// unapproved entries, deleting others' comments): whether the signed-in user
+// holds it in this session, 2FA included, as requirePermission would decide
+export async function sessionHasPermission(req: Request, permission: Permission): Promise<boolean> {
+  const userId = (req.user as SessionUser | undefined)?.claims?.sub;
+  if (!userId) return false;
+  const user = await storage.getUser(userId);
+  return hasPermission(user, permission) && !twoFactorGate(user, req);
+}
 
-  if (!dbUser || !dbUser.isAdmin) {
-    return res.status(403).json({ message: "Forbidden - Admin access required" });
-  }
+// Middleware factory: the signed-in user's role must grant `permission`
+// (see PERMISSIONS in shared/permissions.ts), and staff must have passed 2FA
+// in this session
+export function requirePermission(permission: Permission): RequestHandler {
+  return async (req, res, next) => {
+    const user = req.user as SessionUser | undefined;
+    if (!user?.claims) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
 
-  next();
-};
+    try {
+      const dbUser = await storage.getUser(user.claims.sub);
+      if (!hasPermission(dbUser, permission)) {
+        return res.status(403).json({ message: `Forbidden - Requires permission ${permission}` });
+      }
+      const gate = twoFactorGate(dbUser, req);
+      if (gate) {
+        return res.status(403).json({ message: "Two-factor authentication required", code: gate });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
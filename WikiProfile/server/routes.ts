@@ -1,11 +1,160 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { setupAuth, isAuthenticated, isAdmin } from "./replitAuth";
+import { setupAuth, isAuthenticated, requirePermission, sessionHasPermission } from "./replitAuth";
+import { canManageUser, hasPermission, isRole } from "@shared/permissions";
 import { registerAuthRoutes } from "./authRoutes";
-import { insertWikiEntrySchema, updateWikiEntrySchema, insertContentReportSchema, insertCommentSchema, insertLikeSchema } from "@shared/schema";
+import {
+  insertWikiEntrySchema,
+  updateWikiEntrySchema,
+  insertContentReportSchema,
+  insertCommentSchema,
+  updateCommentSchema,
+  insertLikeSchema,
+  entryTagsSchema,
+  tagNameSchema,
+  entryFeedSorts,
+  likePeriods,
+  MAX_WIKI_LINK_LOOKUPS,
+  MAX_GALLERY_BYTES_PER_USER,
+  MAX_GALLERY_IMAGES_PER_USER,
+  AUDIT_ACTIONS,
+  AUDIT_TARGET_TYPES,
+  OPEN_REPORT_STATUSES,
+  REPORT_STATUSES,
+  canTransitionReport,
+  type ActiveClaim,
+  type AuditAction,
+  type AuditTargetType,
+  type EntryFeedSort,
+  type LikePeriod,
+  type ContentReport,
+  type ReportStatus,
+  type User,
+  type WikiEntry,
+} from "@shared/schema";
+import { highlightText, tokenizeSearchQuery } from "@shared/search";
+import { markdownToPlainText, wikiLinkKey } from "@shared/markdown";
+import { slugify } from "@shared/slug";
+import type { ImageVariant } from "@shared/images";
+import { InvalidCursorError, parsePageParams } from "./pagination";
+import { fileStore, serveUploads } from "./fileStore";
+import { InvalidUploadError, imageStorageKey, imageUpload, validateImageUpload } from "./uploads";
+import { ImageProcessingError, processImage, storedImageKeys } from "./imageProcessing";
+import { InvalidImageUrlError, externalImageKey, proxyEntryImageUrl, refreshExternalImage } from "./imageProxy";
+import { entryAuditSnapshot, recordAudit, userAuditSnapshot } from "./audit";
+import { notify } from "./notifications";
+import { disconnectUser, entryAudience, publish, setupRealtime, updateClientRole, updateClientTwoFactor } from "./realtime";
+import { claimHeldByOther, registerClaimRoutes } from "./claims";
+import { registerLockoutRoutes } from "./loginThrottle";
 import { randomBytes } from "crypto";
 
+// Missing target users pass, so the route can answer 404 as before
+async function canManageUserById(actorId: string, targetId: string): Promise<boolean> {
+  const [actor, target] = await Promise.all([storage.getUser(actorId), storage.getUser(targetId)]);
+  if (!actor) return false;
+  return !target || canManageUser(actor, target);
+}
+
+// Sets an entry's moderation status for the signed-in moderator: records
+// the decision, audits it, tells the author and pushes the change. Used by
+// the review queue and by report triage.
+async function moderateEntryAs(
+  req: any,
+  id: string,
+  status: string,
+  reason: unknown,
+  auditExtra?: Record<string, unknown>,
+): Promise<WikiEntry | undefined> {
+  const before = await storage.getEntry(id);
+  const entry = await storage.moderateEntry(id, status);
+  if (!entry) return undefined;
+
+  await storage.releaseClaim("entry", id);
+  const moderation = await storage.recordModeration({
+    entryId: id,
+    moderatorId: req.user.claims.sub,
+    status,
+    reason: typeof reason === "string" && reason.trim() ? reason.trim() : null,
+  });
+  await recordAudit(req, "entry.moderate", { type: "entry", id }, {
+    before: entryAuditSnapshot(before),
+    after: { ...entryAuditSnapshot(entry), ...auditExtra },
+    reason: moderation.reason,
+  });
+  // Moderators stay anonymous to authors, so no actor
+  if (status !== "pending" && before?.status !== status) {
+    await notify({
+      userId: entry.userId,
+      type: status === "approved" ? "entry.approved" : "entry.rejected",
+      entryId: id,
+      message: moderation.reason,
+    });
+  }
+  publish({ type: "entry.changed", entryId: id }, entryAudience(before, entry));
+  return entry;
+}
+
+// Bans a user for `hours` (permanently without), then audits, notifies and
+// pushes the change. Callers check canManageUserById first.
+async function banUserAs(req: any, userId: string, reason: string, hours?: unknown): Promise<User | undefined> {
+  let bannedUntil: Date | undefined;
+  if (typeof hours === "number" && hours > 0) {
+    bannedUntil = new Date(Date.now() + hours * 60 * 60 * 1000);
+  }
+
+  const before = await storage.getUser(userId);
+  const user = await storage.banUser(userId, reason, bannedUntil);
+  if (!user) return undefined;
+
+  await recordAudit(req, "user.ban", { type: "user", id: userId }, {
+    before: userAuditSnapshot(before),
+    after: userAuditSnapshot(user),
+    reason,
+  });
+  await notify({ userId, type: "user.banned", message: reason });
+  publish({ type: "user.changed", userId }, { permission: "users.view", userIds: [userId] });
+  return user;
+}
+
+// Follow-up for reports whose status just changed: claims are released once
+// a report is closed, each change is audited, and reporters hear the outcome.
+async function finishReportChanges(
+  req: any,
+  before: ContentReport[],
+  updated: ContentReport[],
+  overriddenClaims: Map<string, ActiveClaim>,
+) {
+  for (const report of updated) {
+    const previous = before.find((candidate) => candidate.id === report.id);
+    const overridden = overriddenClaims.get(report.id);
+    if (report.status !== "investigating") {
+      await storage.releaseClaim("report", report.id);
+    }
+    await recordAudit(req, "report.status", { type: "report", id: report.id }, {
+      before: previous && { status: previous.status, entryId: previous.entryId },
+      after: {
+        status: report.status,
+        entryId: report.entryId,
+        ...(overridden && { overrodeClaimOf: overridden.moderatorId }),
+      },
+      reason: report.resolutionNote,
+    });
+    if (report.status === "resolved" || report.status === "dismissed") {
+      await notify({
+        userId: report.reporterId,
+        type: report.status === "resolved" ? "report.resolved" : "report.dismissed",
+        entryId: report.entryId,
+      });
+    }
+    publish({ type: "report.changed", reportId: report.id }, { permission: "reports.resolve", userIds: [report.reporterId] });
+  }
+}
+
+function isReportStatus(value: unknown): value is ReportStatus {
+  return (REPORT_STATUSES as readonly unknown[]).includes(value);
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
   await setupAuth(app);
@@ -13,6 +162,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Password auth routes
   await registerAuthRoutes(app);
 
+  // Uploaded gallery images (local disk storage only)
+  serveUploads(app);
+
+  // Review claims on entries and reports
+  registerClaimRoutes(app);
+  registerLockoutRoutes(app);
+
+  // Cached copies of external entry images: /api/images/:id/<variant>[.webp].
+  // Redirects to the stored file, which is itself cached forever.
+  app.get('/api/images/:id/:file', async (req, res) => {
+    try {
+      const match = /^(thumb|card|full)(\.webp)?$/.exec(req.params.file);
+      const image = match ? await storage.getExternalImage(req.params.id) : undefined;
+      const key = image && externalImageKey(image, match![1] as ImageVariant, !!match![2]);
+      if (!key) {
+        // Not fetched (yet); short-lived so a successful retry shows up soon
+        res.set("Cache-Control", "public, max-age=60");
+        return res.status(404).json({ message: "Image not available" });
+      }
+      res.set("Cache-Control", "public, max-age=86400");
+      res.redirect(302, fileStore.url(key));
+    } catch (error) {
+      console.error("Error serving cached image:", error);
+      res.status(500).json({ message: "Failed to fetch image" });
+    }
+  });
+
   // Auth routes
   app.get('/api/auth/user', async (req: any, res) => {
     try {
@@ -36,18 +212,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // User routes
   app.get('/api/users', isAuthenticated, async (req, res) => {
     try {
-      const users = await storage.getAllUsersWithCounts();
+      const users = await storage.getAllUsersWithCounts(parsePageParams(req.query));
       res.json(users);
     } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Error fetching users:", error);
       res.status(500).json({ message: "Failed to fetch users" });
     }
   });
 
-  app.get('/api/profile/:userId', isAuthenticated, async (req, res) => {
+  app.get('/api/profile/:userId', isAuthenticated, async (req: any, res) => {
     try {
       const { userId } = req.params;
-      const profile = await storage.getUserProfile(userId);
+      // Other people only see (and count) approved entries
+      const isOwnProfile = req.user.claims.sub === userId;
+      const profile = await storage.getUserProfile(userId, { approvedOnly: !isOwnProfile });
       if (!profile) {
         return res.status(404).json({ message: "User not found" });
       }
@@ -58,43 +239,191 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/profile/:userId/entries', isAuthenticated, async (req: any, res) => {
+    try {
+      const { userId } = req.params;
+      const isOwnProfile = req.user.claims.sub === userId;
+      const entries = await storage.getUserEntries(
+        userId,
+        { approvedOnly: !isOwnProfile, viewerId: req.user.claims.sub },
+        parsePageParams(req.query),
+      );
+      res.json(entries);
+    } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error fetching profile entries:", error);
+      res.status(500).json({ message: "Failed to fetch entries" });
+    }
+  });
+
   // Wiki entry routes
-  app.get('/api/entries/approved', async (req, res) => {
+  // ?sort=top&period=day|week|all ranks by likes received in that period
+  app.get('/api/entries/approved', async (req: any, res) => {
     try {
-      const entries = await storage.getApprovedEntries();
+      const sort = entryFeedSorts.includes(req.query.sort) ? req.query.sort as EntryFeedSort : "newest";
+      const period = likePeriods.includes(req.query.period) ? req.query.period as LikePeriod : "all";
+      const entries = await storage.getApprovedEntries(parsePageParams(req.query), {
+        sort,
+        period,
+        viewerId: req.user?.claims?.sub,
+      });
       res.json(entries);
     } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Error fetching approved entries:", error);
       res.status(500).json({ message: "Failed to fetch entries" });
     }
   });
 
+  // Full-text search over approved entries
+  app.get('/api/search', async (req: any, res) => {
+    try {
+      const q = typeof req.query.q === "string" ? req.query.q : "";
+      const page = Math.max(1, parseInt(String(req.query.page ?? "1"), 10) || 1);
+      const pageSize = Math.min(50, Math.max(1, parseInt(String(req.query.pageSize ?? "12"), 10) || 12));
+
+      const tokens = tokenizeSearchQuery(q);
+      const { rows, total } = await storage.searchEntries(tokens, {
+        limit: pageSize,
+        offset: (page - 1) * pageSize,
+        viewerId: req.user?.claims?.sub,
+      });
+
+      res.json({
+        items: rows.map((row) => ({
+          ...row,
+          titleHighlight: highlightText(row.title, tokens),
+          snippet: highlightText(markdownToPlainText(row.description), tokens, 200),
+        })),
+        total,
+        page,
+        pageSize,
+        hasMore: page * pageSize < total,
+      });
+    } catch (error) {
+      console.error("Error searching entries:", error);
+      res.status(500).json({ message: "Failed to search entries" });
+    }
+  });
+
+  // Tag autocomplete and browse pages
+  app.get('/api/tags', async (req, res) => {
+    try {
+      const q = typeof req.query.q === "string" ? req.query.q : "";
+      const tags = await storage.getTags({ prefix: q, limit: 10 });
+      res.json(tags);
+    } catch (error) {
+      console.error("Error fetching tags:", error);
+      res.status(500).json({ message: "Failed to fetch tags" });
+    }
+  });
+
+  app.get('/api/tags/:slug', async (req, res) => {
+    try {
+      const tag = await storage.getTagBySlug(req.params.slug);
+      if (!tag) {
+        return res.status(404).json({ message: "Tag not found" });
+      }
+      res.json(tag);
+    } catch (error) {
+      console.error("Error fetching tag:", error);
+      res.status(500).json({ message: "Failed to fetch tag" });
+    }
+  });
+
+  app.get('/api/tags/:slug/entries', async (req: any, res) => {
+    try {
+      const tag = await storage.getTagBySlug(req.params.slug);
+      if (!tag) {
+        return res.status(404).json({ message: "Tag not found" });
+      }
+
+      const entries = await storage.getApprovedEntries(parsePageParams(req.query), {
+        tagId: tag.id,
+        viewerId: req.user?.claims?.sub,
+      });
+      res.json(entries);
+    } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error fetching tag entries:", error);
+      res.status(500).json({ message: "Failed to fetch entries" });
+    }
+  });
+
+  // Resolves [[wiki link]] titles (?title=A&title=B) to approved entries;
+  // titles without a match are simply absent from the result
+  app.get('/api/wiki-links', async (req, res) => {
+    try {
+      const raw = req.query.title;
+      const titles = (Array.isArray(raw) ? raw : [raw]).filter((title): title is string => typeof title === "string");
+      const keys = Array.from(new Set(titles.map(wikiLinkKey)))
+        .filter((key) => key.length > 0)
+        .slice(0, MAX_WIKI_LINK_LOOKUPS);
+
+      const targets = await storage.resolveWikiLinks(keys);
+      res.json(targets);
+    } catch (error) {
+      console.error("Error resolving wiki links:", error);
+      res.status(500).json({ message: "Failed to resolve links" });
+    }
+  });
+
   app.post('/api/entries', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
+      const { tags: tagNames, ...body } = req.body;
       const validatedData = insertWikiEntrySchema.parse({
-        ...req.body,
+        ...body,
         userId,
       });
+      const entryTags = entryTagsSchema.parse(tagNames ?? []);
+      validatedData.imageUrl = await proxyEntryImageUrl(validatedData.imageUrl);
 
-      const entry = await storage.createEntry(validatedData);
+      const entry = await storage.createEntry(validatedData, entryTags);
+      publish({ type: "entry.changed", entryId: entry.id }, entryAudience(entry));
       res.status(201).json(entry);
     } catch (error: any) {
       console.error("Error creating entry:", error);
       if (error.name === "ZodError") {
         return res.status(400).json({ message: "Invalid entry data", errors: error.errors });
       }
+      if (error instanceof InvalidImageUrlError) {
+        return res.status(400).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to create entry" });
     }
   });
 
-  app.get('/api/entries/:id', isAuthenticated, async (req, res) => {
+  // Entry permalink page. Approved entries are public; others only for their
+  // author and moderators (404 for everyone else, so their existence isn't leaked).
+  // The author and moderators also get the latest moderation decision.
+  app.get('/api/entries/:id', async (req: any, res) => {
     try {
       const { id } = req.params;
-      const entry = await storage.getEntry(id);
+      const viewerId: string | undefined = req.user?.claims?.sub;
+      const entry = await storage.getEntryPage(id, viewerId);
       if (!entry) {
         return res.status(404).json({ message: "Entry not found" });
       }
+
+      let canModerate = false;
+      if (entry.userId !== viewerId) {
+        canModerate = await sessionHasPermission(req, "entries.moderate");
+        if (entry.status !== "approved" && !canModerate) {
+          return res.status(404).json({ message: "Entry not found" });
+        }
+      }
+
+      if (entry.userId === viewerId || canModerate) {
+        const moderations = await storage.getLatestModerations([id]);
+        return res.json({ ...entry, latestModeration: moderations.get(id) ?? null });
+      }
       res.json(entry);
     } catch (error) {
       console.error("Error fetching entry:", error);
@@ -117,11 +446,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Explicitly remove status field if present to prevent status escalation
-      const { status, ...bodyWithoutStatus } = req.body;
+      const { status, tags: tagNames, ...bodyWithoutStatus } = req.body;
       const validatedData = updateWikiEntrySchema.parse(bodyWithoutStatus);
-      
-      // Force status back to pending on edit to require re-moderation
-      const entry = await storage.updateEntry(id, validatedData);
+      const entryTags = tagNames === undefined ? undefined : entryTagsSchema.parse(tagNames);
+      if (validatedData.imageUrl !== undefined) {
+        validatedData.imageUrl = await proxyEntryImageUrl(validatedData.imageUrl);
+      }
+      const { title, description, imageUrl, ...otherFields } = validatedData;
+      const hasContentChanges = title !== undefined || description !== undefined || imageUrl !== undefined;
+
+      // Approved entries stay live: content edits are held as a pending draft
+      // until an admin approves them
+      if (existingEntry.status === "approved") {
+        const pendingDraft = hasContentChanges
+          ? await storage.saveEntryDraft(id, userId, { title, description, imageUrl })
+          : await storage.getEntryDraft(id);
+        const entry = Object.keys(otherFields).length > 0
+          ? await storage.updateEntry(id, otherFields)
+          : existingEntry;
+
+        if (!entry) {
+          return res.status(404).json({ message: "Entry not found" });
+        }
+
+        // Tags are navigation metadata, so they apply right away
+        const tags = entryTags ? await storage.setEntryTags(id, entryTags) : await storage.getEntryTags(id);
+        publish({ type: "entry.changed", entryId: id }, entryAudience(entry));
+        return res.json({ ...entry, pendingDraft: pendingDraft ?? null, tags });
+      }
+
+      // Entries that are not published yet are edited in place and go back to
+      // the moderation queue
+      const entry = Object.keys(validatedData).length > 0
+        ? await storage.updateEntry(id, validatedData, hasContentChanges ? userId : undefined)
+        : existingEntry;
       if (entry) {
         await storage.moderateEntry(id, "pending");
       }
@@ -130,16 +488,69 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Entry not found" });
       }
       
-      res.json(entry);
+      const tags = entryTags ? await storage.setEntryTags(id, entryTags) : await storage.getEntryTags(id);
+      publish({ type: "entry.changed", entryId: id }, entryAudience(existingEntry));
+      res.json({ ...entry, status: "pending", tags });
     } catch (error: any) {
       console.error("Error updating entry:", error);
       if (error.name === "ZodError") {
         return res.status(400).json({ message: "Invalid entry data", errors: error.errors });
       }
+      if (error instanceof InvalidImageUrlError) {
+        return res.status(400).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to update entry" });
     }
   });
 
+  // Puts a rejected entry back into the moderation queue once the author
+  // has addressed the rejection reason
+  app.post('/api/entries/:id/resubmit', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+
+      const existingEntry = await storage.getEntry(id);
+      if (!existingEntry) {
+        return res.status(404).json({ message: "Entry not found" });
+      }
+      if (existingEntry.userId !== userId) {
+        return res.status(403).json({ message: "Forbidden - You can only resubmit your own entries" });
+      }
+      if (existingEntry.status !== "rejected") {
+        return res.status(409).json({ message: "Only rejected entries can be resubmitted" });
+      }
+
+      const entry = await storage.moderateEntry(id, "pending");
+      publish({ type: "entry.changed", entryId: id }, entryAudience(existingEntry));
+      res.json(entry);
+    } catch (error) {
+      console.error("Error resubmitting entry:", error);
+      res.status(500).json({ message: "Failed to resubmit entry" });
+    }
+  });
+
+  // Revision history, visible to whoever can see the entry itself
+  app.get('/api/entries/:id/revisions', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+      const entry = await storage.getEntry(id);
+      if (!entry) {
+        return res.status(404).json({ message: "Entry not found" });
+      }
+      if (entry.status !== "approved" && entry.userId !== userId && !(await sessionHasPermission(req, "entries.moderate"))) {
+        return res.status(404).json({ message: "Entry not found" });
+      }
+
+      const revisions = await storage.getEntryRevisions(id);
+      res.json(revisions);
+    } catch (error) {
+      console.error("Error fetching revisions:", error);
+      res.status(500).json({ message: "Failed to fetch revisions" });
+    }
+  });
+
   app.delete('/api/entries/:id', isAuthenticated, async (req: any, res) => {
     try {
       const { id } = req.params;
@@ -155,6 +566,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       await storage.deleteEntry(id);
+      publish({ type: "entry.changed", entryId: id }, entryAudience(existingEntry));
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting entry:", error);
@@ -163,18 +575,124 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Admin routes
-  app.get('/api/admin/entries', isAuthenticated, isAdmin, async (req, res) => {
+  app.get('/api/admin/entries', isAuthenticated, requirePermission("entries.moderate"), async (req, res) => {
     try {
-      const entries = await storage.getAllEntriesWithUsers();
+      const { status, hasDraft } = req.query;
+      const entries = await storage.getAllEntriesWithUsers(
+        {
+          status: typeof status === "string" && status ? status : undefined,
+          hasDraft: hasDraft === "true",
+        },
+        parsePageParams(req.query),
+      );
       res.json(entries);
     } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Error fetching entries for admin:", error);
       res.status(500).json({ message: "Failed to fetch entries" });
     }
   });
 
+  app.get('/api/admin/entries/counts', isAuthenticated, requirePermission("entries.moderate"), async (req, res) => {
+    try {
+      const counts = await storage.getEntryCounts();
+      res.json(counts);
+    } catch (error) {
+      console.error("Error fetching entry counts:", error);
+      res.status(500).json({ message: "Failed to fetch entry counts" });
+    }
+  });
+
+  // Tag management
+  app.get('/api/admin/tags', isAuthenticated, requirePermission("tags.manage"), async (req, res) => {
+    try {
+      const tags = await storage.getTags({});
+      res.json(tags);
+    } catch (error) {
+      console.error("Error fetching tags:", error);
+      res.status(500).json({ message: "Failed to fetch tags" });
+    }
+  });
+
+  app.patch('/api/admin/tags/:id', isAuthenticated, requirePermission("tags.manage"), async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const name = tagNameSchema.parse(req.body.name);
+      const slug = slugify(name, 60);
+      if (!slug) {
+        return res.status(400).json({ message: "Tag name must contain letters or numbers" });
+      }
+
+      // Renaming onto an existing tag would collide on the slug
+      const existing = await storage.getTagBySlug(slug);
+      if (existing && existing.id !== id) {
+        return res.status(409).json({ message: "A tag with this name already exists - merge the tags instead" });
+      }
+
+      const before = await storage.getTag(id);
+      const tag = await storage.renameTag(id, name);
+      if (!tag) {
+        return res.status(404).json({ message: "Tag not found" });
+      }
+      await recordAudit(req, "tag.rename", { type: "tag", id }, {
+        before: before && { name: before.name, slug: before.slug },
+        after: { name: tag.name, slug: tag.slug },
+      });
+      res.json(tag);
+    } catch (error: any) {
+      console.error("Error renaming tag:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid tag name", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to rename tag" });
+    }
+  });
+
+  // Merge the tag in the URL into body.targetId
+  app.post('/api/admin/tags/:id/merge', isAuthenticated, requirePermission("tags.manage"), async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const { targetId } = req.body;
+      if (!targetId || targetId === id) {
+        return res.status(400).json({ message: "A different target tag is required" });
+      }
+
+      const [source, target] = await Promise.all([storage.getTag(id), storage.getTag(targetId)]);
+      if (!source || !target) {
+        return res.status(404).json({ message: "Tag not found" });
+      }
+
+      await storage.mergeTags(id, targetId);
+      await recordAudit(req, "tag.merge", { type: "tag", id }, {
+        before: { name: source.name, slug: source.slug },
+        after: { mergedInto: { id: target.id, name: target.name } },
+      });
+      res.json(target);
+    } catch (error) {
+      console.error("Error merging tags:", error);
+      res.status(500).json({ message: "Failed to merge tags" });
+    }
+  });
+
+  app.delete('/api/admin/tags/:id', isAuthenticated, requirePermission("tags.manage"), async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const tag = await storage.getTag(id);
+      await storage.deleteTag(id);
+      if (tag) {
+        await recordAudit(req, "tag.delete", { type: "tag", id }, { before: { name: tag.name, slug: tag.slug } });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting tag:", error);
+      res.status(500).json({ message: "Failed to delete tag" });
+    }
+  });
+
   // Entry verification endpoint (admin only)
-  app.patch('/api/admin/entries/:id/verify', isAuthenticated, isAdmin, async (req, res) => {
+  app.patch('/api/admin/entries/:id/verify', isAuthenticated, requirePermission("entries.verify"), async (req: any, res) => {
     try {
       const { id } = req.params;
       const { verification } = req.body;
@@ -183,10 +701,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid verification status" });
       }
       
+      const before = await storage.getEntry(id);
       const entry = await storage.setEntryVerification(id, verification);
       if (!entry) {
         return res.status(404).json({ message: "Entry not found" });
       }
+      await recordAudit(req, "entry.verify", { type: "entry", id }, {
+        before: entryAuditSnapshot(before),
+        after: entryAuditSnapshot(entry),
+      });
+      publish({ type: "entry.changed", entryId: id }, entryAudience(entry));
       
       res.json(entry);
     } catch (error) {
@@ -196,7 +720,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // User badge endpoint (admin only)
-  app.patch('/api/admin/users/:id/badge', isAuthenticated, isAdmin, async (req, res) => {
+  app.patch('/api/admin/users/:id/badge', isAuthenticated, requirePermission("users.badge"), async (req: any, res) => {
     try {
       const { id } = req.params;
       const { badge } = req.body;
@@ -205,10 +729,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid badge type" });
       }
       
+      const before = await storage.getUser(id);
       const user = await storage.setUserBadge(id, badge);
       if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
+      await recordAudit(req, "user.badge", { type: "user", id }, {
+        before: userAuditSnapshot(before),
+        after: userAuditSnapshot(user),
+      });
+      publish({ type: "user.changed", userId: id }, { permission: "users.view", userIds: [id] });
       
       res.json(user);
     } catch (error) {
@@ -217,16 +747,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/admin/entries/:id/moderate', isAuthenticated, isAdmin, async (req, res) => {
+  app.patch('/api/admin/entries/:id/moderate', isAuthenticated, requirePermission("entries.moderate"), async (req: any, res) => {
     try {
       const { id } = req.params;
-      const { status } = req.body;
+      const { status, reason, force } = req.body;
 
       if (!["approved", "pending", "rejected"].includes(status)) {
         return res.status(400).json({ message: "Invalid status" });
       }
+      const otherClaim = await claimHeldByOther("entry", id, req.user.claims.sub);
+      if (otherClaim && force !== true) {
+        return res.status(409).json({ message: "Entry is being reviewed by another moderator", claim: otherClaim });
+      }
 
-      const entry = await storage.moderateEntry(id, status);
+      const entry = await moderateEntryAs(req, id, status, reason, otherClaim && { overrodeClaimOf: otherClaim.moderatorId });
       if (!entry) {
         return res.status(404).json({ message: "Entry not found" });
       }
@@ -238,10 +772,128 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/admin/entries/:id', isAuthenticated, isAdmin, async (req, res) => {
+  app.patch('/api/admin/entries/:id/draft/moderate', isAuthenticated, requirePermission("entries.moderate"), async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const { status, reason, force } = req.body;
+
+      if (!["approved", "rejected"].includes(status)) {
+        return res.status(400).json({ message: "Invalid status" });
+      }
+      const otherClaim = await claimHeldByOther("entry", id, req.user.claims.sub);
+      if (otherClaim && force !== true) {
+        return res.status(409).json({ message: "Entry is being reviewed by another moderator", claim: otherClaim });
+      }
+
+      const draft = await storage.getEntryDraft(id);
+      if (!draft) {
+        return res.status(404).json({ message: "Draft not found" });
+      }
+      const overrode = otherClaim && { overrodeClaimOf: otherClaim.moderatorId };
+
+      const draftSnapshot = { title: draft.title, description: draft.description, imageUrl: draft.imageUrl, editorId: draft.editorId };
+      const moderation = {
+        entryId: id,
+        moderatorId: req.user.claims.sub,
+        status,
+        isDraft: true,
+        reason: typeof reason === "string" && reason.trim() ? reason.trim() : null,
+      };
+      if (status === "approved") {
+        const entry = await storage.approveEntryDraft(id);
+        if (!entry) {
+          return res.status(404).json({ message: "Entry not found" });
+        }
+        await storage.releaseClaim("entry", id);
+        await storage.recordModeration(moderation);
+        await recordAudit(req, "entry.draft_moderate", { type: "entry", id }, {
+          before: draftSnapshot,
+          after: { draft: "approved", title: entry.title, ...overrode },
+          reason: moderation.reason,
+        });
+        await notify({ userId: draft.editorId, type: "draft.approved", entryId: id, message: moderation.reason });
+        publish({ type: "entry.changed", entryId: id }, entryAudience(entry));
+        return res.json(entry);
+      }
+
+      await storage.deleteEntryDraft(id);
+      await storage.releaseClaim("entry", id);
+      await storage.recordModeration(moderation);
+      await recordAudit(req, "entry.draft_moderate", { type: "entry", id }, {
+        before: draftSnapshot,
+        after: { draft: "rejected", ...overrode },
+        reason: moderation.reason,
+      });
+      await notify({ userId: draft.editorId, type: "draft.rejected", entryId: id, message: moderation.reason });
+      publish({ type: "entry.changed", entryId: id }, { permission: "entries.moderate", userIds: [draft.editorId] });
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error moderating draft:", error);
+      res.status(500).json({ message: "Failed to moderate draft" });
+    }
+  });
+
+  app.post('/api/admin/entries/:id/revisions/:revisionId/restore', isAuthenticated, requirePermission("entries.moderate"), async (req: any, res) => {
+    try {
+      const { id, revisionId } = req.params;
+      const userId = req.user.claims.sub;
+
+      const before = await storage.getEntry(id);
+      const entry = await storage.restoreEntryRevision(id, revisionId, userId);
+      if (!entry) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+      await recordAudit(req, "entry.restore", { type: "entry", id }, {
+        before: before && { title: before.title, description: before.description, imageUrl: before.imageUrl },
+        after: { title: entry.title, description: entry.description, imageUrl: entry.imageUrl, revisionId },
+      });
+      publish({ type: "entry.changed", entryId: id }, entryAudience(entry));
+
+      res.json(entry);
+    } catch (error) {
+      console.error("Error restoring revision:", error);
+      res.status(500).json({ message: "Failed to restore revision" });
+    }
+  });
+
+  // External entry images that could not be fetched, with the entries using them
+  app.get('/api/admin/images/broken', isAuthenticated, requirePermission("images.manage"), async (req, res) => {
+    try {
+      const images = await storage.getBrokenImages();
+      res.json(images);
+    } catch (error) {
+      console.error("Error fetching broken images:", error);
+      res.status(500).json({ message: "Failed to fetch broken images" });
+    }
+  });
+
+  app.post('/api/admin/images/:id/retry', isAuthenticated, requirePermission("images.manage"), async (req: any, res) => {
+    try {
+      const image = await storage.getExternalImage(req.params.id);
+      if (!image) {
+        return res.status(404).json({ message: "Image not found" });
+      }
+      const refreshed = await refreshExternalImage(image);
+      await recordAudit(req, "image.retry", { type: "image", id: image.id }, {
+        before: { sourceUrl: image.sourceUrl, status: image.status, error: image.error },
+        after: { status: refreshed.status, error: refreshed.error },
+      });
+      res.json(refreshed);
+    } catch (error) {
+      console.error("Error retrying image fetch:", error);
+      res.status(500).json({ message: "Failed to retry image" });
+    }
+  });
+
+  app.delete('/api/admin/entries/:id', isAuthenticated, requirePermission("entries.delete"), async (req: any, res) => {
     try {
       const { id } = req.params;
+      const entry = await storage.getEntry(id);
       await storage.deleteEntryAdmin(id);
+      if (entry) {
+        await recordAudit(req, "entry.delete", { type: "entry", id }, { before: entryAuditSnapshot(entry), reason: req.body?.reason });
+        publish({ type: "entry.changed", entryId: id }, entryAudience(entry));
+      }
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting entry (admin):", error);
@@ -249,30 +901,74 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Admin/moderator actions, newest first; every filter is optional
+  app.get('/api/admin/audit', isAuthenticated, requirePermission("audit.view"), async (req, res) => {
+    try {
+      const { actorId, action, targetType, targetId } = req.query;
+      if (action !== undefined && !(AUDIT_ACTIONS as readonly unknown[]).includes(action)) {
+        return res.status(400).json({ message: "Invalid action" });
+      }
+      if (targetType !== undefined && !(AUDIT_TARGET_TYPES as readonly unknown[]).includes(targetType)) {
+        return res.status(400).json({ message: "Invalid target type" });
+      }
+
+      const log = await storage.getAuditLog(
+        {
+          actorId: typeof actorId === "string" && actorId ? actorId : undefined,
+          action: action as AuditAction | undefined,
+          targetType: targetType as AuditTargetType | undefined,
+          targetId: typeof targetId === "string" && targetId ? targetId : undefined,
+        },
+        parsePageParams(req.query),
+      );
+      res.json(log);
+    } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error fetching audit log:", error);
+      res.status(500).json({ message: "Failed to fetch audit log" });
+    }
+  });
+
   // Developer panel routes (admin only)
-  app.get('/api/admin/users', isAuthenticated, isAdmin, async (req, res) => {
+  app.get('/api/admin/users', isAuthenticated, requirePermission("users.view"), async (req, res) => {
     try {
-      const allUsers = await storage.getAllUsers();
+      const allUsers = await storage.getAllUsers(parsePageParams(req.query));
       res.json(allUsers);
     } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Error fetching users:", error);
       res.status(500).json({ message: "Failed to fetch users" });
     }
   });
 
-  app.patch('/api/admin/users/:id/role', isAuthenticated, isAdmin, async (req, res) => {
+  app.patch('/api/admin/users/:id/role', isAuthenticated, requirePermission("roles.assign"), async (req: any, res) => {
     try {
       const { id } = req.params;
       const { role } = req.body;
 
-      if (!["user", "moderator", "admin"].includes(role)) {
+      if (!isRole(role)) {
         return res.status(400).json({ message: "Invalid role" });
       }
+      // Otherwise the last admin could lock everyone out
+      if (id === req.user.claims.sub) {
+        return res.status(400).json({ message: "You cannot change your own role" });
+      }
 
+      const before = await storage.getUser(id);
       const user = await storage.updateUserRole(id, role);
       if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
+      await recordAudit(req, "user.role", { type: "user", id }, {
+        before: userAuditSnapshot(before),
+        after: userAuditSnapshot(user),
+      });
+      updateClientRole(id, user.role);
+      publish({ type: "user.changed", userId: id }, { permission: "users.view", userIds: [id] });
 
       res.json(user);
     } catch (error) {
@@ -281,6 +977,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // For users who lost their authenticator and recovery codes; staff have to
+  // enroll again before their next admin request
+  app.delete('/api/admin/users/:id/2fa', isAuthenticated, requirePermission("users.reset_2fa"), async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      if (!(await canManageUserById(req.user.claims.sub, id))) {
+        return res.status(403).json({ message: "Forbidden - You cannot reset this user's two-factor authentication" });
+      }
+
+      const before = await storage.getUser(id);
+      if (!before) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!before.twoFactorEnabledAt) {
+        return res.status(409).json({ message: "Two-factor authentication is not enabled" });
+      }
+
+      const user = await storage.disableTwoFactor(id);
+      if (user) updateClientTwoFactor(user);
+      await recordAudit(req, "user.2fa_reset", { type: "user", id }, {
+        before: { twoFactorEnabled: true },
+        after: { twoFactorEnabled: false },
+        reason: req.body?.reason,
+      });
+      publish({ type: "user.changed", userId: id }, { permission: "users.view", userIds: [id] });
+
+      res.json(user);
+    } catch (error) {
+      console.error("Error resetting two-factor authentication:", error);
+      res.status(500).json({ message: "Failed to reset two-factor authentication" });
+    }
+  });
+
   // Gallery endpoints
   app.get('/api/user/gallery', isAuthenticated, async (req: any, res) => {
     try {
@@ -293,18 +1022,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/user/gallery', isAuthenticated, async (req: any, res) => {
+  // multipart/form-data with a single "image" file
+  app.post('/api/user/gallery', isAuthenticated, imageUpload, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const { imageUrl, fileName } = req.body;
+      const upload = validateImageUpload(req.file);
 
-      if (!imageUrl) {
-        return res.status(400).json({ message: "Image URL required" });
+      const usage = await storage.getUserImageUsage(userId);
+      if (usage.count >= MAX_GALLERY_IMAGES_PER_USER) {
+        return res.status(413).json({ message: `Gallery limit of ${MAX_GALLERY_IMAGES_PER_USER} images reached` });
+      }
+      if (usage.bytes + upload.data.length > MAX_GALLERY_BYTES_PER_USER) {
+        return res.status(413).json({ message: "Gallery storage quota exceeded" });
       }
 
-      const image = await storage.addUserImage(userId, imageUrl, fileName);
-      res.status(201).json(image);
+      // Only the re-encoded variants are stored, never the original file
+      const storageKey = imageStorageKey(userId);
+      const processed = await processImage(upload.data, upload.contentType, storageKey);
+      try {
+        for (const file of processed.files) {
+          await fileStore.put(file.key, file.data, file.contentType);
+        }
+        const image = await storage.addUserImage({
+          userId,
+          imageUrl: fileStore.url(processed.mainKey),
+          storageKey,
+          contentType: upload.contentType,
+          sizeBytes: processed.files.reduce((total, file) => total + file.data.length, 0),
+          width: processed.width,
+          height: processed.height,
+          fileName: upload.fileName,
+        });
+        res.status(201).json(image);
+      } catch (error) {
+        await Promise.allSettled(processed.files.map((file) => fileStore.delete(file.key)));
+        throw error;
+      }
     } catch (error) {
+      if (error instanceof InvalidUploadError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof ImageProcessingError) {
+        return res.status(422).json({ message: error.message });
+      }
       console.error("Error adding image to gallery:", error);
       res.status(500).json({ message: "Failed to add image" });
     }
@@ -316,12 +1076,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = req.user.claims.sub;
 
       // Verify ownership
-      const images = await storage.getUserImages(userId);
-      if (!images.find((img: any) => img.id === imageId)) {
+      const image = await storage.getUserImage(imageId);
+      if (!image || image.userId !== userId) {
         return res.status(403).json({ message: "Forbidden - This image doesn't belong to you" });
       }
 
       await storage.deleteUserImage(imageId);
+      await Promise.all(storedImageKeys(image).map((key) => fileStore.delete(key)));
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting image:", error);
@@ -382,6 +1143,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       const report = await storage.createReport(validatedData);
+      publish({ type: "report.changed", reportId: report.id }, { permission: "reports.resolve" });
       res.status(201).json(report);
     } catch (error: any) {
       console.error("Error creating report:", error);
@@ -392,30 +1154,75 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/admin/reports', isAdmin, async (req: any, res) => {
+  app.get('/api/admin/reports', requirePermission("reports.resolve"), async (req: any, res) => {
     try {
       const { status } = req.query;
-      const reports = await storage.getReports({ status });
+      const reports = await storage.getReports(
+        { status: typeof status === "string" && status ? status : undefined },
+        parsePageParams(req.query),
+      );
       res.json(reports);
     } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Error fetching reports:", error);
       res.status(500).json({ message: "Failed to fetch reports" });
     }
   });
 
-  app.patch('/api/admin/reports/:id/status', isAdmin, async (req: any, res) => {
+  // Reports grouped by reported entry; ?status=open (pending and
+  // investigating), a single status, or all when omitted
+  app.get('/api/admin/reports/groups', requirePermission("reports.resolve"), async (req: any, res) => {
+    try {
+      const { status } = req.query;
+      if (status !== undefined && status !== "open" && !isReportStatus(status)) {
+        return res.status(400).json({ message: "Invalid status" });
+      }
+      const groups = await storage.getReportGroups(
+        { statuses: status === "open" ? OPEN_REPORT_STATUSES : status ? [status] : undefined },
+        parsePageParams(req.query),
+      );
+      res.json(groups);
+    } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error fetching report groups:", error);
+      res.status(500).json({ message: "Failed to fetch reports" });
+    }
+  });
+
+  app.patch('/api/admin/reports/:id/status', requirePermission("reports.resolve"), async (req: any, res) => {
     try {
       const { id } = req.params;
-      const { status } = req.body;
+      const { status, note, force } = req.body;
 
-      if (!status) {
-        return res.status(400).json({ message: "Status is required" });
+      if (!isReportStatus(status)) {
+        return res.status(400).json({ message: "Invalid status" });
+      }
+      const otherClaim = await claimHeldByOther("report", id, req.user.claims.sub);
+      if (otherClaim && force !== true) {
+        return res.status(409).json({ message: "Report is being reviewed by another moderator", claim: otherClaim });
       }
 
-      const report = await storage.updateReportStatus(id, status);
-      if (!report) {
+      const before = await storage.getReport(id);
+      if (!before) {
         return res.status(404).json({ message: "Report not found" });
       }
+      if (!canTransitionReport(before.status, status)) {
+        return res.status(409).json({ message: `Cannot change a ${before.status} report to ${status}` });
+      }
+
+      const closing = status === "resolved" || status === "dismissed";
+      const [report] = await storage.updateReportsStatus([id], status, closing ? {
+        note: typeof note === "string" && note.trim() ? note.trim() : null,
+        resolvedBy: req.user.claims.sub,
+      } : undefined);
+      if (!report) {
+        return res.status(409).json({ message: "Report status changed meanwhile" });
+      }
+      await finishReportChanges(req, [before], [report], new Map(otherClaim ? [[id, otherClaim]] : []));
 
       res.json(report);
     } catch (error) {
@@ -424,11 +1231,80 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Moves every report against an entry that allows it to `status`. When
+  // resolving, `action` can also unpublish the entry or ban its author, with
+  // the note as the rejection or ban reason.
+  const REPORT_ACTIONS = ["remove_entry", "ban_author"] as const;
+  app.patch('/api/admin/entries/:id/reports/status', isAuthenticated, requirePermission("reports.resolve"), async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const { status, note, action, banHours, force } = req.body;
+      const moderatorId = req.user.claims.sub;
+      const trimmedNote = typeof note === "string" && note.trim() ? note.trim() : null;
+
+      if (!isReportStatus(status)) {
+        return res.status(400).json({ message: "Invalid status" });
+      }
+      if (action !== undefined && !REPORT_ACTIONS.includes(action)) {
+        return res.status(400).json({ message: "Invalid action" });
+      }
+      if (action && status !== "resolved") {
+        return res.status(400).json({ message: "Actions can only be taken when resolving" });
+      }
+      if (action && !trimmedNote) {
+        return res.status(400).json({ message: "A note is required for this action" });
+      }
+
+      const moderator = await storage.getUser(moderatorId);
+      if (action === "remove_entry" && !hasPermission(moderator, "entries.moderate")) {
+        return res.status(403).json({ message: "Forbidden - entries.moderate required" });
+      }
+
+      const entry = await storage.getEntry(id);
+      if (!entry) {
+        return res.status(404).json({ message: "Entry not found" });
+      }
+      if (action === "ban_author" && !(await canManageUserById(moderatorId, entry.userId))) {
+        return res.status(403).json({ message: "Forbidden - You cannot ban this user" });
+      }
+
+      const before = (await storage.getReportsByEntry(id)).filter((report) => canTransitionReport(report.status, status));
+      if (before.length === 0) {
+        return res.status(409).json({ message: `No reports on this entry can be changed to ${status}` });
+      }
+      const claims = await storage.getActiveClaims("report", before.map((report) => report.id));
+      const otherClaims = new Map(Array.from(claims).filter(([, claim]) => claim.moderatorId !== moderatorId));
+      if (otherClaims.size > 0 && force !== true) {
+        const [claim] = Array.from(otherClaims.values());
+        return res.status(409).json({ message: "Reports are being reviewed by another moderator", claim });
+      }
+
+      // Act on the entry first, so a failure leaves the reports open
+      if (action === "remove_entry" && entry.status !== "rejected") {
+        await moderateEntryAs(req, id, "rejected", trimmedNote, { fromReports: true });
+      } else if (action === "ban_author") {
+        await banUserAs(req, entry.userId, trimmedNote!, banHours);
+      }
+
+      const closing = status === "resolved" || status === "dismissed";
+      const updated = await storage.updateReportsStatus(before.map((report) => report.id), status, closing ? {
+        note: trimmedNote,
+        resolvedBy: moderatorId,
+      } : undefined);
+      await finishReportChanges(req, before, updated, otherClaims);
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating entry reports:", error);
+      res.status(500).json({ message: "Failed to update reports" });
+    }
+  });
+
   // Comments routes
   app.post('/api/comments', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const { entryId, content } = req.body;
+      const { entryId, content, parentId } = req.body;
 
       if (!entryId || !content) {
         return res.status(400).json({ message: "Entry ID and content required" });
@@ -438,9 +1314,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
         entryId,
         userId,
         content,
+        parentId: parentId || null,
       });
 
+      const entry = await storage.getEntry(entryId);
+      if (!entry) {
+        return res.status(404).json({ message: "Entry not found" });
+      }
+      if (entry.status !== "approved") {
+        return res.status(400).json({ message: "Comments are only open on approved entries" });
+      }
+
+      // A reply must stay in the thread of the same entry
+      const parent = validatedData.parentId ? await storage.getComment(validatedData.parentId) : undefined;
+      if (validatedData.parentId && (!parent || parent.entryId !== entryId)) {
+        return res.status(400).json({ message: "Parent comment not found" });
+      }
+
       const comment = await storage.createComment(validatedData);
+      // The entry author hears about every comment, unless they are the one
+      // being replied to
+      if (parent) {
+        await notify({ userId: parent.userId, type: "comment.reply", actorId: userId, entryId, commentId: comment.id });
+      }
+      if (parent?.userId !== entry.userId) {
+        await notify({ userId: entry.userId, type: "entry.comment", actorId: userId, entryId, commentId: comment.id });
+      }
       res.status(201).json(comment);
     } catch (error: any) {
       console.error("Error creating comment:", error);
@@ -462,15 +1361,65 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // "What links here" for the entry detail view
+  app.get('/api/entries/:entryId/backlinks', async (req, res) => {
+    try {
+      const backlinks = await storage.getBacklinks(req.params.entryId);
+      res.json(backlinks);
+    } catch (error) {
+      console.error("Error fetching backlinks:", error);
+      res.status(500).json({ message: "Failed to fetch backlinks" });
+    }
+  });
+
+  // Only the author may edit a comment
+  app.patch('/api/comments/:commentId', isAuthenticated, async (req: any, res) => {
+    try {
+      const { commentId } = req.params;
+      const userId = req.user.claims.sub;
+
+      const comment = await storage.getComment(commentId);
+      if (!comment) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      if (comment.userId !== userId) {
+        return res.status(403).json({ message: "Forbidden - You can only edit your own comments" });
+      }
+
+      const { content } = updateCommentSchema.parse(req.body);
+      const updated = await storage.updateComment(commentId, content);
+      res.json(updated);
+    } catch (error: any) {
+      console.error("Error updating comment:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid comment data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update comment" });
+    }
+  });
+
+  // The author or a moderator may delete a comment; its replies go with it
   app.delete('/api/comments/:commentId', isAuthenticated, async (req: any, res) => {
     try {
       const { commentId } = req.params;
       const userId = req.user.claims.sub;
 
-      // Verify comment belongs to user
-      const comment = await storage.getComments(''); // This is a workaround - we'll need to improve this
-      // For now, we'll allow deletion if user is authenticated
+      const comment = await storage.getComment(commentId);
+      if (!comment) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      const moderating = comment.userId !== userId;
+      if (moderating && !(await sessionHasPermission(req, "comments.delete"))) {
+        return res.status(403).json({ message: "Forbidden - You can only delete your own comments" });
+      }
+
       await storage.deleteComment(commentId);
+      // Authors deleting their own comments aren't moderation
+      if (moderating) {
+        await recordAudit(req, "comment.delete", { type: "comment", id: commentId }, {
+          before: { entryId: comment.entryId, userId: comment.userId, content: comment.content },
+        });
+      }
       res.json({ success: true });
     } catch (error) {
       console.error("Error deleting comment:", error);
@@ -488,10 +1437,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Entry ID required" });
       }
 
-      // Check if already liked
-      const alreadyLiked = await storage.userLikesEntry(entryId, userId);
-      if (alreadyLiked) {
-        return res.status(400).json({ message: "Already liked this entry" });
+      // Only published entries can be liked
+      const entry = await storage.getEntry(entryId);
+      if (!entry || entry.status !== "approved") {
+        return res.status(404).json({ message: "Entry not found" });
       }
 
       const validatedData = insertLikeSchema.parse({
@@ -500,6 +1449,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       const like = await storage.createLike(validatedData);
+      if (!like) {
+        return res.status(400).json({ message: "Already liked this entry" });
+      }
+      // Unliking and liking again doesn't notify the author a second time
+      const notification = { userId: entry.userId, type: "entry.like" as const, actorId: userId, entryId };
+      if (!(await storage.hasNotification(notification))) {
+        await notify(notification);
+      }
       res.status(201).json(like);
     } catch (error: any) {
       console.error("Error creating like:", error);
@@ -534,6 +1491,54 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Notifications for the signed-in user, newest first
+  app.get('/api/notifications', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const page = await storage.getNotifications(userId, parsePageParams(req.query));
+      res.json(page);
+    } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error fetching notifications:", error);
+      res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  });
+
+  app.get('/api/notifications/unread-count', isAuthenticated, async (req: any, res) => {
+    try {
+      const count = await storage.getUnreadNotificationCount(req.user.claims.sub);
+      res.json({ count });
+    } catch (error) {
+      console.error("Error counting notifications:", error);
+      res.status(500).json({ message: "Failed to count notifications" });
+    }
+  });
+
+  // Body: { read: boolean, ids?: string[] }; without ids every notification
+  // of the user is updated
+  app.patch('/api/notifications', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { read, ids } = req.body;
+
+      if (typeof read !== "boolean") {
+        return res.status(400).json({ message: "read must be a boolean" });
+      }
+      if (ids !== undefined && (!Array.isArray(ids) || !ids.every((id) => typeof id === "string"))) {
+        return res.status(400).json({ message: "ids must be an array of notification IDs" });
+      }
+
+      const updated = await storage.markNotifications(userId, read, ids);
+      const count = await storage.getUnreadNotificationCount(userId);
+      res.json({ updated, unreadCount: count });
+    } catch (error) {
+      console.error("Error updating notifications:", error);
+      res.status(500).json({ message: "Failed to update notifications" });
+    }
+  });
+
   // Special posts - accessible via token
   app.get('/api/special/:entryId', async (req, res) => {
     try {
@@ -593,17 +1598,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // User management routes - Admin only
-  app.get('/api/admin/users', isAdmin, async (req, res) => {
-    try {
-      const users = await storage.getAllUsers();
-      res.json(users);
-    } catch (error) {
-      console.error("Error fetching users:", error);
-      res.status(500).json({ message: "Failed to fetch users" });
-    }
-  });
-
-  app.post('/api/admin/users/:userId/ban', isAdmin, async (req: any, res) => {
+  app.post('/api/admin/users/:userId/ban', requirePermission("users.ban"), async (req: any, res) => {
     try {
       const { userId } = req.params;
       const { reason, hours } = req.body;
@@ -611,13 +1606,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!reason) {
         return res.status(400).json({ message: "Ban reason is required" });
       }
-
-      let bannedUntil: Date | undefined;
-      if (hours && hours > 0) {
-        bannedUntil = new Date(Date.now() + hours * 60 * 60 * 1000);
+      if (!(await canManageUserById(req.user.claims.sub, userId))) {
+        return res.status(403).json({ message: "Forbidden - You cannot ban this user" });
       }
 
-      const user = await storage.banUser(userId, reason, bannedUntil);
+      const user = await banUserAs(req, userId, reason, hours);
       if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
@@ -629,14 +1622,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/admin/users/:userId/unban', isAdmin, async (req, res) => {
+  app.post('/api/admin/users/:userId/unban', requirePermission("users.ban"), async (req: any, res) => {
     try {
       const { userId } = req.params;
+      if (!(await canManageUserById(req.user.claims.sub, userId))) {
+        return res.status(403).json({ message: "Forbidden - You cannot unban this user" });
+      }
 
+      const before = await storage.getUser(userId);
       const user = await storage.unbanUser(userId);
       if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
+      await recordAudit(req, "user.unban", { type: "user", id: userId }, {
+        before: userAuditSnapshot(before),
+        after: userAuditSnapshot(user),
+      });
+      publish({ type: "user.changed", userId }, { permission: "users.view", userIds: [userId] });
 
       res.json(user);
     } catch (error) {
@@ -645,11 +1647,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/admin/users/:userId', isAdmin, async (req, res) => {
+  app.delete('/api/admin/users/:userId', requirePermission("users.delete"), async (req: any, res) => {
     try {
       const { userId } = req.params;
+      if (!(await canManageUserById(req.user.claims.sub, userId))) {
+        return res.status(403).json({ message: "Forbidden - You cannot delete this user" });
+      }
 
+      // Gallery rows go with the user; their files have to be removed here
+      const before = await storage.getUser(userId);
+      const images = await storage.getUserImages(userId);
       await storage.deleteUser(userId);
+      if (before) {
+        await recordAudit(req, "user.delete", { type: "user", id: userId }, { before: userAuditSnapshot(before) });
+      }
+      disconnectUser(userId);
+      publish({ type: "user.changed", userId }, { permission: "users.view" });
+      await Promise.allSettled(
+        images.flatMap((image) => storedImageKeys(image).map((key) => fileStore.delete(key))),
+      );
       res.json({ success: true });
     } catch (error) {
       console.error("Error deleting user:", error);
@@ -658,5 +1674,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   const httpServer = createServer(app);
+  setupRealtime(httpServer);
   return httpServer;
 }
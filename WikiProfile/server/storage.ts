@@ -5,22 +5,152 @@ import {
   contentReports,
   comments,
   likes,
+  wikiEntryRevisions,
+  wikiEntryDrafts,
+  tags,
+  wikiEntryTags,
+  entryLinks,
+  externalImages,
+  auditLog,
+  entryModerations,
+  notifications,
+  moderationClaims,
+  userIdentities,
+  authTokens,
+  sessions,
+  userTwoFactor,
+  twoFactorRecoveryCodes,
   type User,
   type UpsertUser,
   type WikiEntry,
   type InsertWikiEntry,
   type UpdateWikiEntry,
-  type UserWithEntries,
+  type UserProfile,
+  type Paginated,
   type UserImage,
+  type InsertUserImage,
+  type UserIdentity,
+  type InsertUserIdentity,
+  type AuthToken,
+  type InsertAuthToken,
+  type AuthTokenPurpose,
+  type UserTwoFactor,
   type InsertContentReport,
   type ContentReport,
+  type ReportStatus,
+  type ReportWithDetails,
+  type ReportGroup,
   type Comment,
+  type CommentWithUser,
   type Like,
   type InsertComment,
   type InsertLike,
+  type WikiEntryRevision,
+  type WikiEntryRevisionWithEditor,
+  type WikiEntryDraft,
+  type WikiEntryDraftContent,
+  type WikiEntryWithDraft,
+  type EntryStats,
+  type EntryTags,
+  type Tag,
+  type TagWithCount,
+  type EntryFeedSort,
+  type LikePeriod,
+  type WikiLinkTarget,
+  type EntryPage,
+  type Backlink,
+  type ExternalImage,
+  type BrokenImage,
+  type AuditAction,
+  type EntryModeration,
+  type InsertEntryModeration,
+  type ModerationNote,
+  type EntryModerationInfo,
+  type ClaimTargetType,
+  type ModerationClaim,
+  type ActiveClaim,
+  type ClaimInfo,
+  type Notification,
+  type InsertNotification,
+  type NotificationWithDetails,
+  type NotificationType,
+  type AuditTargetType,
+  type AuditLogEntry,
+  type InsertAuditLogEntry,
+  type AuditLogEntryWithActor,
+  REPORT_STATUS_TRANSITIONS,
+  REPORT_STATUSES,
+  foldedSearchVector,
+  wikiLinkKeySql,
 } from "@shared/schema";
+import { extractWikiLinkKeys, parseMarkdown, wikiLinkKey } from "@shared/markdown";
+import { toPrefixTsQuery } from "@shared/search";
+import { entrySlug, slugify } from "@shared/slug";
+import { externalImageUrl } from "@shared/images";
+import type { Role } from "@shared/permissions";
+import { alias } from "drizzle-orm/pg-core";
 import { db } from "./db";
-import { eq, desc, sql, and } from "drizzle-orm";
+import { eq, ne, gt, lt, lte, desc, asc, sql, and, or, isNull, isNotNull, inArray, like, count, type SQL } from "drizzle-orm";
+import { afterCursor, afterScoredCursor, cursorKey, toPage, type PageParams } from "./pagination";
+
+// Either the shared db handle or an open transaction
+type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const LIKE_PERIOD_INTERVALS: Record<LikePeriod, string | null> = {
+  day: "1 day",
+  week: "7 days",
+  all: null,
+};
+
+// Likes an entry received within the period
+function likeCountSince(period: LikePeriod): SQL<number> {
+  const interval = LIKE_PERIOD_INTERVALS[period];
+  const since = interval ? sql` and ${likes.createdAt} > now() - ${interval}::interval` : sql``;
+  return sql<number>`(select cast(count(*) as int) from ${likes} where ${likes.entryId} = ${wikiEntries.id}${since})`;
+}
+
+// Correlated counters selected alongside wikiEntries rows in list queries
+function entryStats(viewerId?: string) {
+  return {
+    commentCount: sql<number>`(select cast(count(*) as int) from ${comments} where ${comments.entryId} = ${wikiEntries.id})`,
+    likeCount: likeCountSince("all"),
+    likedByMe: viewerId
+      ? sql<boolean>`exists(select 1 from ${likes} where ${likes.entryId} = ${wikiEntries.id} and ${likes.userId} = ${viewerId})`
+      : sql<boolean>`false`,
+  };
+}
+
+// Reports joined with their entry, its author and the reporter
+const reportEntryAuthors = alias(users, "report_entry_authors");
+const reporters = alias(users, "reporters");
+
+function selectReportsWithDetails() {
+  return db
+    .select({
+      report: contentReports,
+      entry: wikiEntries,
+      author: reportEntryAuthors,
+      reporter: reporters,
+      cursorKey: cursorKey(contentReports.createdAt),
+    })
+    .from(contentReports)
+    .innerJoin(wikiEntries, eq(contentReports.entryId, wikiEntries.id))
+    .innerJoin(reportEntryAuthors, eq(wikiEntries.userId, reportEntryAuthors.id))
+    .innerJoin(reporters, eq(contentReports.reporterId, reporters.id));
+}
+
+// Statuses a report may move to `status` from
+function reportStatusesBefore(status: ReportStatus): ReportStatus[] {
+  return REPORT_STATUSES.filter((from) => REPORT_STATUS_TRANSITIONS[from].includes(status));
+}
+
+function pickStats(row: EntryStats): EntryStats {
+  return {
+    commentCount: row.commentCount,
+    likeCount: row.likeCount,
+    likedByMe: row.likedByMe,
+  };
+}
 
 export interface IStorage {
   // User operations (required for Replit Auth)
@@ -28,52 +158,157 @@ export interface IStorage {
   upsertUser(user: UpsertUser): Promise<User>;
   
   // User profile with entries
-  getUserProfile(userId: string): Promise<UserWithEntries | undefined>;
+  getUserProfile(userId: string, options: { approvedOnly: boolean }): Promise<UserProfile | undefined>;
   
   // Get all users with entry counts
-  getAllUsersWithCounts(): Promise<(User & { entryCount: number })[]>;
+  getAllUsersWithCounts(page: PageParams): Promise<Paginated<User & { entryCount: number }>>;
   
   // Wiki entry operations
-  createEntry(entry: InsertWikiEntry): Promise<WikiEntry>;
+  createEntry(entry: InsertWikiEntry, tagNames?: string[]): Promise<WikiEntry>;
   getEntry(id: string): Promise<WikiEntry | undefined>;
-  getUserEntries(userId: string): Promise<WikiEntry[]>;
-  updateEntry(id: string, entry: UpdateWikiEntry): Promise<WikiEntry | undefined>;
+  getEntryPage(id: string, viewerId?: string): Promise<EntryPage | undefined>;
+  // The author's own listing (approvedOnly false) includes each entry's latest moderation decision
+  getUserEntries(userId: string, options: { approvedOnly: boolean; viewerId?: string }, page: PageParams): Promise<Paginated<WikiEntryWithDraft & EntryStats & EntryTags & EntryModerationInfo>>;
+  updateEntry(id: string, entry: UpdateWikiEntry, editorId?: string): Promise<WikiEntry | undefined>;
   deleteEntry(id: string): Promise<void>;
-  getApprovedEntries(): Promise<(WikiEntry & { user: User })[]>;
+  getApprovedEntries(
+    page: PageParams,
+    options?: { sort?: EntryFeedSort; period?: LikePeriod; tagId?: string; viewerId?: string },
+  ): Promise<Paginated<WikiEntry & EntryStats & EntryTags & { user: User }>>;
+  searchEntries(tokens: string[], options: { limit: number; offset: number; viewerId?: string }): Promise<{ rows: (WikiEntry & EntryStats & EntryTags & { user: User; rank: number })[]; total: number }>;
+  
+  // Revision history
+  getEntryRevisions(entryId: string): Promise<WikiEntryRevisionWithEditor[]>;
+  restoreEntryRevision(entryId: string, revisionId: string, editorId: string): Promise<WikiEntry | undefined>;
+  
+  // Tags
+  getTags(options: { prefix?: string; limit?: number }): Promise<TagWithCount[]>;
+  getTag(id: string): Promise<Tag | undefined>;
+  getTagBySlug(slug: string): Promise<Tag | undefined>;
+  getEntryTags(entryId: string): Promise<Tag[]>;
+  setEntryTags(entryId: string, tagNames: string[]): Promise<Tag[]>;
+  renameTag(id: string, name: string): Promise<Tag | undefined>;
+  mergeTags(sourceId: string, targetId: string): Promise<void>;
+  deleteTag(id: string): Promise<void>;
+  
+  // Wiki links
+  resolveWikiLinks(keys: string[]): Promise<WikiLinkTarget[]>;
+  getBacklinks(entryId: string): Promise<Backlink[]>;
+  
+  // Pending drafts for edits to approved entries
+  getEntryDraft(entryId: string): Promise<WikiEntryDraft | undefined>;
+  saveEntryDraft(entryId: string, editorId: string, content: Partial<WikiEntryDraftContent>): Promise<WikiEntryDraft | undefined>;
+  approveEntryDraft(entryId: string): Promise<WikiEntry | undefined>;
+  deleteEntryDraft(entryId: string): Promise<void>;
   
   // Admin operations
-  getAllEntriesWithUsers(): Promise<(WikiEntry & { user: User })[]>;
+  getAllEntriesWithUsers(filters: { status?: string; hasDraft?: boolean }, page: PageParams): Promise<Paginated<WikiEntryWithDraft & { user: User } & ClaimInfo>>;
+  getEntryCounts(): Promise<{ total: number; pending: number; approved: number; rejected: number; drafts: number }>;
   moderateEntry(id: string, status: string): Promise<WikiEntry | undefined>;
+  recordModeration(decision: InsertEntryModeration): Promise<EntryModeration>;
+  getLatestModerations(entryIds: string[]): Promise<Map<string, ModerationNote>>;
+
+  // Review claims on entries and reports
+  // Returns undefined when another moderator holds an unexpired claim (unless forced)
+  claimTarget(targetType: ClaimTargetType, targetId: string, moderatorId: string, expiresAt: Date, force: boolean): Promise<ModerationClaim | undefined>;
+  getActiveClaims(targetType: ClaimTargetType, targetIds: string[]): Promise<Map<string, ActiveClaim>>;
+  // Without moderatorId the claim is removed whoever holds it
+  releaseClaim(targetType: ClaimTargetType, targetId: string, moderatorId?: string): Promise<void>;
   deleteEntryAdmin(id: string): Promise<void>;
-  updateUserRole(userId: string, role: string): Promise<User | undefined>;
-  getAllUsers(): Promise<User[]>;
+  updateUserRole(userId: string, role: Role): Promise<User | undefined>;
+  getAllUsers(page: PageParams): Promise<Paginated<User>>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+
+  // External login identities
+  getUserIdentity(provider: string, subject: string): Promise<UserIdentity | undefined>;
+  getUserIdentities(userId: string): Promise<UserIdentity[]>;
+  createUserIdentity(identity: InsertUserIdentity): Promise<UserIdentity>;
+  recordIdentityLogin(identityId: string, email: string | null): Promise<void>;
+  // Returns false when the identity doesn't exist or belongs to someone else
+  deleteUserIdentity(userId: string, identityId: string): Promise<boolean>;
+
+  // Email verification and password reset
+  // Replaces the user's unused tokens for the same purpose
+  createAuthToken(token: InsertAuthToken): Promise<AuthToken>;
+  // Marks the token used; undefined when it is unknown, used or expired
+  consumeAuthToken(purpose: AuthTokenPurpose, tokenHash: string): Promise<AuthToken | undefined>;
+  // Only verifies the address if it is still the user's current one
+  markEmailVerified(userId: string, email: string): Promise<User | undefined>;
+  // A new address starts out unverified
+  updateUserEmail(userId: string, email: string): Promise<User | undefined>;
+  // Clears an address the user never verified; undefined when it was verified
+  releaseUnverifiedEmail(userId: string): Promise<User | undefined>;
+  updateUserPassword(userId: string, passwordHash: string): Promise<void>;
+  deleteUserSessions(userId: string): Promise<void>;
+
+  // TOTP two-factor authentication
+  getTwoFactor(userId: string): Promise<UserTwoFactor | undefined>;
+  // Saves the secret and recovery codes and turns 2FA on, replacing any earlier setup
+  enableTwoFactor(userId: string, secret: string, usedStep: number, recoveryCodeHashes: string[]): Promise<User | undefined>;
+  disableTwoFactor(userId: string): Promise<User | undefined>;
+  // False when the step (or a later one) was already used, i.e. the code is a replay
+  recordTwoFactorStep(userId: string, step: number): Promise<boolean>;
+  consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean>;
+  replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void>;
+  countRecoveryCodes(userId: string): Promise<number>;
   
   // Badge and verification management
   setUserBadge(userId: string, badge: string): Promise<User | undefined>;
   setEntryVerification(entryId: string, verification: string): Promise<WikiEntry | undefined>;
   
   // Gallery and profile customization
-  addUserImage(userId: string, imageUrl: string, fileName?: string): Promise<UserImage>;
+  addUserImage(image: InsertUserImage): Promise<UserImage>;
+  getUserImage(imageId: string): Promise<UserImage | undefined>;
   getUserImages(userId: string): Promise<UserImage[]>;
-  deleteUserImage(imageId: string): Promise<void>;
+  getUserImageUsage(userId: string): Promise<{ count: number; bytes: number }>;
+  deleteUserImage(imageId: string): Promise<UserImage | undefined>;
   updateProfileAvatar(userId: string, imageUrl: string): Promise<User | undefined>;
   updateProfileBackground(userId: string, backgroundUrl: string): Promise<User | undefined>;
+
+  // Cached copies of external entry images
+  getExternalImage(id: string): Promise<ExternalImage | undefined>;
+  getOrCreateExternalImage(sourceUrl: string): Promise<ExternalImage>;
+  updateExternalImage(id: string, fields: Partial<Omit<ExternalImage, "id" | "sourceUrl" | "createdAt">>): Promise<ExternalImage | undefined>;
+  getBrokenImages(): Promise<BrokenImage[]>;
+
+  // Audit log of admin and moderator actions
+  recordAudit(entry: InsertAuditLogEntry): Promise<AuditLogEntry>;
+  getAuditLog(
+    filters: { actorId?: string; action?: AuditAction; targetType?: AuditTargetType; targetId?: string },
+    page: PageParams,
+  ): Promise<Paginated<AuditLogEntryWithActor>>;
+
+  // In-app notifications
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  // Whether this actor already sent the user this kind of notification about the entry
+  hasNotification(notification: { userId: string; type: NotificationType; actorId: string; entryId: string }): Promise<boolean>;
+  getNotifications(userId: string, page: PageParams): Promise<Paginated<NotificationWithDetails>>;
+  getUnreadNotificationCount(userId: string): Promise<number>;
+  // Marks the given notifications (all of the user's when ids is omitted) read or unread
+  markNotifications(userId: string, read: boolean, ids?: string[]): Promise<number>;
   
   // Content reports
   createReport(report: InsertContentReport): Promise<ContentReport>;
-  getReports(filters?: { status?: string }): Promise<(ContentReport & { entry: WikiEntry & { user: User }; reporter: User })[]>;
+  getReports(filters: { status?: string }, page: PageParams): Promise<Paginated<ReportWithDetails>>;
+  // Reports grouped by entry, entries with the most recent report first
+  getReportGroups(filters: { statuses?: readonly ReportStatus[] }, page: PageParams): Promise<Paginated<ReportGroup>>;
+  getReport(reportId: string): Promise<ContentReport | undefined>;
   getReportsByEntry(entryId: string): Promise<ContentReport[]>;
-  updateReportStatus(reportId: string, status: string): Promise<ContentReport | undefined>;
+  // Only reports whose current status allows the move are updated; the
+  // resolution is stored when closing them
+  updateReportsStatus(reportIds: string[], status: ReportStatus, resolution?: { note: string | null; resolvedBy: string }): Promise<ContentReport[]>;
   deleteReport(reportId: string): Promise<void>;
   
   // Comments
   createComment(comment: InsertComment): Promise<Comment>;
-  getComments(entryId: string): Promise<(Comment & { user: User })[]>;
+  getComment(commentId: string): Promise<Comment | undefined>;
+  getComments(entryId: string): Promise<CommentWithUser[]>;
+  updateComment(commentId: string, content: string): Promise<Comment | undefined>;
   deleteComment(commentId: string): Promise<void>;
   
   // Likes
-  createLike(like: InsertLike): Promise<Like>;
+  createLike(like: InsertLike): Promise<Like | undefined>;
   removeLike(entryId: string, userId: string): Promise<void>;
   getLikes(entryId: string): Promise<Like[]>;
   userLikesEntry(entryId: string, userId: string): Promise<boolean>;
@@ -106,8 +341,9 @@ export class DatabaseStorage implements IStorage {
           firstName: userData.firstName,
           lastName: userData.lastName,
           profileImageUrl: userData.profileImageUrl,
-          // Preserve or update isAdmin flag
-          isAdmin: userData.isAdmin !== undefined ? userData.isAdmin : users.isAdmin,
+          // Admin emails are promoted on login; nobody is demoted here, since
+          // roles assigned by admins must survive the next login
+          ...(userData.role === "admin" && { role: "admin", isAdmin: true }),
           updatedAt: new Date(),
         },
       })
@@ -115,69 +351,160 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async getUserProfile(userId: string): Promise<UserWithEntries | undefined> {
+  async getUserProfile(userId: string, options: { approvedOnly: boolean }): Promise<UserProfile | undefined> {
     const user = await this.getUser(userId);
     if (!user) return undefined;
 
-    const entries = await db
-      .select()
+    const [{ entryCount }] = await db
+      .select({ entryCount: sql<number>`cast(count(*) as int)` })
       .from(wikiEntries)
-      .where(eq(wikiEntries.userId, userId))
-      .orderBy(desc(wikiEntries.createdAt));
+      .where(and(
+        eq(wikiEntries.userId, userId),
+        options.approvedOnly ? eq(wikiEntries.status, "approved") : undefined,
+      ));
 
     return {
       ...user,
-      wikiEntries: entries,
+      entryCount,
     };
   }
 
-  async getAllUsersWithCounts(): Promise<(User & { entryCount: number })[]> {
-    const result = await db
+  async getAllUsersWithCounts(page: PageParams): Promise<Paginated<User & { entryCount: number }>> {
+    const rows = await db
       .select({
-        id: users.id,
-        email: users.email,
-        username: users.username,
-        password: users.password,
-        firstName: users.firstName,
-        lastName: users.lastName,
-        profileImageUrl: users.profileImageUrl,
-        bio: users.bio,
-        isAdmin: users.isAdmin,
-        role: users.role,
-        badge: users.badge,
-        createdAt: users.createdAt,
-        updatedAt: users.updatedAt,
+        user: users,
         entryCount: sql<number>`cast(count(${wikiEntries.id}) as int)`,
+        cursorKey: cursorKey(users.createdAt),
       })
       .from(users)
       .leftJoin(wikiEntries, eq(users.id, wikiEntries.userId))
+      .where(afterCursor(users.createdAt, users.id, page.cursor))
       .groupBy(users.id)
-      .orderBy(desc(users.createdAt));
+      .orderBy(desc(users.createdAt), desc(users.id))
+      .limit(page.limit + 1);
 
-    return result as any;
+    return toPage(rows, page.limit, (row) => row.user.id, (row) => ({
+      ...row.user,
+      entryCount: row.entryCount,
+    }));
   }
 
   // Wiki entry operations
-  async createEntry(entryData: InsertWikiEntry): Promise<WikiEntry> {
-    const [entry] = await db
-      .insert(wikiEntries)
-      .values(entryData)
-      .returning();
-    return entry;
+  async createEntry(entryData: InsertWikiEntry, tagNames: string[] = []): Promise<WikiEntry> {
+    return await db.transaction(async (tx) => {
+      const [entry] = await tx
+        .insert(wikiEntries)
+        .values({ ...entryData, slug: entrySlug(entryData.title) })
+        .returning();
+      await this.recordRevision(tx, entry, entry.userId);
+      await this.replaceEntryTags(tx, entry.id, tagNames);
+      await this.replaceEntryLinks(tx, entry);
+      return entry;
+    });
   }
 
-  async getApprovedEntries(): Promise<(WikiEntry & { user: User })[]> {
+  // Newest first, or for "top" only entries liked within the period, most liked first
+  async getApprovedEntries(
+    page: PageParams,
+    options: { sort?: EntryFeedSort; period?: LikePeriod; tagId?: string; viewerId?: string } = {},
+  ): Promise<Paginated<WikiEntry & EntryStats & EntryTags & { user: User }>> {
+    const select = {
+      entry: wikiEntries,
+      user: users,
+      ...entryStats(options.viewerId),
+      cursorKey: cursorKey(wikiEntries.createdAt),
+    };
+    const visible = and(
+      eq(wikiEntries.status, "approved"),
+      options.tagId
+        ? inArray(wikiEntries.id, db.select({ id: wikiEntryTags.entryId }).from(wikiEntryTags).where(eq(wikiEntryTags.tagId, options.tagId)))
+        : undefined,
+    );
+
+    if (options.sort === "top") {
+      const score = likeCountSince(options.period ?? "all");
+      const rows = await db
+        .select({ ...select, cursorScore: score })
+        .from(wikiEntries)
+        .innerJoin(users, eq(wikiEntries.userId, users.id))
+        .where(and(
+          visible,
+          sql`${score} > 0`,
+          afterScoredCursor(score, wikiEntries.createdAt, wikiEntries.id, page.cursor),
+        ))
+        .orderBy(desc(score), desc(wikiEntries.createdAt), desc(wikiEntries.id))
+        .limit(page.limit + 1);
+
+      return await this.withTags(toPage(rows, page.limit, (row) => row.entry.id, (row) => ({
+        ...row.entry,
+        ...pickStats(row),
+        user: row.user,
+      })));
+    }
+
+    const rows = await db
+      .select(select)
+      .from(wikiEntries)
+      .innerJoin(users, eq(wikiEntries.userId, users.id))
+      .where(and(
+        visible,
+        afterCursor(wikiEntries.createdAt, wikiEntries.id, page.cursor),
+      ))
+      .orderBy(desc(wikiEntries.createdAt), desc(wikiEntries.id))
+      .limit(page.limit + 1);
+
+    return await this.withTags(toPage(rows, page.limit, (row) => row.entry.id, (row) => ({
+      ...row.entry,
+      ...pickStats(row),
+      user: row.user,
+    })));
+  }
+
+  // Ranked full-text search over approved, public entries. Title, description
+  // and author name are weighted A/B/C. The entry text is matched with the
+  // exact expression of idx_wiki_entries_search, and author names separately,
+  // so Postgres can use the index.
+  async searchEntries(
+    tokens: string[],
+    options: { limit: number; offset: number; viewerId?: string },
+  ): Promise<{ rows: (WikiEntry & EntryStats & EntryTags & { user: User; rank: number })[]; total: number }> {
+    if (tokens.length === 0) return { rows: [], total: 0 };
+
+    const query = sql`to_tsquery('simple', ${toPrefixTsQuery(tokens)})`;
+    const entryDocument = sql`(${foldedSearchVector(wikiEntries.title, "A")} || ${foldedSearchVector(wikiEntries.description, "B")})`;
+    const authorDocument = foldedSearchVector(sql`concat_ws(' ', ${users.firstName}, ${users.lastName})`, "C");
+    const matchingAuthors = db.select({ id: users.id }).from(users).where(sql`${authorDocument} @@ ${query}`);
+    const rank = sql<number>`ts_rank(${entryDocument} || ${authorDocument}, ${query})`;
+
     const result = await db
-      .select()
+      .select({
+        entry: wikiEntries,
+        user: users,
+        rank,
+        ...entryStats(options.viewerId),
+        total: sql<number>`cast(count(*) over() as int)`,
+      })
       .from(wikiEntries)
       .innerJoin(users, eq(wikiEntries.userId, users.id))
-      .where(eq(wikiEntries.status, "approved"))
-      .orderBy(desc(wikiEntries.createdAt));
+      .where(and(
+        eq(wikiEntries.status, "approved"),
+        eq(wikiEntries.isSpecial, false),
+        sql`(${entryDocument} @@ ${query} or ${wikiEntries.userId} = any(array(${matchingAuthors})))`,
+      ))
+      .orderBy(desc(rank), desc(wikiEntries.createdAt))
+      .limit(options.limit)
+      .offset(options.offset);
 
-    return result.map((row) => ({
-      ...row.wiki_entries,
-      user: row.users,
-    }));
+    const { items } = await this.withTags({
+      items: result.map((row) => ({
+        ...row.entry,
+        ...pickStats(row),
+        user: row.user,
+        rank: Number(row.rank),
+      })),
+      nextCursor: null,
+    });
+    return { rows: items, total: result[0]?.total ?? 0 };
   }
 
   async getEntry(id: string): Promise<WikiEntry | undefined> {
@@ -188,42 +515,450 @@ export class DatabaseStorage implements IStorage {
     return entry;
   }
 
-  async getUserEntries(userId: string): Promise<WikiEntry[]> {
-    return await db
-      .select()
+  async getEntryPage(id: string, viewerId?: string): Promise<EntryPage | undefined> {
+    const [row] = await db
+      .select({ entry: wikiEntries, user: users, ...entryStats(viewerId) })
       .from(wikiEntries)
-      .where(eq(wikiEntries.userId, userId))
-      .orderBy(desc(wikiEntries.createdAt));
+      .innerJoin(users, eq(wikiEntries.userId, users.id))
+      .where(eq(wikiEntries.id, id));
+    if (!row) return undefined;
+
+    return {
+      ...row.entry,
+      ...pickStats(row),
+      user: row.user,
+      tags: await this.getEntryTags(id),
+    };
   }
 
-  async updateEntry(id: string, entryData: UpdateWikiEntry): Promise<WikiEntry | undefined> {
-    const [entry] = await db
+  async getUserEntries(
+    userId: string,
+    options: { approvedOnly: boolean; viewerId?: string },
+    page: PageParams,
+  ): Promise<Paginated<WikiEntryWithDraft & EntryStats & EntryTags & EntryModerationInfo>> {
+    const rows = await db
+      .select({ entry: wikiEntries, ...entryStats(options.viewerId), cursorKey: cursorKey(wikiEntries.createdAt) })
+      .from(wikiEntries)
+      .where(and(
+        eq(wikiEntries.userId, userId),
+        options.approvedOnly ? eq(wikiEntries.status, "approved") : undefined,
+        afterCursor(wikiEntries.createdAt, wikiEntries.id, page.cursor),
+      ))
+      .orderBy(desc(wikiEntries.createdAt), desc(wikiEntries.id))
+      .limit(page.limit + 1);
+
+    const result = await this.withTags(toPage(rows, page.limit, (row) => row.entry.id, (row) => ({
+      ...row.entry,
+      ...pickStats(row),
+      pendingDraft: null as WikiEntryDraft | null,
+    })));
+    // Drafts and moderation decisions are only for the author's own view
+    if (options.approvedOnly) return result;
+
+    const ids = result.items.map((item) => item.id);
+    const [moderations, drafts] = await Promise.all([
+      this.getLatestModerations(ids),
+      ids.length > 0 ? db.select().from(wikiEntryDrafts).where(inArray(wikiEntryDrafts.entryId, ids)) : [],
+    ]);
+    const draftsByEntry = new Map(drafts.map((draft) => [draft.entryId, draft]));
+    return {
+      ...result,
+      items: result.items.map((item) => ({
+        ...item,
+        pendingDraft: draftsByEntry.get(item.id) ?? null,
+        latestModeration: moderations.get(item.id) ?? null,
+      })),
+    };
+  }
+
+  // When editorId is given the edit is recorded as a new revision, so only
+  // content edits made by users should pass it (not flag toggles).
+  async updateEntry(id: string, entryData: UpdateWikiEntry, editorId?: string): Promise<WikiEntry | undefined> {
+    return await db.transaction((tx) => this.applyEntryUpdate(tx, id, entryData, editorId));
+  }
+
+  private async applyEntryUpdate(
+    executor: DbExecutor,
+    id: string,
+    entryData: UpdateWikiEntry,
+    editorId?: string,
+  ): Promise<WikiEntry | undefined> {
+    if (editorId) {
+      const [previous] = await executor.select().from(wikiEntries).where(eq(wikiEntries.id, id));
+      if (!previous) return undefined;
+
+      // Entries created before revision tracking have no history yet -
+      // keep their original text as the first revision
+      const [existingRevision] = await executor
+        .select({ id: wikiEntryRevisions.id })
+        .from(wikiEntryRevisions)
+        .where(eq(wikiEntryRevisions.entryId, id))
+        .limit(1);
+      if (!existingRevision) {
+        await this.recordRevision(executor, previous, previous.userId, {
+          createdAt: previous.updatedAt ?? previous.createdAt ?? new Date(),
+        });
+      }
+    }
+
+    const [entry] = await executor
       .update(wikiEntries)
       .set({
         ...entryData,
+        ...(entryData.title !== undefined && { slug: entrySlug(entryData.title) }),
         updatedAt: new Date(),
       })
       .where(eq(wikiEntries.id, id))
       .returning();
+
+    if (entry && editorId) {
+      await this.recordRevision(executor, entry, editorId);
+    }
+    if (entry && entryData.description !== undefined) {
+      await this.replaceEntryLinks(executor, entry);
+    }
     return entry;
   }
 
+  // Revision history
+  private async recordRevision(
+    executor: DbExecutor,
+    entry: WikiEntry,
+    editorId: string | null,
+    options: { restoredFromId?: string; createdAt?: Date } = {},
+  ): Promise<WikiEntryRevision> {
+    const [{ maxNumber }] = await executor
+      .select({ maxNumber: sql<number>`coalesce(max(${wikiEntryRevisions.revisionNumber}), 0)` })
+      .from(wikiEntryRevisions)
+      .where(eq(wikiEntryRevisions.entryId, entry.id));
+
+    const [revision] = await executor
+      .insert(wikiEntryRevisions)
+      .values({
+        entryId: entry.id,
+        editorId,
+        revisionNumber: Number(maxNumber) + 1,
+        title: entry.title,
+        description: entry.description,
+        imageUrl: entry.imageUrl,
+        restoredFromId: options.restoredFromId,
+        createdAt: options.createdAt,
+      })
+      .returning();
+    return revision;
+  }
+
+  async getEntryRevisions(entryId: string): Promise<WikiEntryRevisionWithEditor[]> {
+    const result = await db
+      .select()
+      .from(wikiEntryRevisions)
+      .leftJoin(users, eq(wikiEntryRevisions.editorId, users.id))
+      .where(eq(wikiEntryRevisions.entryId, entryId))
+      .orderBy(desc(wikiEntryRevisions.revisionNumber));
+
+    return result.map((row) => ({
+      ...row.wiki_entry_revisions,
+      editor: row.users,
+    }));
+  }
+
+  async restoreEntryRevision(entryId: string, revisionId: string, editorId: string): Promise<WikiEntry | undefined> {
+    return await db.transaction(async (tx) => {
+      const [revision] = await tx
+        .select()
+        .from(wikiEntryRevisions)
+        .where(and(eq(wikiEntryRevisions.id, revisionId), eq(wikiEntryRevisions.entryId, entryId)));
+      if (!revision) return undefined;
+
+      const [entry] = await tx
+        .update(wikiEntries)
+        .set({
+          title: revision.title,
+          slug: entrySlug(revision.title),
+          description: revision.description,
+          imageUrl: revision.imageUrl,
+          updatedAt: new Date(),
+        })
+        .where(eq(wikiEntries.id, entryId))
+        .returning();
+
+      if (entry) {
+        await this.recordRevision(tx, entry, editorId, { restoredFromId: revision.id });
+        await this.replaceEntryLinks(tx, entry);
+      }
+      return entry;
+    });
+  }
+
+  // Tags
+  // Most used first; prefix matches on the accent-free slug
+  async getTags(options: { prefix?: string; limit?: number }): Promise<TagWithCount[]> {
+    const prefix = options.prefix ? slugify(options.prefix, 60) : "";
+    const entryCount = count(wikiEntryTags.entryId);
+    const query = db
+      .select({ tag: tags, entryCount })
+      .from(tags)
+      .leftJoin(wikiEntryTags, eq(tags.id, wikiEntryTags.tagId))
+      .where(prefix ? like(tags.slug, `${prefix}%`) : undefined)
+      .groupBy(tags.id)
+      .orderBy(desc(entryCount), asc(tags.name));
+
+    const rows = options.limit ? await query.limit(options.limit) : await query;
+    return rows.map((row) => ({ ...row.tag, entryCount: row.entryCount }));
+  }
+
+  async getTag(id: string): Promise<Tag | undefined> {
+    const [tag] = await db.select().from(tags).where(eq(tags.id, id));
+    return tag;
+  }
+
+  async getTagBySlug(slug: string): Promise<Tag | undefined> {
+    const [tag] = await db.select().from(tags).where(eq(tags.slug, slug));
+    return tag;
+  }
+
+  async getEntryTags(entryId: string): Promise<Tag[]> {
+    const rows = await db
+      .select({ tag: tags })
+      .from(wikiEntryTags)
+      .innerJoin(tags, eq(wikiEntryTags.tagId, tags.id))
+      .where(eq(wikiEntryTags.entryId, entryId))
+      .orderBy(asc(tags.name));
+    return rows.map((row) => row.tag);
+  }
+
+  async setEntryTags(entryId: string, tagNames: string[]): Promise<Tag[]> {
+    return await db.transaction((tx) => this.replaceEntryTags(tx, entryId, tagNames));
+  }
+
+  // Replaces the entry's tags, creating tags that don't exist yet. Names that
+  // slugify the same are one tag; the first spelling wins.
+  private async replaceEntryTags(executor: DbExecutor, entryId: string, tagNames: string[]): Promise<Tag[]> {
+    const namesBySlug = new Map<string, string>();
+    for (const raw of tagNames) {
+      const name = raw.trim().replace(/\s+/g, " ");
+      const slug = slugify(name, 60);
+      if (slug && !namesBySlug.has(slug)) namesBySlug.set(slug, name);
+    }
+
+    await executor.delete(wikiEntryTags).where(eq(wikiEntryTags.entryId, entryId));
+    if (namesBySlug.size === 0) return [];
+
+    await executor
+      .insert(tags)
+      .values(Array.from(namesBySlug, ([slug, name]) => ({ slug, name })))
+      .onConflictDoNothing({ target: tags.slug });
+    const entryTags = await executor
+      .select()
+      .from(tags)
+      .where(inArray(tags.slug, Array.from(namesBySlug.keys())));
+    await executor
+      .insert(wikiEntryTags)
+      .values(entryTags.map((tag) => ({ entryId, tagId: tag.id })));
+    return entryTags;
+  }
+
+  // Tags for a whole page of entries in one query
+  private async withTags<T extends { id: string }>(page: Paginated<T>): Promise<Paginated<T & EntryTags>> {
+    const entryIds = page.items.map((item) => item.id);
+    const rows = entryIds.length === 0 ? [] : await db
+      .select({ entryId: wikiEntryTags.entryId, tag: tags })
+      .from(wikiEntryTags)
+      .innerJoin(tags, eq(wikiEntryTags.tagId, tags.id))
+      .where(inArray(wikiEntryTags.entryId, entryIds))
+      .orderBy(asc(tags.name));
+
+    const tagsByEntry = new Map<string, Tag[]>();
+    for (const row of rows) {
+      const entryTags = tagsByEntry.get(row.entryId) ?? [];
+      entryTags.push(row.tag);
+      tagsByEntry.set(row.entryId, entryTags);
+    }
+
+    return {
+      ...page,
+      items: page.items.map((item) => ({ ...item, tags: tagsByEntry.get(item.id) ?? [] })),
+    };
+  }
+
+  async renameTag(id: string, name: string): Promise<Tag | undefined> {
+    const [tag] = await db
+      .update(tags)
+      .set({ name, slug: slugify(name, 60) })
+      .where(eq(tags.id, id))
+      .returning();
+    return tag;
+  }
+
+  // Moves every entry of the source tag to the target, then drops the source
+  async mergeTags(sourceId: string, targetId: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      const links = await tx
+        .select({ entryId: wikiEntryTags.entryId })
+        .from(wikiEntryTags)
+        .where(eq(wikiEntryTags.tagId, sourceId));
+      if (links.length > 0) {
+        await tx
+          .insert(wikiEntryTags)
+          .values(links.map((link) => ({ entryId: link.entryId, tagId: targetId })))
+          .onConflictDoNothing();
+      }
+      await tx.delete(tags).where(eq(tags.id, sourceId));
+    });
+  }
+
+  async deleteTag(id: string): Promise<void> {
+    await db.delete(tags).where(eq(tags.id, id));
+  }
+
+  // Wiki links
+  private async replaceEntryLinks(executor: DbExecutor, entry: WikiEntry): Promise<void> {
+    const keys = extractWikiLinkKeys(parseMarkdown(entry.description))
+      .filter((key) => key.length <= 255);
+
+    await executor.delete(entryLinks).where(eq(entryLinks.sourceId, entry.id));
+    if (keys.length === 0) return;
+    await executor
+      .insert(entryLinks)
+      .values(keys.map((targetKey) => ({ sourceId: entry.id, targetKey })));
+  }
+
+  // Titles can repeat; each key resolves to the oldest approved entry
+  async resolveWikiLinks(keys: string[]): Promise<WikiLinkTarget[]> {
+    if (keys.length === 0) return [];
+    const key = wikiLinkKeySql(wikiEntries.title);
+    return await db
+      .selectDistinctOn([key], {
+        key: sql<string>`${key}`,
+        entryId: wikiEntries.id,
+        userId: wikiEntries.userId,
+        title: wikiEntries.title,
+        slug: wikiEntries.slug,
+      })
+      .from(wikiEntries)
+      .where(and(eq(wikiEntries.status, "approved"), inArray(key, keys)))
+      .orderBy(key, asc(wikiEntries.createdAt), asc(wikiEntries.id));
+  }
+
+  // Approved entries whose description links to this entry's title
+  async getBacklinks(entryId: string): Promise<Backlink[]> {
+    const entry = await this.getEntry(entryId);
+    if (!entry) return [];
+
+    return await db
+      .select({ id: wikiEntries.id, userId: wikiEntries.userId, title: wikiEntries.title, slug: wikiEntries.slug })
+      .from(entryLinks)
+      .innerJoin(wikiEntries, eq(entryLinks.sourceId, wikiEntries.id))
+      .where(and(
+        eq(entryLinks.targetKey, wikiLinkKey(entry.title)),
+        eq(wikiEntries.status, "approved"),
+        ne(wikiEntries.id, entryId),
+      ))
+      .orderBy(asc(wikiEntries.title))
+      .limit(100);
+  }
+
+  // Pending drafts
+  async getEntryDraft(entryId: string): Promise<WikiEntryDraft | undefined> {
+    const [draft] = await db
+      .select()
+      .from(wikiEntryDrafts)
+      .where(eq(wikiEntryDrafts.entryId, entryId));
+    return draft;
+  }
+
+  async saveEntryDraft(entryId: string, editorId: string, content: Partial<WikiEntryDraftContent>): Promise<WikiEntryDraft | undefined> {
+    const entry = await this.getEntry(entryId);
+    if (!entry) return undefined;
+
+    // Later edits build on the pending draft rather than on the live version
+    const base = (await this.getEntryDraft(entryId)) ?? entry;
+    const values = {
+      title: content.title ?? base.title,
+      description: content.description ?? base.description,
+      imageUrl: content.imageUrl !== undefined ? content.imageUrl : base.imageUrl,
+    };
+
+    const [draft] = await db
+      .insert(wikiEntryDrafts)
+      .values({ entryId, editorId, ...values })
+      .onConflictDoUpdate({
+        target: wikiEntryDrafts.entryId,
+        set: { editorId, ...values, updatedAt: new Date() },
+      })
+      .returning();
+    return draft;
+  }
+
+  async approveEntryDraft(entryId: string): Promise<WikiEntry | undefined> {
+    return await db.transaction(async (tx) => {
+      const [draft] = await tx
+        .select()
+        .from(wikiEntryDrafts)
+        .where(eq(wikiEntryDrafts.entryId, entryId));
+      if (!draft) return undefined;
+
+      const entry = await this.applyEntryUpdate(
+        tx,
+        entryId,
+        { title: draft.title, description: draft.description, imageUrl: draft.imageUrl },
+        draft.editorId,
+      );
+      await tx.delete(wikiEntryDrafts).where(eq(wikiEntryDrafts.id, draft.id));
+      return entry;
+    });
+  }
+
+  async deleteEntryDraft(entryId: string): Promise<void> {
+    await db.delete(wikiEntryDrafts).where(eq(wikiEntryDrafts.entryId, entryId));
+  }
+
   async deleteEntry(id: string): Promise<void> {
     await db.delete(wikiEntries).where(eq(wikiEntries.id, id));
   }
 
   // Admin operations
-  async getAllEntriesWithUsers(): Promise<(WikiEntry & { user: User })[]> {
-    const result = await db
-      .select()
+  async getAllEntriesWithUsers(
+    filters: { status?: string; hasDraft?: boolean },
+    page: PageParams,
+  ): Promise<Paginated<WikiEntryWithDraft & { user: User } & ClaimInfo>> {
+    const rows = await db
+      .select({ entry: wikiEntries, user: users, draft: wikiEntryDrafts, cursorKey: cursorKey(wikiEntries.createdAt) })
       .from(wikiEntries)
       .innerJoin(users, eq(wikiEntries.userId, users.id))
-      .orderBy(desc(wikiEntries.createdAt));
+      .leftJoin(wikiEntryDrafts, eq(wikiEntries.id, wikiEntryDrafts.entryId))
+      .where(and(
+        filters.status ? eq(wikiEntries.status, filters.status) : undefined,
+        filters.hasDraft ? isNotNull(wikiEntryDrafts.id) : undefined,
+        afterCursor(wikiEntries.createdAt, wikiEntries.id, page.cursor),
+      ))
+      .orderBy(desc(wikiEntries.createdAt), desc(wikiEntries.id))
+      .limit(page.limit + 1);
 
-    return result.map((row) => ({
-      ...row.wiki_entries,
-      user: row.users,
+    const result = toPage(rows, page.limit, (row) => row.entry.id, (row) => ({
+      ...row.entry,
+      user: row.user,
+      pendingDraft: row.draft,
     }));
+    const claims = await this.getActiveClaims("entry", result.items.map((item) => item.id));
+    return {
+      ...result,
+      items: result.items.map((item) => ({ ...item, claim: claims.get(item.id) ?? null })),
+    };
+  }
+
+  async getEntryCounts(): Promise<{ total: number; pending: number; approved: number; rejected: number; drafts: number }> {
+    const [counts] = await db
+      .select({
+        total: sql<number>`cast(count(*) as int)`,
+        pending: sql<number>`cast(count(*) filter (where ${wikiEntries.status} = 'pending') as int)`,
+        approved: sql<number>`cast(count(*) filter (where ${wikiEntries.status} = 'approved') as int)`,
+        rejected: sql<number>`cast(count(*) filter (where ${wikiEntries.status} = 'rejected') as int)`,
+        drafts: sql<number>`cast(count(${wikiEntryDrafts.id}) as int)`,
+      })
+      .from(wikiEntries)
+      .leftJoin(wikiEntryDrafts, eq(wikiEntries.id, wikiEntryDrafts.entryId));
+    return counts;
   }
 
   async moderateEntry(id: string, status: string): Promise<WikiEntry | undefined> {
@@ -238,22 +973,108 @@ export class DatabaseStorage implements IStorage {
     return entry;
   }
 
+  async recordModeration(decision: InsertEntryModeration): Promise<EntryModeration> {
+    const [row] = await db.insert(entryModerations).values(decision).returning();
+    return row;
+  }
+
+  async getLatestModerations(entryIds: string[]): Promise<Map<string, ModerationNote>> {
+    if (entryIds.length === 0) return new Map();
+    const rows = await db
+      .selectDistinctOn([entryModerations.entryId], {
+        entryId: entryModerations.entryId,
+        status: entryModerations.status,
+        isDraft: entryModerations.isDraft,
+        reason: entryModerations.reason,
+        createdAt: entryModerations.createdAt,
+      })
+      .from(entryModerations)
+      .where(inArray(entryModerations.entryId, entryIds))
+      .orderBy(entryModerations.entryId, desc(entryModerations.createdAt));
+    return new Map(rows.map(({ entryId, ...note }) => [entryId, note]));
+  }
+
+  // Review claims
+  async claimTarget(
+    targetType: ClaimTargetType,
+    targetId: string,
+    moderatorId: string,
+    expiresAt: Date,
+    force: boolean,
+  ): Promise<ModerationClaim | undefined> {
+    // A single statement, so two moderators claiming at once can't both win
+    const [claim] = await db
+      .insert(moderationClaims)
+      .values({ targetType, targetId, moderatorId, expiresAt })
+      .onConflictDoUpdate({
+        target: [moderationClaims.targetType, moderationClaims.targetId],
+        set: { moderatorId, expiresAt, createdAt: new Date() },
+        setWhere: force
+          ? undefined
+          : or(lte(moderationClaims.expiresAt, new Date()), eq(moderationClaims.moderatorId, moderatorId)),
+      })
+      .returning();
+    return claim;
+  }
+
+  async getActiveClaims(targetType: ClaimTargetType, targetIds: string[]): Promise<Map<string, ActiveClaim>> {
+    if (targetIds.length === 0) return new Map();
+    const rows = await db
+      .select({
+        targetId: moderationClaims.targetId,
+        moderatorId: moderationClaims.moderatorId,
+        expiresAt: moderationClaims.expiresAt,
+        moderator: {
+          id: users.id,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          email: users.email,
+          profileImageUrl: users.profileImageUrl,
+        },
+      })
+      .from(moderationClaims)
+      .innerJoin(users, eq(moderationClaims.moderatorId, users.id))
+      .where(and(
+        eq(moderationClaims.targetType, targetType),
+        inArray(moderationClaims.targetId, targetIds),
+        gt(moderationClaims.expiresAt, new Date()),
+      ));
+    return new Map(rows.map(({ targetId, ...claim }) => [targetId, claim]));
+  }
+
+  async releaseClaim(targetType: ClaimTargetType, targetId: string, moderatorId?: string): Promise<void> {
+    await db
+      .delete(moderationClaims)
+      .where(and(
+        eq(moderationClaims.targetType, targetType),
+        eq(moderationClaims.targetId, targetId),
+        moderatorId ? eq(moderationClaims.moderatorId, moderatorId) : undefined,
+      ));
+  }
+
   async deleteEntryAdmin(id: string): Promise<void> {
     await db.delete(wikiEntries).where(eq(wikiEntries.id, id));
   }
 
-  // User role management
-  async updateUserRole(userId: string, role: string): Promise<User | undefined> {
+  // User role management; isAdmin mirrors the role
+  async updateUserRole(userId: string, role: Role): Promise<User | undefined> {
     const [user] = await db
       .update(users)
-      .set({ role, updatedAt: new Date() })
+      .set({ role, isAdmin: role === "admin", updatedAt: new Date() })
       .where(eq(users.id, userId))
       .returning();
     return user;
   }
 
-  async getAllUsers(): Promise<User[]> {
-    return await db.select().from(users).orderBy(desc(users.createdAt));
+  async getAllUsers(page: PageParams): Promise<Paginated<User>> {
+    const rows = await db
+      .select({ user: users, cursorKey: cursorKey(users.createdAt) })
+      .from(users)
+      .where(afterCursor(users.createdAt, users.id, page.cursor))
+      .orderBy(desc(users.createdAt), desc(users.id))
+      .limit(page.limit + 1);
+
+    return toPage(rows, page.limit, (row) => row.user.id, (row) => row.user);
   }
 
   async getUserByUsername(username: string): Promise<User | undefined> {
@@ -261,6 +1082,199 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  // Case-insensitive: provider addresses keep whatever case they came with
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(sql`lower(${users.email}) = lower(${email})`).limit(1);
+    return user;
+  }
+
+  // External login identities
+  async getUserIdentity(provider: string, subject: string): Promise<UserIdentity | undefined> {
+    const [identity] = await db
+      .select()
+      .from(userIdentities)
+      .where(and(eq(userIdentities.provider, provider), eq(userIdentities.subject, subject)));
+    return identity;
+  }
+
+  async getUserIdentities(userId: string): Promise<UserIdentity[]> {
+    return await db
+      .select()
+      .from(userIdentities)
+      .where(eq(userIdentities.userId, userId))
+      .orderBy(asc(userIdentities.createdAt));
+  }
+
+  async createUserIdentity(identity: InsertUserIdentity): Promise<UserIdentity> {
+    const [created] = await db.insert(userIdentities).values(identity).returning();
+    return created;
+  }
+
+  async recordIdentityLogin(identityId: string, email: string | null): Promise<void> {
+    await db
+      .update(userIdentities)
+      .set({ email, lastLoginAt: new Date() })
+      .where(eq(userIdentities.id, identityId));
+  }
+
+  async deleteUserIdentity(userId: string, identityId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(userIdentities)
+      .where(and(eq(userIdentities.id, identityId), eq(userIdentities.userId, userId)))
+      .returning({ id: userIdentities.id });
+    return deleted.length > 0;
+  }
+
+  // Email verification and password reset tokens
+  async createAuthToken(token: InsertAuthToken): Promise<AuthToken> {
+    return await db.transaction(async (tx) => {
+      await tx
+        .delete(authTokens)
+        .where(and(
+          eq(authTokens.userId, token.userId),
+          eq(authTokens.purpose, token.purpose),
+          isNull(authTokens.usedAt),
+        ));
+      const [created] = await tx.insert(authTokens).values(token).returning();
+      return created;
+    });
+  }
+
+  // A single conditional update, so two requests can't both use one token
+  async consumeAuthToken(purpose: AuthTokenPurpose, tokenHash: string): Promise<AuthToken | undefined> {
+    const [token] = await db
+      .update(authTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(authTokens.tokenHash, tokenHash),
+        eq(authTokens.purpose, purpose),
+        isNull(authTokens.usedAt),
+        gt(authTokens.expiresAt, new Date()),
+      ))
+      .returning();
+    return token;
+  }
+
+  async markEmailVerified(userId: string, email: string): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ emailVerifiedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(users.id, userId), eq(users.email, email)))
+      .returning();
+    return user;
+  }
+
+  async updateUserEmail(userId: string, email: string): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ email, emailVerifiedAt: null, updatedAt: new Date() })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
+  async releaseUnverifiedEmail(userId: string): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ email: null, updatedAt: new Date() })
+      .where(and(eq(users.id, userId), isNull(users.emailVerifiedAt)))
+      .returning();
+    return user;
+  }
+
+  async updateUserPassword(userId: string, passwordHash: string): Promise<void> {
+    await db
+      .update(users)
+      .set({ password: passwordHash, updatedAt: new Date() })
+      .where(eq(users.id, userId));
+  }
+
+  // Signs the user out everywhere, e.g. after a password reset
+  async deleteUserSessions(userId: string): Promise<void> {
+    await db
+      .delete(sessions)
+      .where(sql`${sessions.sess}->'passport'->'user'->'claims'->>'sub' = ${userId}`);
+  }
+
+  // TOTP two-factor authentication
+  async getTwoFactor(userId: string): Promise<UserTwoFactor | undefined> {
+    const [twoFactor] = await db.select().from(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+    return twoFactor;
+  }
+
+  async enableTwoFactor(userId: string, secret: string, usedStep: number, recoveryCodeHashes: string[]): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      await tx
+        .insert(userTwoFactor)
+        .values({ userId, secret, lastUsedStep: usedStep })
+        .onConflictDoUpdate({
+          target: userTwoFactor.userId,
+          set: { secret, lastUsedStep: usedStep, createdAt: new Date() },
+        });
+      await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+      await tx.insert(twoFactorRecoveryCodes).values(recoveryCodeHashes.map((codeHash) => ({ userId, codeHash })));
+      const [user] = await tx
+        .update(users)
+        .set({ twoFactorEnabledAt: new Date(), updatedAt: new Date() })
+        .where(eq(users.id, userId))
+        .returning();
+      return user;
+    });
+  }
+
+  async disableTwoFactor(userId: string): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+      await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+      const [user] = await tx
+        .update(users)
+        .set({ twoFactorEnabledAt: null, updatedAt: new Date() })
+        .where(eq(users.id, userId))
+        .returning();
+      return user;
+    });
+  }
+
+  async recordTwoFactorStep(userId: string, step: number): Promise<boolean> {
+    const updated = await db
+      .update(userTwoFactor)
+      .set({ lastUsedStep: step })
+      .where(and(
+        eq(userTwoFactor.userId, userId),
+        or(isNull(userTwoFactor.lastUsedStep), lt(userTwoFactor.lastUsedStep, step)),
+      ))
+      .returning({ userId: userTwoFactor.userId });
+    return updated.length > 0;
+  }
+
+  async consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const used = await db
+      .update(twoFactorRecoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(twoFactorRecoveryCodes.userId, userId),
+        eq(twoFactorRecoveryCodes.codeHash, codeHash),
+        isNull(twoFactorRecoveryCodes.usedAt),
+      ))
+      .returning({ id: twoFactorRecoveryCodes.id });
+    return used.length > 0;
+  }
+
+  async replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+      await tx.insert(twoFactorRecoveryCodes).values(codeHashes.map((codeHash) => ({ userId, codeHash })));
+    });
+  }
+
+  async countRecoveryCodes(userId: string): Promise<number> {
+    const [row] = await db
+      .select({ count: count() })
+      .from(twoFactorRecoveryCodes)
+      .where(and(eq(twoFactorRecoveryCodes.userId, userId), isNull(twoFactorRecoveryCodes.usedAt)));
+    return row?.count ?? 0;
+  }
+
   // Badge management
   async setUserBadge(userId: string, badge: string): Promise<User | undefined> {
     const [user] = await db
@@ -282,14 +1296,19 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Gallery and profile customization
-  async addUserImage(userId: string, imageUrl: string, fileName?: string): Promise<UserImage> {
+  async addUserImage(imageData: InsertUserImage): Promise<UserImage> {
     const [image] = await db
       .insert(userImages)
-      .values({ userId, imageUrl, fileName })
+      .values(imageData)
       .returning();
     return image;
   }
 
+  async getUserImage(imageId: string): Promise<UserImage | undefined> {
+    const [image] = await db.select().from(userImages).where(eq(userImages.id, imageId));
+    return image;
+  }
+
   async getUserImages(userId: string): Promise<UserImage[]> {
     return await db
       .select()
@@ -298,8 +1317,22 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(userImages.createdAt));
   }
 
-  async deleteUserImage(imageId: string): Promise<void> {
-    await db.delete(userImages).where(eq(userImages.id, imageId));
+  // Images saved before uploads held the data URL itself, so their size is
+  // the length of image_url
+  async getUserImageUsage(userId: string): Promise<{ count: number; bytes: number }> {
+    const [usage] = await db
+      .select({
+        count: sql<number>`cast(count(*) as int)`,
+        bytes: sql<number>`cast(coalesce(sum(coalesce(${userImages.sizeBytes}, octet_length(${userImages.imageUrl}))), 0) as bigint)`.mapWith(Number),
+      })
+      .from(userImages)
+      .where(eq(userImages.userId, userId));
+    return usage;
+  }
+
+  async deleteUserImage(imageId: string): Promise<UserImage | undefined> {
+    const [image] = await db.delete(userImages).where(eq(userImages.id, imageId)).returning();
+    return image;
   }
 
   async updateProfileAvatar(userId: string, imageUrl: string): Promise<User | undefined> {
@@ -320,6 +1353,170 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getExternalImage(id: string): Promise<ExternalImage | undefined> {
+    const [image] = await db.select().from(externalImages).where(eq(externalImages.id, id));
+    return image;
+  }
+
+  // One row per source URL, shared by every entry that links to it
+  async getOrCreateExternalImage(sourceUrl: string): Promise<ExternalImage> {
+    const [created] = await db
+      .insert(externalImages)
+      .values({ sourceUrl })
+      .onConflictDoNothing({ target: externalImages.sourceUrl })
+      .returning();
+    if (created) return created;
+
+    const [existing] = await db.select().from(externalImages).where(eq(externalImages.sourceUrl, sourceUrl));
+    return existing;
+  }
+
+  async updateExternalImage(
+    id: string,
+    fields: Partial<Omit<ExternalImage, "id" | "sourceUrl" | "createdAt">>,
+  ): Promise<ExternalImage | undefined> {
+    const [image] = await db.update(externalImages).set(fields).where(eq(externalImages.id, id)).returning();
+    return image;
+  }
+
+  async getBrokenImages(): Promise<BrokenImage[]> {
+    const images = await db
+      .select()
+      .from(externalImages)
+      .where(eq(externalImages.status, "broken"))
+      .orderBy(desc(externalImages.fetchedAt));
+    if (images.length === 0) return [];
+
+    const urls = images.map((image) => externalImageUrl(image.id));
+    const entries = await db
+      .select({ id: wikiEntries.id, title: wikiEntries.title, slug: wikiEntries.slug, imageUrl: wikiEntries.imageUrl })
+      .from(wikiEntries)
+      .where(inArray(wikiEntries.imageUrl, urls))
+      .orderBy(asc(wikiEntries.title));
+
+    return images.map((image) => {
+      const url = externalImageUrl(image.id);
+      return {
+        ...image,
+        entries: entries.filter((entry) => entry.imageUrl === url).map(({ imageUrl, ...entry }) => entry),
+      };
+    });
+  }
+
+  async recordAudit(entry: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    const [row] = await db.insert(auditLog).values(entry).returning();
+    return row;
+  }
+
+  async getAuditLog(
+    filters: { actorId?: string; action?: AuditAction; targetType?: AuditTargetType; targetId?: string },
+    page: PageParams,
+  ): Promise<Paginated<AuditLogEntryWithActor>> {
+    const rows = await db
+      .select({
+        entry: auditLog,
+        actor: {
+          id: users.id,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          email: users.email,
+          profileImageUrl: users.profileImageUrl,
+        },
+        cursorKey: cursorKey(auditLog.createdAt),
+      })
+      .from(auditLog)
+      .leftJoin(users, eq(auditLog.actorId, users.id))
+      .where(and(
+        filters.actorId ? eq(auditLog.actorId, filters.actorId) : undefined,
+        filters.action ? eq(auditLog.action, filters.action) : undefined,
+        filters.targetType ? eq(auditLog.targetType, filters.targetType) : undefined,
+        filters.targetId ? eq(auditLog.targetId, filters.targetId) : undefined,
+        afterCursor(auditLog.createdAt, auditLog.id, page.cursor),
+      ))
+      .orderBy(desc(auditLog.createdAt), desc(auditLog.id))
+      .limit(page.limit + 1);
+
+    return toPage(rows, page.limit, (row) => row.entry.id, (row) => ({ ...row.entry, actor: row.actor }));
+  }
+
+  // Notifications
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    const [row] = await db.insert(notifications).values(notification).returning();
+    return row;
+  }
+
+  async hasNotification(notification: { userId: string; type: NotificationType; actorId: string; entryId: string }): Promise<boolean> {
+    const [row] = await db
+      .select({ id: notifications.id })
+      .from(notifications)
+      .where(and(
+        eq(notifications.userId, notification.userId),
+        eq(notifications.type, notification.type),
+        eq(notifications.actorId, notification.actorId),
+        eq(notifications.entryId, notification.entryId),
+      ))
+      .limit(1);
+    return !!row;
+  }
+
+  async getNotifications(userId: string, page: PageParams): Promise<Paginated<NotificationWithDetails>> {
+    const rows = await db
+      .select({
+        notification: notifications,
+        actor: {
+          id: users.id,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          email: users.email,
+          profileImageUrl: users.profileImageUrl,
+        },
+        entry: {
+          id: wikiEntries.id,
+          title: wikiEntries.title,
+          slug: wikiEntries.slug,
+        },
+        cursorKey: cursorKey(notifications.createdAt),
+      })
+      .from(notifications)
+      .leftJoin(users, eq(notifications.actorId, users.id))
+      .leftJoin(wikiEntries, eq(notifications.entryId, wikiEntries.id))
+      .where(and(
+        eq(notifications.userId, userId),
+        afterCursor(notifications.createdAt, notifications.id, page.cursor),
+      ))
+      .orderBy(desc(notifications.createdAt), desc(notifications.id))
+      .limit(page.limit + 1);
+
+    return toPage(rows, page.limit, (row) => row.notification.id, (row) => ({
+      ...row.notification,
+      actor: row.actor,
+      entry: row.entry,
+    }));
+  }
+
+  async getUnreadNotificationCount(userId: string): Promise<number> {
+    const [row] = await db
+      .select({ count: count() })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+    return row.count;
+  }
+
+  async markNotifications(userId: string, read: boolean, ids?: string[]): Promise<number> {
+    if (ids && ids.length === 0) return 0;
+    const updated = await db
+      .update(notifications)
+      .set({ readAt: read ? new Date() : null })
+      .where(and(
+        eq(notifications.userId, userId),
+        ids ? inArray(notifications.id, ids) : undefined,
+        // Keep the original read time when marking read again
+        read ? isNull(notifications.readAt) : isNotNull(notifications.readAt),
+      ))
+      .returning({ id: notifications.id });
+    return updated.length;
+  }
+
   // Content reports
   async createReport(reportData: InsertContentReport): Promise<ContentReport> {
     const [report] = await db
@@ -329,31 +1526,69 @@ export class DatabaseStorage implements IStorage {
     return report;
   }
 
-  async getReports(filters?: { status?: string }): Promise<(ContentReport & { entry: WikiEntry & { user: User }; reporter: User })[]> {
-    let baseQuery: any = db.select().from(contentReports);
+  async getReports(filters: { status?: string }, page: PageParams): Promise<Paginated<ReportWithDetails>> {
+    const rows = await selectReportsWithDetails()
+      .where(and(
+        filters.status ? eq(contentReports.status, filters.status as ReportStatus) : undefined,
+        afterCursor(contentReports.createdAt, contentReports.id, page.cursor),
+      ))
+      .orderBy(desc(contentReports.createdAt), desc(contentReports.id))
+      .limit(page.limit + 1);
 
-    if (filters?.status) {
-      baseQuery = baseQuery.where(eq(contentReports.status, filters.status));
-    }
+    const reportPage = toPage(rows, page.limit, (row) => row.report.id, (row) => row);
+    const claims = await this.getActiveClaims("report", reportPage.items.map((row) => row.report.id));
+
+    return {
+      items: reportPage.items.map((row) => ({
+        ...row.report,
+        entry: { ...row.entry, user: row.author },
+        reporter: row.reporter,
+        claim: claims.get(row.report.id) ?? null,
+      })),
+      nextCursor: reportPage.nextCursor,
+    };
+  }
 
-    const reports = await baseQuery.orderBy(desc(contentReports.createdAt)) as ContentReport[];
+  async getReportGroups(filters: { statuses?: readonly ReportStatus[] }, page: PageParams): Promise<Paginated<ReportGroup>> {
+    const statusFilter = filters.statuses ? inArray(contentReports.status, [...filters.statuses]) : undefined;
+    const latestReportAt = sql`max(${contentReports.createdAt})`;
 
-    // Fetch related data for each report
-    const result = await Promise.all(
-      reports.map(async (report: ContentReport) => {
-        const entry = await this.getEntry(report.entryId);
-        const entryUser = entry ? await this.getUser(entry.userId) : null;
-        const reporter = await this.getUser(report.reporterId);
+    // One page of entries, then all of their matching reports in one query
+    const groupRows = await db
+      .select({ entryId: contentReports.entryId, cursorKey: sql<string>`${latestReportAt}::text` })
+      .from(contentReports)
+      .where(statusFilter)
+      .groupBy(contentReports.entryId)
+      .having(page.cursor
+        ? sql`(${latestReportAt}, ${contentReports.entryId}) < (${page.cursor.createdAt}::timestamp, ${page.cursor.id})`
+        : undefined)
+      .orderBy(desc(latestReportAt), desc(contentReports.entryId))
+      .limit(page.limit + 1);
+    const groupPage = toPage(groupRows, page.limit, (row) => row.entryId, (row) => row.entryId);
+    if (groupPage.items.length === 0) {
+      return { items: [], nextCursor: null };
+    }
 
-        return {
-          ...report,
-          entry: { ...entry!, user: entryUser! },
-          reporter: reporter!,
-        };
-      })
-    );
+    const rows = await selectReportsWithDetails()
+      .where(and(inArray(contentReports.entryId, groupPage.items), statusFilter))
+      .orderBy(desc(contentReports.createdAt), desc(contentReports.id));
+    const claims = await this.getActiveClaims("report", rows.map((row) => row.report.id));
 
-    return result;
+    const groups = new Map<string, ReportGroup>();
+    for (const row of rows) {
+      let group = groups.get(row.entry.id);
+      if (!group) {
+        group = { entry: { ...row.entry, user: row.author }, reports: [], reasonCounts: {}, latestReportAt: row.report.createdAt };
+        groups.set(row.entry.id, group);
+      }
+      group.reports.push({ ...row.report, reporter: row.reporter, claim: claims.get(row.report.id) ?? null });
+      group.reasonCounts[row.report.reason] = (group.reasonCounts[row.report.reason] ?? 0) + 1;
+    }
+
+    return {
+      items: groupPage.items.flatMap((entryId) => groups.get(entryId) ?? []),
+      nextCursor: groupPage.nextCursor,
+    };
   }
 
   async getReportsByEntry(entryId: string): Promise<ContentReport[]> {
@@ -364,13 +1599,30 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(contentReports.createdAt));
   }
 
-  async updateReportStatus(reportId: string, status: string): Promise<ContentReport | undefined> {
-    const [report] = await db
+  async getReport(reportId: string): Promise<ContentReport | undefined> {
+    const [report] = await db.select().from(contentReports).where(eq(contentReports.id, reportId));
+    return report;
+  }
+
+  async updateReportsStatus(
+    reportIds: string[],
+    status: ReportStatus,
+    resolution?: { note: string | null; resolvedBy: string },
+  ): Promise<ContentReport[]> {
+    if (reportIds.length === 0) return [];
+    const now = new Date();
+    return await db
       .update(contentReports)
-      .set({ status, updatedAt: new Date() })
-      .where(eq(contentReports.id, reportId))
+      .set({
+        status,
+        updatedAt: now,
+        ...(resolution && { resolutionNote: resolution.note, resolvedBy: resolution.resolvedBy, resolvedAt: now }),
+      })
+      .where(and(
+        inArray(contentReports.id, reportIds),
+        inArray(contentReports.status, reportStatusesBefore(status)),
+      ))
       .returning();
-    return report;
   }
 
   async deleteReport(reportId: string): Promise<void> {
@@ -386,13 +1638,22 @@ export class DatabaseStorage implements IStorage {
     return newComment;
   }
 
-  async getComments(entryId: string): Promise<(Comment & { user: User })[]> {
+  async getComment(commentId: string): Promise<Comment | undefined> {
+    const [comment] = await db
+      .select()
+      .from(comments)
+      .where(eq(comments.id, commentId));
+    return comment;
+  }
+
+  // Flat list, oldest first; the client nests replies under parentId
+  async getComments(entryId: string): Promise<CommentWithUser[]> {
     const result = await db
       .select()
       .from(comments)
       .leftJoin(users, eq(comments.userId, users.id))
       .where(eq(comments.entryId, entryId))
-      .orderBy(desc(comments.createdAt));
+      .orderBy(comments.createdAt);
     
     return result.map(({ comments: c, users: u }) => ({
       ...c,
@@ -400,15 +1661,26 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
+  async updateComment(commentId: string, content: string): Promise<Comment | undefined> {
+    const [comment] = await db
+      .update(comments)
+      .set({ content, editedAt: new Date(), updatedAt: new Date() })
+      .where(eq(comments.id, commentId))
+      .returning();
+    return comment;
+  }
+
   async deleteComment(commentId: string): Promise<void> {
     await db.delete(comments).where(eq(comments.id, commentId));
   }
 
   // Likes
-  async createLike(like: InsertLike): Promise<Like> {
+  // Liking twice is a no-op; returns undefined when the like already existed
+  async createLike(like: InsertLike): Promise<Like | undefined> {
     const [newLike] = await db
       .insert(likes)
       .values(like)
+      .onConflictDoNothing({ target: [likes.entryId, likes.userId] })
       .returning();
     return newLike;
   }
@@ -0,0 +1,96 @@
+import { createHash, randomBytes } from "node:crypto";
+import type { Request } from "express";
+import * as OTPAuth from "otpauth";
+import QRCode from "qrcode";
+import { storage } from "./storage";
+import { requiresTwoFactor } from "@shared/permissions";
+import { TWO_FACTOR_CODE_LENGTH, TWO_FACTOR_RECOVERY_CODE_COUNT, type TwoFactorSetup, type User } from "@shared/schema";
+
+declare module "express-session" {
+  interface SessionData {
+    // This session passed a TOTP or recovery code check
+    twoFactorVerified?: boolean;
+    // Wrong codes entered in this session; too many end it
+    twoFactorFailures?: number;
+    // Secret shown by setup, saved once the user confirms a code from it
+    twoFactorSetupSecret?: string;
+    // Password login that still needs its second step
+    pendingTwoFactor?: { userId: string; rememberMe: boolean; attempts: number; expiresAt: number };
+  }
+}
+
+const ISSUER = "pixelsWIKI";
+const PERIOD_SECONDS = 30;
+export const MAX_TWO_FACTOR_ATTEMPTS = 5;
+export const PENDING_TWO_FACTOR_MS = 5 * 60 * 1000;
+
+function totp(secret: string, label = ""): OTPAuth.TOTP {
+  return new OTPAuth.TOTP({
+    issuer: ISSUER,
+    label,
+    algorithm: "SHA1",
+    digits: TWO_FACTOR_CODE_LENGTH,
+    period: PERIOD_SECONDS,
+    secret: OTPAuth.Secret.fromBase32(secret),
+  });
+}
+
+export function generateTwoFactorSecret(): string {
+  return new OTPAuth.Secret({ size: 20 }).base32;
+}
+
+// What authenticator apps scan: the otpauth:// URL, also as a QR code image
+export async function twoFactorSetup(user: User, secret: string): Promise<TwoFactorSetup> {
+  const otpauthUrl = totp(secret, user.email || user.username || user.id).toString();
+  return { secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl) };
+}
+
+// The time step a code belongs to, allowing one step of clock drift either
+// way; null when the code is wrong
+export function matchTotpStep(secret: string, code: string): number | null {
+  const delta = totp(secret).validate({ token: code, window: 1 });
+  if (delta === null) return null;
+  return Math.floor(Date.now() / 1000 / PERIOD_SECONDS) + delta;
+}
+
+// Ten codes like "3f9a1-c07b2"
+export function generateRecoveryCodes(): string[] {
+  return Array.from({ length: TWO_FACTOR_RECOVERY_CODE_COUNT }, () => {
+    const hex = randomBytes(5).toString("hex");
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+}
+
+// Case, spaces and dashes don't matter when a code is typed back in
+export function hashRecoveryCode(code: string): string {
+  return createHash("sha256").update(code.toLowerCase().replace(/[^a-z0-9]/g, "")).digest("hex");
+}
+
+// Checks a TOTP code, or else a recovery code, for a user with 2FA on.
+// Each TOTP code and each recovery code is accepted only once.
+export async function verifyTwoFactorCode(userId: string, code: string): Promise<"totp" | "recovery" | null> {
+  const trimmed = code.replace(/\s/g, "");
+  if (new RegExp(`^\\d{${TWO_FACTOR_CODE_LENGTH}}$`).test(trimmed)) {
+    const twoFactor = await storage.getTwoFactor(userId);
+    const step = twoFactor ? matchTotpStep(twoFactor.secret, trimmed) : null;
+    return step !== null && (await storage.recordTwoFactorStep(userId, step)) ? "totp" : null;
+  }
+  return (await storage.consumeRecoveryCode(userId, hashRecoveryCode(trimmed))) ? "recovery" : null;
+}
+
+export type TwoFactorGate = "two_factor_setup_required" | "two_factor_verification_required";
+
+// Why a staff member can't use admin routes yet, or null when they can
+export function twoFactorGate(user: User | undefined, req: Request): TwoFactorGate | null {
+  return sessionTwoFactorGate(user, !!req.session.twoFactorVerified);
+}
+
+// The same check for a session read outside of Express (WebSockets)
+export function sessionTwoFactorGate(
+  user: Pick<User, "role" | "twoFactorEnabledAt"> & Partial<Pick<User, "isAdmin">> | undefined,
+  verified: boolean,
+): TwoFactorGate | null {
+  if (!requiresTwoFactor(user)) return null;
+  if (!user?.twoFactorEnabledAt) return "two_factor_setup_required";
+  return verified ? null : "two_factor_verification_required";
+}
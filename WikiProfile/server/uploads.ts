@@ -0,0 +1,83 @@
+import { randomUUID } from "node:crypto";
+import type { RequestHandler } from "express";
+import multer from "multer";
+import {
+  GALLERY_IMAGE_TYPES,
+  MAX_GALLERY_IMAGE_BYTES,
+  type GalleryImageType,
+} from "@shared/schema";
+
+// Identifies an image from its first bytes; the client's Content-Type and
+// file name are not trusted
+export function sniffImageType(data: Buffer): GalleryImageType | null {
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return "image/jpeg";
+  }
+  if (data.length >= 8 && data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return "image/png";
+  }
+  const header = data.subarray(0, 12).toString("latin1");
+  if (header.startsWith("GIF87a") || header.startsWith("GIF89a")) {
+    return "image/gif";
+  }
+  if (header.startsWith("RIFF") && header.slice(8, 12) === "WEBP") {
+    return "image/webp";
+  }
+  return null;
+}
+
+export class InvalidUploadError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = "InvalidUploadError";
+  }
+}
+
+export type ValidatedImage = {
+  data: Buffer;
+  contentType: GalleryImageType;
+  fileName: string;
+};
+
+// Checks an uploaded file against the allowed types; the declared type has
+// to agree with the file contents
+export function validateImageUpload(file: Express.Multer.File | undefined): ValidatedImage {
+  if (!file) {
+    throw new InvalidUploadError("Image file required");
+  }
+  if (!(GALLERY_IMAGE_TYPES as readonly string[]).includes(file.mimetype)) {
+    throw new InvalidUploadError("Unsupported image type", 415);
+  }
+  const contentType = sniffImageType(file.buffer);
+  if (contentType !== file.mimetype) {
+    throw new InvalidUploadError("File content does not match its type", 415);
+  }
+  return {
+    data: file.buffer,
+    contentType,
+    fileName: file.originalname.slice(0, 255),
+  };
+}
+
+// Random, unguessable prefix grouped by user, e.g. "gallery/<userId>/<uuid>";
+// the processed variants are stored beneath it
+export function imageStorageKey(userId: string): string {
+  return `gallery/${userId}/${randomUUID()}`;
+}
+
+const parser = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_GALLERY_IMAGE_BYTES, files: 1, fields: 5 },
+}).single("image");
+
+// Parses a single "image" field, turning multer's errors into JSON responses
+export const imageUpload: RequestHandler = (req, res, next) => {
+  parser(req, res, (error: unknown) => {
+    if (!error) return next();
+    if (error instanceof multer.MulterError) {
+      const status = error.code === "LIMIT_FILE_SIZE" ? 413 : 400;
+      return res.status(status).json({ message: error.message });
+    }
+    next(error);
+  });
+};
@@ -0,0 +1,74 @@
+// Sized copies generated for every processed image. Files are stored side by
+// side as "<prefix>/<variant>.<ext>" plus a "<prefix>/<variant>.webp" copy,
+// and the image's URL is always the full variant in its original format.
+export const IMAGE_VARIANT_WIDTHS = {
+  thumb: 160,
+  card: 480,
+  full: 1600,
+} as const;
+export type ImageVariant = keyof typeof IMAGE_VARIANT_WIDTHS;
+export const IMAGE_VARIANTS = Object.keys(IMAGE_VARIANT_WIDTHS) as ImageVariant[];
+
+export const IMAGE_EXTENSIONS = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+} as const;
+export type ImageContentType = keyof typeof IMAGE_EXTENSIONS;
+export type ImageExtension = typeof IMAGE_EXTENSIONS[ImageContentType];
+
+export function imageVariantKey(prefix: string, variant: ImageVariant, extension: ImageExtension): string {
+  return `${prefix}/${variant}.${extension}`;
+}
+
+// Internal URL of a cached external image (see externalImages in the schema)
+export function externalImageUrl(id: string): string {
+  return `/api/images/${id}/full`;
+}
+
+// Processed images live in a directory named by a random UUID. Proxied
+// external images (/api/images/<id>/full) have no extension: the server
+// picks the stored format, and ".webp" asks for the WebP copy.
+const PROCESSED_URL = /^(.*\/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\/)full(?:\.(jpg|png|gif|webp))?$/;
+
+function parseProcessedUrl(url: string): { base: string; extension?: string } | null {
+  const match = PROCESSED_URL.exec(url);
+  return match ? { base: match[1], extension: match[2] } : null;
+}
+
+function variantFile(variant: ImageVariant, extension: string | undefined): string {
+  return extension ? `${variant}.${extension}` : variant;
+}
+
+// URL of one variant; other URLs (external links, older uploads) are returned
+// unchanged since no variants exist for them
+export function imageVariantUrl(url: string, variant: ImageVariant, format?: "webp"): string {
+  const parsed = parseProcessedUrl(url);
+  if (!parsed) return url;
+  return parsed.base + variantFile(variant, format ?? parsed.extension);
+}
+
+// "<thumb> 160w, <card> 480w, <full> 1600w", or undefined when the image has
+// no variants
+export function imageSrcSet(url: string, format?: "webp"): string | undefined {
+  const parsed = parseProcessedUrl(url);
+  if (!parsed) return undefined;
+  return IMAGE_VARIANTS
+    .map((variant) => `${parsed.base}${variantFile(variant, format ?? parsed.extension)} ${IMAGE_VARIANT_WIDTHS[variant]}w`)
+    .join(", ");
+}
+
+// Props for an avatar <img> rendered at `size` CSS pixels; only the small
+// variants are offered since avatars never need the full image
+export function avatarImageProps(url: string | null | undefined, size: number) {
+  if (!url) return { src: undefined };
+  if (!parseProcessedUrl(url)) return { src: url };
+  return {
+    src: imageVariantUrl(url, "thumb"),
+    srcSet: (["thumb", "card"] as const)
+      .map((variant) => `${imageVariantUrl(url, variant)} ${IMAGE_VARIANT_WIDTHS[variant]}w`)
+      .join(", "),
+    sizes: `${size}px`,
+  };
+}
@@ -0,0 +1,321 @@
+// The Markdown dialect used for entry descriptions. Sources are parsed into a
+// small tree that the client renders as React elements, so raw HTML in a
+// description is only ever shown as text. Supported: headings, paragraphs,
+// bullet/numbered lists, blockquotes, fenced code, rules, **bold**, *italic*,
+// `code`, [links](https://...) and [[Entry title]] / [[Entry title|label]]
+// links to other entries. Single newlines are kept as line breaks so
+// older plain-text descriptions render as before.
+
+export type MdInline =
+  | { type: "text"; text: string }
+  | { type: "strong"; children: MdInline[] }
+  | { type: "em"; children: MdInline[] }
+  | { type: "code"; text: string }
+  | { type: "link"; href: string; children: MdInline[] }
+  | { type: "wikilink"; target: string; label: string }
+  | { type: "break" };
+
+export type MdBlock =
+  | { type: "heading"; level: 1 | 2 | 3 | 4; children: MdInline[] }
+  | { type: "paragraph"; children: MdInline[] }
+  | { type: "list"; ordered: boolean; items: MdInline[][] }
+  | { type: "blockquote"; children: MdBlock[] }
+  | { type: "code"; text: string }
+  | { type: "rule" };
+
+const FENCE = /^\s*```/;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s*>\s?/;
+const LIST_ITEM = /^\s*(?:[-*+]|(\d{1,9})[.)])\s+(.*)$/;
+
+function startsBlock(line: string): boolean {
+  return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line);
+}
+
+// Only web, mail and same-site links; anything else (javascript:, data:, ...)
+// is dropped and the link text shown as plain text
+export function sanitizeHref(href: string): string | null {
+  const url = href.trim();
+  if (/^(https?:|mailto:)/i.test(url)) return url;
+  // Browsers read "//host" and "/\host" (even with tabs or newlines
+  // between the slashes) as links to another site
+  if (/^[/\\][\t\n\r]*[/\\]/.test(url)) return null;
+  if (/^[/#]/.test(url)) return url;
+  return null;
+}
+
+function parseBlocks(lines: string[]): MdBlock[] {
+  const blocks: MdBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    if (FENCE.test(line)) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE.test(lines[i])) body.push(lines[i++]);
+      i++; // closing fence, if any
+      blocks.push({ type: "code", text: body.join("\n") });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      const level = Math.min(heading[1].length, 4) as 1 | 2 | 3 | 4;
+      blocks.push({ type: "heading", level, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: "rule" });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const inner: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) inner.push(lines[i++].replace(QUOTE, ""));
+      blocks.push({ type: "blockquote", children: parseBlocks(inner) });
+      continue;
+    }
+
+    const item = LIST_ITEM.exec(line);
+    if (item) {
+      const ordered = item[1] !== undefined;
+      const items: string[] = [];
+      while (i < lines.length) {
+        const next = LIST_ITEM.exec(lines[i]);
+        if (next && (next[1] !== undefined) === ordered) {
+          items.push(next[2]);
+          i++;
+        } else if (items.length > 0 && /^\s{2,}\S/.test(lines[i])) {
+          // Indented continuation of the previous item
+          items[items.length - 1] += `\n${lines[i].trim()}`;
+          i++;
+        } else {
+          break;
+        }
+      }
+      blocks.push({ type: "list", ordered, items: items.map(parseInline) });
+      continue;
+    }
+
+    const paragraph: string[] = [line];
+    i++;
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines[i])) paragraph.push(lines[i++]);
+    blocks.push({ type: "paragraph", children: parseInline(paragraph.join("\n")) });
+  }
+
+  return blocks;
+}
+
+// Index of the ")" closing a link target, allowing balanced parentheses
+// inside URLs such as Wikipedia links
+function findHrefEnd(source: string, from: number): number {
+  let depth = 0;
+  for (let i = from; i < source.length; i++) {
+    const char = source[i];
+    if (char === "\n") return -1;
+    if (char === "(") depth++;
+    if (char === ")") {
+      if (depth === 0) return i;
+      depth--;
+    }
+  }
+  return -1;
+}
+
+// Lookup key for a [[wiki link]] target; wikiLinkKeySql() in ./schema
+// computes the same key from entry titles in Postgres
+export function wikiLinkKey(title: string): string {
+  return title.normalize("NFC").trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+function isWordChar(char: string | undefined): boolean {
+  return !!char && (/[0-9]/.test(char) || char.toLowerCase() !== char.toUpperCase());
+}
+
+export function parseInline(source: string): MdInline[] {
+  const nodes: MdInline[] = [];
+  let text = "";
+  let i = 0;
+
+  const flush = () => {
+    if (text) nodes.push({ type: "text", text });
+    text = "";
+  };
+
+  // Closing delimiter after a non-empty run, or -1
+  const findClose = (delimiter: string, from: number) => {
+    const close = source.indexOf(delimiter, from);
+    return close > from ? close : -1;
+  };
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (char === "\\" && i + 1 < source.length && /[\\`*_[\]()#>+\-.!]/.test(source[i + 1])) {
+      text += source[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === "\n") {
+      flush();
+      nodes.push({ type: "break" });
+      i++;
+      continue;
+    }
+
+    if (char === "`") {
+      const close = findClose("`", i + 1);
+      if (close !== -1) {
+        flush();
+        nodes.push({ type: "code", text: source.slice(i + 1, close) });
+        i = close + 1;
+        continue;
+      }
+    }
+
+    const pair = source.slice(i, i + 2);
+    if (pair === "**" || pair === "__") {
+      const close = findClose(pair, i + 2);
+      if (close !== -1) {
+        flush();
+        nodes.push({ type: "strong", children: parseInline(source.slice(i + 2, close)) });
+        i = close + 2;
+        continue;
+      }
+    }
+
+    // Underscores inside words (snake_case) are not emphasis
+    if (char === "*" || (char === "_" && !isWordChar(source[i - 1]))) {
+      const close = findClose(char, i + 1);
+      if (close !== -1 && !(char === "_" && isWordChar(source[close + 1]))) {
+        flush();
+        nodes.push({ type: "em", children: parseInline(source.slice(i + 1, close)) });
+        i = close + 1;
+        continue;
+      }
+    }
+
+    if (pair === "[[") {
+      const close = source.indexOf("]]", i + 2);
+      const inner = close === -1 ? "" : source.slice(i + 2, close);
+      const [target, label] = inner.split("|", 2).map((part) => part.trim());
+      if (target && !inner.includes("\n") && !inner.includes("[")) {
+        flush();
+        nodes.push({ type: "wikilink", target, label: label || target });
+        i = close + 2;
+        continue;
+      }
+    }
+
+    if (char === "[") {
+      const labelEnd = source.indexOf("](", i + 1);
+      const hrefEnd = labelEnd === -1 ? -1 : findHrefEnd(source, labelEnd + 2);
+      if (labelEnd > i + 1 && hrefEnd !== -1 && !source.slice(i + 1, labelEnd).includes("\n")) {
+        flush();
+        const children = parseInline(source.slice(i + 1, labelEnd));
+        const href = sanitizeHref(source.slice(labelEnd + 2, hrefEnd));
+        if (href) {
+          nodes.push({ type: "link", href, children });
+        } else {
+          nodes.push(...children);
+        }
+        i = hrefEnd + 1;
+        continue;
+      }
+    }
+
+    text += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
+
+export function parseMarkdown(source: string): MdBlock[] {
+  return parseBlocks(source.replace(/\r\n?/g, "\n").split("\n"));
+}
+
+function inlineText(nodes: MdInline[]): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+        case "code":
+          return node.text;
+        case "break":
+          return " ";
+        case "wikilink":
+          return node.label;
+        default:
+          return inlineText(node.children);
+      }
+    })
+    .join("");
+}
+
+function blockText(block: MdBlock): string {
+  switch (block.type) {
+    case "heading":
+    case "paragraph":
+      return inlineText(block.children);
+    case "list":
+      return block.items.map(inlineText).join(" ");
+    case "blockquote":
+      return block.children.map(blockText).join(" ");
+    case "code":
+      return block.text;
+    case "rule":
+      return "";
+  }
+}
+
+function collectWikiLinks(nodes: MdInline[], targets: string[]) {
+  for (const node of nodes) {
+    if (node.type === "wikilink") targets.push(node.target);
+    else if ("children" in node) collectWikiLinks(node.children, targets);
+  }
+}
+
+function blockWikiLinks(block: MdBlock, targets: string[]) {
+  switch (block.type) {
+    case "heading":
+    case "paragraph":
+      collectWikiLinks(block.children, targets);
+      break;
+    case "list":
+      block.items.forEach((item) => collectWikiLinks(item, targets));
+      break;
+    case "blockquote":
+      block.children.forEach((child) => blockWikiLinks(child, targets));
+      break;
+  }
+}
+
+// Distinct [[wiki link]] keys in document order
+export function extractWikiLinkKeys(blocks: MdBlock[]): string[] {
+  const targets: string[] = [];
+  blocks.forEach((block) => blockWikiLinks(block, targets));
+  return Array.from(new Set(targets.map(wikiLinkKey))).filter((key) => key.length > 0);
+}
+
+// Description without any markup, for cards, search snippets and meta tags
+export function markdownToPlainText(source: string): string {
+  return parseMarkdown(source)
+    .map(blockText)
+    .join(" ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
@@ -0,0 +1,57 @@
+import type { User } from "./schema";
+
+// users.role is the single source of truth; users.isAdmin mirrors
+// role === "admin" for older code paths and is kept in sync on role changes.
+// Admins from before roles existed have isAdmin set but role still "user",
+// so isAdmin alone also counts as admin.
+export const ROLES = ["user", "moderator", "admin"] as const;
+export type Role = typeof ROLES[number];
+
+// Which roles hold each permission. Checked by requirePermission() on the
+// server and by useAuth().can() to hide controls on the client.
+export const PERMISSIONS = {
+  "entries.moderate": ["moderator", "admin"], // review queue, approve/reject entries and drafts, restore revisions
+  "entries.verify": ["moderator", "admin"],
+  "entries.delete": ["admin"],
+  "comments.delete": ["moderator", "admin"],
+  "reports.resolve": ["moderator", "admin"],
+  "tags.manage": ["moderator", "admin"],
+  "images.manage": ["moderator", "admin"],
+  "users.view": ["moderator", "admin"],
+  "users.ban": ["moderator", "admin"],
+  "users.delete": ["admin"],
+  "users.reset_2fa": ["admin"],
+  "lockouts.manage": ["admin"], // see and clear login lockouts
+  "users.badge": ["admin"],
+  "roles.assign": ["admin"],
+  "audit.view": ["admin"],
+} as const satisfies Record<string, readonly Role[]>;
+export type Permission = keyof typeof PERMISSIONS;
+
+export function isRole(value: unknown): value is Role {
+  return (ROLES as readonly unknown[]).includes(value);
+}
+
+type RoleHolder = Pick<User, "role"> & Partial<Pick<User, "isAdmin">>;
+
+export function roleOf(user: RoleHolder | null | undefined): Role {
+  if (!user) return "user";
+  if (user.isAdmin) return "admin";
+  return isRole(user.role) ? user.role : "user";
+}
+
+export function hasPermission(user: RoleHolder | null | undefined, permission: Permission): boolean {
+  return (PERMISSIONS[permission] as readonly Role[]).includes(roleOf(user));
+}
+
+// Moderators may act on regular users only; admins on anyone but themselves
+export function canManageUser(actor: RoleHolder & Pick<User, "id">, target: RoleHolder & Pick<User, "id">): boolean {
+  if (actor.id === target.id) return false;
+  return ROLES.indexOf(roleOf(actor)) > ROLES.indexOf(roleOf(target)) || roleOf(actor) === "admin";
+}
+
+// Staff accounts must have TOTP on, and have passed it this session, before
+// any admin route works (see requirePermission)
+export function requiresTwoFactor(user: RoleHolder | null | undefined): boolean {
+  return roleOf(user) !== "user";
+}
@@ -0,0 +1,10 @@
+// WebSocket endpoint for live updates. Only signed-in users can connect; the
+// session cookie is checked on the upgrade request.
+export const REALTIME_PATH = "/api/ws";
+
+// Events only say what changed; clients refetch the affected queries
+export type RealtimeEvent =
+  | { type: "entry.changed"; entryId: string }
+  | { type: "report.changed"; reportId: string }
+  | { type: "user.changed"; userId: string }
+  | { type: "notification.created" };
@@ -1,16 +1,33 @@
-import { sql } from 'drizzle-orm';
+import { sql, type SQL } from 'drizzle-orm';
 import {
   index,
+  uniqueIndex,
   jsonb,
   pgTable,
   timestamp,
   varchar,
   text,
   boolean,
+  integer,
+  primaryKey,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
+import { SEARCH_FOLD_FROM, SEARCH_FOLD_TO, type HighlightPart } from "./search";
+
+// Accent-folded, weighted tsvector for full-text search. The fold strings are
+// inlined (not bound parameters) so queries match the expression index below.
+export function foldedSearchVector(value: AnyPgColumn | SQL, weight: "A" | "B" | "C"): SQL {
+  return sql`setweight(to_tsvector('simple', translate(lower(coalesce(${value}, '')), ${sql.raw(`'${SEARCH_FOLD_FROM}'`)}, ${sql.raw(`'${SEARCH_FOLD_TO}'`)})), ${sql.raw(`'${weight}'`)})`;
+}
+
+// Title as a [[wiki link]] target: trimmed, single-spaced, lower case.
+// Must agree with wikiLinkKey() in ./markdown.
+export function wikiLinkKeySql(title: AnyPgColumn | SQL): SQL {
+  return sql`lower(regexp_replace(btrim(${title}), '\\s+', ' ', 'g'))`;
+}
 
 // Session storage table for Replit Auth
 export const sessions = pgTable(
@@ -27,6 +44,7 @@ export const sessions = pgTable(
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   email: varchar("email").unique(),
+  emailVerifiedAt: timestamp("email_verified_at"), // null until the address is confirmed
   username: varchar("username"), // Optional - for password-based auth
   password: varchar("password"), // hashed password for local auth (optional)
   firstName: varchar("first_name"),
@@ -40,6 +58,7 @@ export const users = pgTable("users", {
   isBanned: boolean("is_banned").default(false).notNull(), // true = user is banned
   bannedUntil: timestamp("banned_until"), // null = permanent ban, timestamp = temporary ban
   banReason: text("ban_reason"), // reason for ban
+  twoFactorEnabledAt: timestamp("two_factor_enabled_at"), // set while TOTP is on; the secret lives in user_two_factor
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => [
@@ -50,7 +69,12 @@ export const users = pgTable("users", {
 export const userImages = pgTable("user_images", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
-  imageUrl: text("image_url").notNull(),
+  imageUrl: text("image_url").notNull(), // public URL of the stored file
+  storageKey: varchar("storage_key"), // key (or variant prefix) in the file store; null for images saved before uploads
+  contentType: varchar("content_type", { length: 100 }),
+  sizeBytes: integer("size_bytes"), // all stored variants together
+  width: integer("width"),
+  height: integer("height"),
   fileName: varchar("file_name"),
   createdAt: timestamp("created_at").defaultNow(),
 }, (table) => [
@@ -62,6 +86,7 @@ export const wikiEntries = pgTable("wiki_entries", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   title: varchar("title", { length: 255 }).notNull(),
+  slug: varchar("slug", { length: 100 }), // from the title, for readable /entry/:id/:slug URLs
   description: text("description").notNull(),
   imageUrl: text("image_url"),
   status: varchar("status", { length: 50 }).notNull().default("pending"), // approved, pending, rejected
@@ -75,16 +100,43 @@ export const wikiEntries = pgTable("wiki_entries", {
   index("idx_wiki_entries_status").on(table.status),
   index("idx_wiki_entries_verification").on(table.verification),
   index("idx_wiki_entries_is_special").on(table.isSpecial),
+  index("idx_wiki_entries_search").using(
+    "gin",
+    sql`(${foldedSearchVector(table.title, "A")} || ${foldedSearchVector(table.description, "B")})`,
+  ),
+  index("idx_wiki_entries_link_key").on(wikiLinkKeySql(table.title)),
 ]);
 
 // Content reports table
+export const REPORT_REASONS = ["spam", "harassment", "misinformation", "inappropriate", "copyright", "other"] as const;
+export type ReportReason = typeof REPORT_REASONS[number];
+export const REPORT_STATUSES = ["pending", "investigating", "resolved", "dismissed"] as const;
+export type ReportStatus = typeof REPORT_STATUSES[number];
+export const OPEN_REPORT_STATUSES = ["pending", "investigating"] as const satisfies readonly ReportStatus[];
+
+// Allowed status changes. Obvious noise can be dismissed straight away;
+// resolving means someone investigated first. Closed reports stay closed.
+export const REPORT_STATUS_TRANSITIONS: Record<ReportStatus, readonly ReportStatus[]> = {
+  pending: ["investigating", "dismissed"],
+  investigating: ["resolved", "dismissed"],
+  resolved: [],
+  dismissed: [],
+};
+
+export function canTransitionReport(from: string, to: ReportStatus): boolean {
+  return (REPORT_STATUS_TRANSITIONS[from as ReportStatus] ?? []).includes(to);
+}
+
 export const contentReports = pgTable("content_reports", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   entryId: varchar("entry_id").notNull().references(() => wikiEntries.id, { onDelete: "cascade" }),
   reporterId: varchar("reporter_id").notNull().references(() => users.id, { onDelete: "cascade" }),
-  reason: varchar("reason", { length: 100 }).notNull(), // spam, harassment, misinformation, inappropriate, other
+  reason: varchar("reason", { length: 100 }).notNull(), // one of REPORT_REASONS
   description: text("description"),
-  status: varchar("status", { length: 50 }).notNull().default("pending"), // pending, investigating, resolved, dismissed
+  status: varchar("status", { length: 50 }).$type<ReportStatus>().notNull().default("pending"),
+  resolutionNote: text("resolution_note"), // set when the report is resolved or dismissed
+  resolvedBy: varchar("resolved_by").references(() => users.id, { onDelete: "set null" }),
+  resolvedAt: timestamp("resolved_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => [
@@ -98,12 +150,16 @@ export const comments = pgTable("comments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   entryId: varchar("entry_id").notNull().references(() => wikiEntries.id, { onDelete: "cascade" }),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  // Replies point at the comment they answer; deleting a comment removes its replies
+  parentId: varchar("parent_id").references((): AnyPgColumn => comments.id, { onDelete: "cascade" }),
   content: text("content").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+  editedAt: timestamp("edited_at"), // null until the author edits the comment
 }, (table) => [
   index("idx_comments_entry_id").on(table.entryId),
   index("idx_comments_user_id").on(table.userId),
+  index("idx_comments_parent_id").on(table.parentId),
 ]);
 
 // Likes table
@@ -115,12 +171,265 @@ export const likes = pgTable("likes", {
 }, (table) => [
   index("idx_likes_entry_id").on(table.entryId),
   index("idx_likes_user_id").on(table.userId),
-  // Unique constraint: one user can only like an entry once
-  sql`UNIQUE (entry_id, user_id)`,
+  // One user can only like an entry once
+  uniqueIndex("idx_likes_entry_user").on(table.entryId, table.userId),
+]);
+
+// Wiki entry revisions table - one row per saved version of an entry
+export const wikiEntryRevisions = pgTable("wiki_entry_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  entryId: varchar("entry_id").notNull().references(() => wikiEntries.id, { onDelete: "cascade" }),
+  editorId: varchar("editor_id").references(() => users.id, { onDelete: "set null" }), // null = editor account deleted
+  revisionNumber: integer("revision_number").notNull(),
+  title: varchar("title", { length: 255 }).notNull(),
+  description: text("description").notNull(),
+  imageUrl: text("image_url"),
+  restoredFromId: varchar("restored_from_id"), // set when this revision is an admin rollback
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_wiki_entry_revisions_entry_id").on(table.entryId),
+  uniqueIndex("uq_wiki_entry_revisions_entry_number").on(table.entryId, table.revisionNumber),
+]);
+
+// Moderation decisions on an entry or its pending draft, newest last. The
+// latest one tells the author why their entry was rejected.
+export const entryModerations = pgTable("entry_moderations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  entryId: varchar("entry_id").notNull().references(() => wikiEntries.id, { onDelete: "cascade" }),
+  moderatorId: varchar("moderator_id").references(() => users.id, { onDelete: "set null" }),
+  status: varchar("status", { length: 50 }).notNull(), // approved, pending, rejected
+  isDraft: boolean("is_draft").default(false).notNull(), // decision on a pending edit, not the entry itself
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_entry_moderations_entry_id").on(table.entryId, table.createdAt),
+]);
+
+// A moderator's claim on a pending entry or report while they review it.
+// Claims expire on their own; expired rows are simply overwritten.
+export const CLAIM_TARGET_TYPES = ["entry", "report"] as const;
+export type ClaimTargetType = typeof CLAIM_TARGET_TYPES[number];
+export const DEFAULT_CLAIM_MINUTES = 15;
+export const MAX_CLAIM_MINUTES = 60;
+
+export const moderationClaims = pgTable("moderation_claims", {
+  targetType: varchar("target_type", { length: 20 }).$type<ClaimTargetType>().notNull(),
+  targetId: varchar("target_id").notNull(),
+  moderatorId: varchar("moderator_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  primaryKey({ columns: [table.targetType, table.targetId] }),
+]);
+
+// Pending edits to approved entries - the live row stays published until an
+// admin approves the draft. At most one draft per entry.
+export const wikiEntryDrafts = pgTable("wiki_entry_drafts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  entryId: varchar("entry_id").notNull().unique().references(() => wikiEntries.id, { onDelete: "cascade" }),
+  editorId: varchar("editor_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  title: varchar("title", { length: 255 }).notNull(),
+  description: text("description").notNull(),
+  imageUrl: text("image_url"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Local copies of images that entries link to on other sites. Entries point
+// at /api/images/:id/full instead of the remote URL, so readers never load
+// images from third-party hosts.
+export const externalImages = pgTable("external_images", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sourceUrl: text("source_url").notNull().unique(),
+  status: varchar("status", { length: 20 }).notNull().default("pending"), // pending, cached, broken
+  storageKey: varchar("storage_key"), // variant prefix in the file store, once cached
+  contentType: varchar("content_type", { length: 100 }),
+  sizeBytes: integer("size_bytes"),
+  width: integer("width"),
+  height: integer("height"),
+  error: text("error"), // why the last fetch failed
+  fetchedAt: timestamp("fetched_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_external_images_status").on(table.status),
+]);
+
+// Who did what in the admin area. Rows are never updated or deleted.
+export const AUDIT_ACTIONS = [
+  "entry.moderate",
+  "entry.draft_moderate",
+  "entry.verify",
+  "entry.restore",
+  "entry.delete",
+  "comment.delete",
+  "report.status",
+  "tag.rename",
+  "tag.merge",
+  "tag.delete",
+  "image.retry",
+  "user.ban",
+  "user.unban",
+  "user.delete",
+  "user.badge",
+  "user.role",
+  "user.2fa_reset",
+  "lockout.clear",
+] as const;
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+export const AUDIT_TARGET_TYPES = ["entry", "comment", "report", "tag", "image", "user", "lockout"] as const;
+export type AuditTargetType = typeof AUDIT_TARGET_TYPES[number];
+
+export const auditLog = pgTable("audit_log", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  actorId: varchar("actor_id").references(() => users.id, { onDelete: "set null" }), // null = actor account deleted
+  action: varchar("action", { length: 50 }).$type<AuditAction>().notNull(),
+  targetType: varchar("target_type", { length: 20 }).$type<AuditTargetType>().notNull(),
+  targetId: varchar("target_id").notNull(), // kept after the target is deleted
+  before: jsonb("before"), // relevant fields before the change; null for creations
+  after: jsonb("after"), // and after; null for deletions
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_audit_log_created_at").on(table.createdAt),
+  index("idx_audit_log_actor_id").on(table.actorId),
+  index("idx_audit_log_target").on(table.targetType, table.targetId),
+]);
+
+// What a notification is about; the client picks the wording per type
+export const NOTIFICATION_TYPES = [
+  "entry.approved",
+  "entry.rejected",
+  "draft.approved",
+  "draft.rejected",
+  "entry.comment",
+  "comment.reply",
+  "entry.like",
+  "report.resolved",
+  "report.dismissed",
+  "user.banned",
+] as const;
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+// In-app notifications, one row per recipient
+export const notifications = pgTable("notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  type: varchar("type", { length: 50 }).$type<NotificationType>().notNull(),
+  actorId: varchar("actor_id").references(() => users.id, { onDelete: "set null" }), // null for moderation actions and deleted accounts
+  entryId: varchar("entry_id").references(() => wikiEntries.id, { onDelete: "cascade" }),
+  commentId: varchar("comment_id").references(() => comments.id, { onDelete: "cascade" }),
+  message: text("message"), // rejection or ban reason
+  readAt: timestamp("read_at"), // null while unread
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_notifications_user_created_at").on(table.userId, table.createdAt),
+  index("idx_notifications_user_unread").on(table.userId).where(sql`${table.readAt} is null`),
+]);
+
+// Tags for browsing entries by topic; the slug is the stable lookup key
+export const tags = pgTable("tags", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name", { length: 50 }).notNull(),
+  slug: varchar("slug", { length: 60 }).notNull().unique(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const wikiEntryTags = pgTable("wiki_entry_tags", {
+  entryId: varchar("entry_id").notNull().references(() => wikiEntries.id, { onDelete: "cascade" }),
+  tagId: varchar("tag_id").notNull().references(() => tags.id, { onDelete: "cascade" }),
+}, (table) => [
+  primaryKey({ columns: [table.entryId, table.tagId] }),
+  index("idx_wiki_entry_tags_tag_id").on(table.tagId),
+]);
+
+// [[Title]] links found in entry descriptions. Targets are stored by title
+// key rather than id so links to entries that don't exist yet start working
+// once such an entry is approved.
+export const entryLinks = pgTable("entry_links", {
+  sourceId: varchar("source_id").notNull().references(() => wikiEntries.id, { onDelete: "cascade" }),
+  targetKey: varchar("target_key", { length: 255 }).notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.sourceId, table.targetKey] }),
+  index("idx_entry_links_target_key").on(table.targetKey),
 ]);
 
 // Relations
+// Accounts at external login providers (OIDC issuers, GitHub...) linked to a
+// user. A user can sign in through several; each provider account belongs to
+// exactly one user.
+export const userIdentities = pgTable("user_identities", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  provider: varchar("provider", { length: 50 }).notNull(), // id from the provider registry, e.g. "replit", "google"
+  subject: varchar("subject").notNull(), // the provider's stable account id
+  email: varchar("email"), // as last reported by the provider
+  createdAt: timestamp("created_at").defaultNow(),
+  lastLoginAt: timestamp("last_login_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("uq_user_identities_provider_subject").on(table.provider, table.subject),
+  index("idx_user_identities_user_id").on(table.userId),
+]);
+
+// Single-use links sent by email. Only the SHA-256 of the token is stored.
+export const AUTH_TOKEN_PURPOSES = ["email_verification", "password_reset"] as const;
+export type AuthTokenPurpose = typeof AUTH_TOKEN_PURPOSES[number];
+export const AUTH_TOKEN_TTL_MINUTES: Record<AuthTokenPurpose, number> = {
+  email_verification: 24 * 60,
+  password_reset: 60,
+};
+
+export const authTokens = pgTable("auth_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  purpose: varchar("purpose", { length: 30 }).$type<AuthTokenPurpose>().notNull(),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+  email: varchar("email"), // the address a verification link was sent to
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_auth_tokens_user_purpose").on(table.userId, table.purpose),
+]);
+
+// TOTP secrets, kept out of the users row so they never reach the client
+export const userTwoFactor = pgTable("user_two_factor", {
+  userId: varchar("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  secret: varchar("secret").notNull(), // base32
+  lastUsedStep: integer("last_used_step"), // 30-second step of the last accepted code; older codes are replays
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One-time recovery codes, stored as SHA-256 hashes
+export const twoFactorRecoveryCodes = pgTable("two_factor_recovery_codes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  codeHash: varchar("code_hash", { length: 64 }).notNull(),
+  usedAt: timestamp("used_at"),
+}, (table) => [
+  index("idx_two_factor_recovery_codes_user_id").on(table.userId),
+]);
+
+// Failed logins per account and per IP, for backoff and lockout
+// (server/loginThrottle.ts). Rows go away on success or once they are stale.
+// Names that match no account get their own kind, so typing someone's user
+// id as a username can't count against their account.
+export const LOGIN_ATTEMPT_KINDS = ["user", "name", "ip"] as const;
+export type LoginAttemptKind = typeof LOGIN_ATTEMPT_KINDS[number];
+
+export const loginAttempts = pgTable("login_attempts", {
+  key: varchar("key").primaryKey(), // "<kind>:<subject>"
+  kind: varchar("kind", { length: 20 }).$type<LoginAttemptKind>().notNull(),
+  subject: varchar("subject").notNull(), // user id, lower-cased name with no account, or IP address
+  failures: integer("failures").notNull(),
+  lastFailureAt: timestamp("last_failure_at").notNull(),
+  lockedUntil: timestamp("locked_until"), // no login attempts before this
+}, (table) => [
+  index("idx_login_attempts_locked_until").on(table.lockedUntil),
+]);
+
 export const usersRelations = relations(users, ({ many }) => ({
+  identities: many(userIdentities),
+  authTokens: many(authTokens),
   wikiEntries: many(wikiEntries),
   images: many(userImages),
   reports: many(contentReports),
@@ -143,6 +452,54 @@ export const wikiEntriesRelations = relations(wikiEntries, ({ one, many }) => ({
   reports: many(contentReports),
   comments: many(comments),
   likes: many(likes),
+  revisions: many(wikiEntryRevisions),
+  draft: one(wikiEntryDrafts),
+  entryTags: many(wikiEntryTags),
+  outgoingLinks: many(entryLinks),
+}));
+
+export const entryLinksRelations = relations(entryLinks, ({ one }) => ({
+  source: one(wikiEntries, {
+    fields: [entryLinks.sourceId],
+    references: [wikiEntries.id],
+  }),
+}));
+
+export const tagsRelations = relations(tags, ({ many }) => ({
+  entryTags: many(wikiEntryTags),
+}));
+
+export const wikiEntryTagsRelations = relations(wikiEntryTags, ({ one }) => ({
+  entry: one(wikiEntries, {
+    fields: [wikiEntryTags.entryId],
+    references: [wikiEntries.id],
+  }),
+  tag: one(tags, {
+    fields: [wikiEntryTags.tagId],
+    references: [tags.id],
+  }),
+}));
+
+export const wikiEntryDraftsRelations = relations(wikiEntryDrafts, ({ one }) => ({
+  entry: one(wikiEntries, {
+    fields: [wikiEntryDrafts.entryId],
+    references: [wikiEntries.id],
+  }),
+  editor: one(users, {
+    fields: [wikiEntryDrafts.editorId],
+    references: [users.id],
+  }),
+}));
+
+export const wikiEntryRevisionsRelations = relations(wikiEntryRevisions, ({ one }) => ({
+  entry: one(wikiEntries, {
+    fields: [wikiEntryRevisions.entryId],
+    references: [wikiEntries.id],
+  }),
+  editor: one(users, {
+    fields: [wikiEntryRevisions.editorId],
+    references: [users.id],
+  }),
 }));
 
 export const contentReportsRelations = relations(contentReports, ({ one }) => ({
@@ -182,10 +539,46 @@ export const likesRelations = relations(likes, ({ one }) => ({
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
 export type UserImage = typeof userImages.$inferSelect;
+export type UserIdentity = typeof userIdentities.$inferSelect;
+export type InsertUserIdentity = typeof userIdentities.$inferInsert;
+export type AuthToken = typeof authTokens.$inferSelect;
+export type InsertAuthToken = typeof authTokens.$inferInsert;
+export type UserTwoFactor = typeof userTwoFactor.$inferSelect;
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+// A record that currently blocks logins: a short backoff, or a full lockout
+// For "user" records, username is the account's username (or email)
+export type LoginLockout = LoginAttempt & { lockedOut: boolean; username: string | null };
+
+export const TWO_FACTOR_CODE_LENGTH = 6;
+export const TWO_FACTOR_RECOVERY_CODE_COUNT = 10;
+// The signed-in user's 2FA state. `required` follows their role; `verified`
+// means this session passed a TOTP or recovery code check.
+export type TwoFactorStatus = {
+  enabled: boolean;
+  required: boolean;
+  verified: boolean;
+  recoveryCodesRemaining: number;
+};
+// Returned once by setup; the secret is confirmed with a code before it is saved
+export type TwoFactorSetup = { secret: string; otpauthUrl: string; qrCode: string };
+
+// A configured login provider, as listed on the sign-in page
+export type AuthProviderInfo = { id: string; label: string; type: "oidc" | "github" };
+// The signed-in user's ways to sign in, for the linked accounts panel
+export type LinkedIdentities = { identities: UserIdentity[]; hasPassword: boolean };
+export type InsertUserImage = typeof userImages.$inferInsert;
+
+// Gallery upload limits, checked by the server and mirrored in the picker
+export const GALLERY_IMAGE_TYPES = ["image/jpeg", "image/png", "image/gif", "image/webp"] as const;
+export type GalleryImageType = typeof GALLERY_IMAGE_TYPES[number];
+export const MAX_GALLERY_IMAGE_BYTES = 5 * 1024 * 1024;
+export const MAX_GALLERY_BYTES_PER_USER = 50 * 1024 * 1024;
+export const MAX_GALLERY_IMAGES_PER_USER = 100;
 
 // Wiki entry schemas
 export const insertWikiEntrySchema = createInsertSchema(wikiEntries).omit({
   id: true,
+  slug: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -194,6 +587,7 @@ export const updateWikiEntrySchema = createInsertSchema(wikiEntries)
   .omit({
     id: true,
     userId: true,
+    slug: true,
     status: true,
     createdAt: true,
     updatedAt: true,
@@ -205,28 +599,64 @@ export type InsertWikiEntry = z.infer<typeof insertWikiEntrySchema>;
 export type UpdateWikiEntry = z.infer<typeof updateWikiEntrySchema>;
 export type WikiEntry = typeof wikiEntries.$inferSelect;
 
+// Wiki entry revision types
+export type WikiEntryRevision = typeof wikiEntryRevisions.$inferSelect;
+export type WikiEntryRevisionWithEditor = WikiEntryRevision & { editor: User | null };
+
+// Pending draft types
+export type WikiEntryDraft = typeof wikiEntryDrafts.$inferSelect;
+export type WikiEntryDraftContent = Pick<WikiEntryDraft, "title" | "description" | "imageUrl">;
+export type WikiEntryWithDraft = WikiEntry & { pendingDraft: WikiEntryDraft | null };
+
+export type EntryModeration = typeof entryModerations.$inferSelect;
+export type InsertEntryModeration = typeof entryModerations.$inferInsert;
+// What the author sees of the latest decision; the moderator stays anonymous
+export type ModerationNote = Pick<EntryModeration, "status" | "isDraft" | "reason" | "createdAt">;
+// Only filled in for the author and moderators
+export type EntryModerationInfo = { latestModeration?: ModerationNote | null };
+
 // Content report schemas
-export const insertContentReportSchema = createInsertSchema(contentReports).omit({
+export const insertContentReportSchema = createInsertSchema(contentReports, {
+  reason: z.enum(REPORT_REASONS),
+}).omit({
   id: true,
   status: true,
+  resolutionNote: true,
+  resolvedBy: true,
+  resolvedAt: true,
   createdAt: true,
   updatedAt: true,
 });
 
 export type InsertContentReport = z.infer<typeof insertContentReportSchema>;
 export type ContentReport = typeof contentReports.$inferSelect;
+export type ReportWithDetails = ContentReport & { entry: WikiEntry & { user: User }; reporter: User } & ClaimInfo;
+
+// Open reports against one entry, for the triage view
+export type ReportGroup = {
+  entry: WikiEntry & { user: User };
+  reports: (ContentReport & { reporter: User } & ClaimInfo)[];
+  reasonCounts: Record<string, number>;
+  latestReportAt: Date | null;
+};
 
 // Comments & Likes types
 export type Comment = typeof comments.$inferSelect;
 export type Like = typeof likes.$inferSelect;
 
-export const insertCommentSchema = createInsertSchema(comments).omit({
+export const insertCommentSchema = createInsertSchema(comments, {
+  content: (schema) => schema.trim().min(1).max(2000),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+  editedAt: true,
 });
 
+export const updateCommentSchema = insertCommentSchema.pick({ content: true }).strict();
+
 export type InsertComment = z.infer<typeof insertCommentSchema>;
+export type CommentWithUser = Comment & { user: User };
 
 export const insertLikeSchema = createInsertSchema(likes).omit({
   id: true,
@@ -235,7 +665,89 @@ export const insertLikeSchema = createInsertSchema(likes).omit({
 
 export type InsertLike = z.infer<typeof insertLikeSchema>;
 
-// User with entries for profile view
-export type UserWithEntries = User & {
-  wikiEntries: WikiEntry[];
+// Full-text search response
+export type SearchHit = WikiEntry & EntryStats & {
+  user: User;
+  rank: number;
+  titleHighlight: HighlightPart[];
+  snippet: HighlightPart[];
+};
+
+export type SearchResponse = {
+  items: SearchHit[];
+  total: number;
+  page: number;
+  pageSize: number;
+  hasMore: boolean;
+};
+
+// Cursor-paginated list response; nextCursor is null on the last page
+export type Paginated<T> = {
+  items: T[];
+  nextCursor: string | null;
+};
+
+// Tag types
+export type Tag = typeof tags.$inferSelect;
+export type TagWithCount = Tag & { entryCount: number };
+
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+export type InsertAuditLogEntry = typeof auditLog.$inferInsert;
+export type AuditActor = Pick<User, "id" | "firstName" | "lastName" | "email" | "profileImageUrl">;
+export type AuditLogEntryWithActor = AuditLogEntry & { actor: AuditActor | null };
+
+export type ModerationClaim = typeof moderationClaims.$inferSelect;
+// An unexpired claim with the moderator holding it
+export type ActiveClaim = Pick<ModerationClaim, "moderatorId" | "expiresAt"> & { moderator: AuditActor };
+export type ClaimInfo = { claim?: ActiveClaim | null };
+
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = typeof notifications.$inferInsert;
+export type NotificationWithDetails = Notification & {
+  actor: AuditActor | null;
+  entry: Pick<WikiEntry, "id" | "title" | "slug"> | null;
+};
+
+export type ExternalImage = typeof externalImages.$inferSelect;
+// Broken images for the admin report, with the entries that show them
+export type BrokenImage = ExternalImage & { entries: Pick<WikiEntry, "id" | "title" | "slug">[] };
+export type EntryTags = { tags: Tag[] };
+
+export const MAX_TAGS_PER_ENTRY = 10;
+export const tagNameSchema = z.string().trim().min(1).max(50);
+export const entryTagsSchema = z.array(tagNameSchema).max(MAX_TAGS_PER_ENTRY);
+
+// Wiki link types. A resolved link points at the oldest approved entry with
+// a matching title.
+export type WikiLinkTarget = {
+  key: string;
+  entryId: string;
+  userId: string;
+  title: string;
+  slug: string | null;
+};
+export type Backlink = Pick<WikiEntry, "id" | "userId" | "title" | "slug">;
+
+export const MAX_WIKI_LINK_LOOKUPS = 50;
+
+// Per-entry counters attached to entries in public lists; likedByMe is
+// always false for anonymous viewers
+export type EntryStats = {
+  commentCount: number;
+  likeCount: number;
+  likedByMe: boolean;
+};
+
+// Home feed ordering; "top" ranks by likes received within the period
+export const entryFeedSorts = ["newest", "top"] as const;
+export const likePeriods = ["day", "week", "all"] as const;
+export type EntryFeedSort = typeof entryFeedSorts[number];
+export type LikePeriod = typeof likePeriods[number];
+
+// Standalone entry page at /entry/:id/:slug
+export type EntryPage = WikiEntry & EntryStats & EntryTags & EntryModerationInfo & { user: User };
+
+// Profile header; entries are loaded separately page by page
+export type UserProfile = User & {
+  entryCount: number;
 };
@@ -0,0 +1,93 @@
+// Accent folding shared by the Postgres search index and the JS side, so a
+// query typed without diacritics ("ha noi") matches "Hà Nội".
+const VIETNAMESE_ACCENTED =
+  "àáạảãâầấậẩẫăằắặẳẵèéẹẻẽêềếệểễìíịỉĩòóọỏõôồốộổỗơờớợởỡùúụủũưừứựửữỳýỵỷỹđ";
+
+// Fold a single character; always returns exactly one character so that
+// positions in the folded text line up with the original.
+function foldChar(char: string): string {
+  const lower = char.toLowerCase();
+  if (lower === "đ") return "d";
+  const stripped = lower.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+  return stripped.length === 1 ? stripped : lower.length === 1 ? lower : char;
+}
+
+export function foldDiacritics(text: string): string {
+  return Array.from(text.normalize("NFC"), foldChar).join("");
+}
+
+// Argument pair for Postgres translate(); translate() is immutable, which
+// lets it be used in an expression index (unaccent() is not).
+export const SEARCH_FOLD_FROM = VIETNAMESE_ACCENTED;
+export const SEARCH_FOLD_TO = foldDiacritics(VIETNAMESE_ACCENTED);
+
+export function tokenizeSearchQuery(query: string): string[] {
+  return foldDiacritics(query)
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 0)
+    .slice(0, 10);
+}
+
+// Prefix-match every term: "ha no" -> "ha:* & no:*"
+export function toPrefixTsQuery(tokens: string[]): string {
+  return tokens.map((token) => `${token}:*`).join(" & ");
+}
+
+export type HighlightPart = {
+  text: string;
+  highlight: boolean;
+};
+
+// Mark every word that starts with one of the search tokens. When maxLength
+// is given the text is cut to a window around the first match.
+export function highlightText(text: string, tokens: string[], maxLength?: number): HighlightPart[] {
+  const chars = Array.from(text.normalize("NFC"));
+  const folded = chars.map(foldChar);
+
+  const isWordChar = (c: string) => /[a-z0-9]/.test(c);
+  const ranges: [number, number][] = [];
+  let i = 0;
+  while (i < folded.length) {
+    if (!isWordChar(folded[i])) {
+      i++;
+      continue;
+    }
+    let end = i;
+    while (end < folded.length && isWordChar(folded[end])) end++;
+    const word = folded.slice(i, end).join("");
+    const match = tokens
+      .filter((token) => word.startsWith(token))
+      .reduce((longest, token) => Math.max(longest, token.length), 0);
+    if (match > 0) ranges.push([i, i + match]);
+    i = end;
+  }
+
+  let start = 0;
+  let stop = chars.length;
+  if (maxLength !== undefined && chars.length > maxLength) {
+    const firstMatch = ranges.length > 0 ? ranges[0][0] : 0;
+    start = Math.max(0, Math.min(firstMatch - Math.floor(maxLength / 4), chars.length - maxLength));
+    stop = start + maxLength;
+    // Don't start the window in the middle of a word
+    while (start > 0 && start < firstMatch && !/\s/.test(chars[start - 1])) start++;
+  }
+
+  const parts: HighlightPart[] = [];
+  const push = (from: number, to: number, highlight: boolean) => {
+    if (to <= from) return;
+    parts.push({ text: chars.slice(from, to).join(""), highlight });
+  };
+
+  let cursor = start;
+  for (const [from, to] of ranges) {
+    if (to <= start || from >= stop) continue;
+    push(cursor, Math.max(from, start), false);
+    push(Math.max(from, start), Math.min(to, stop), true);
+    cursor = Math.min(to, stop);
+  }
+  push(cursor, stop, false);
+
+  if (start > 0) parts.unshift({ text: "…", highlight: false });
+  if (stop < chars.length) parts.push({ text: "…", highlight: false });
+  return parts;
+}
@@ -0,0 +1,20 @@
+import { foldDiacritics } from "./search";
+
+// URL-safe, accent-free slug: "Hà Nội cổ" -> "ha-noi-co"
+export function slugify(text: string, maxLength = 80): string {
+  return foldDiacritics(text)
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, maxLength)
+    .replace(/-+$/, "");
+}
+
+export function entrySlug(title: string): string {
+  return slugify(title, 100) || "entry";
+}
+
+// Permalink of an entry. Only the id is used for lookup; the slug is for
+// readers, and a stale one is redirected to the current title's slug.
+export function entryPath(entry: { id: string; title: string; slug?: string | null }): string {
+  return `/entry/${entry.id}/${entry.slug || entrySlug(entry.title)}`;
+}